@@ -0,0 +1,75 @@
+# frozen_string_literal: true
+
+require "json"
+
+# Minitest plugin used by the RubyMate test explorer.
+#
+# When RUBYMATE_MINITEST_REPORT is set, every test result is written to that
+# file as one JSON object per line. Minitest discovers this file through
+# Gem.find_files, so putting its parent directory on the load path (-I) is
+# enough to enable it.
+module Minitest
+  def self.plugin_rubymate_options(_opts, _options); end
+
+  def self.plugin_rubymate_init(_options)
+    path = ENV["RUBYMATE_MINITEST_REPORT"]
+    return if path.nil? || path.empty?
+
+    reporter << RubymateJsonReporter.new(path)
+  end
+
+  # Writes one JSON line per test result
+  class RubymateJsonReporter < AbstractReporter
+    def initialize(path)
+      super()
+      @path = path
+      @io = nil
+    end
+
+    def start
+      @io = File.open(@path, "a")
+    end
+
+    def record(result)
+      file, line = result.source_location if result.respond_to?(:source_location)
+
+      @io.puts(JSON.generate(
+        class: result.respond_to?(:klass) ? result.klass : result.class.name,
+        name: result.name,
+        file: file,
+        line: line,
+        status: status_for(result),
+        time: result.time,
+        failures: result.failures.map { |failure| failure_json(failure) }
+      ))
+      @io.flush
+    end
+
+    def report
+      @io&.close
+    end
+
+    private
+
+    def status_for(result)
+      if result.skipped?
+        "skip"
+      elsif result.error?
+        "error"
+      elsif result.passed?
+        "pass"
+      else
+        "fail"
+      end
+    end
+
+    def failure_json(failure)
+      {
+        type: failure.respond_to?(:error) ? failure.error.class.name : failure.class.name,
+        message: failure.message,
+        location: failure.location,
+        backtrace: Minitest.filter_backtrace(failure.backtrace || [])
+      }
+    end
+  end
+end
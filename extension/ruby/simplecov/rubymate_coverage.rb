@@ -0,0 +1,16 @@
+# frozen_string_literal: true
+
+# Loaded by the RubyMate "Run with Coverage" test profile when the project's
+# test helpers don't start SimpleCov themselves. Results are written to the
+# usual coverage/.resultset.json, which the test explorer reads afterwards.
+begin
+  require "simplecov"
+rescue LoadError
+  warn "RubyMate: add simplecov to your Gemfile to collect test coverage"
+else
+  unless SimpleCov.running
+    SimpleCov.start do
+      enable_coverage :branch if respond_to?(:enable_coverage)
+    end
+  end
+end
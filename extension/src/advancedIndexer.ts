@@ -717,6 +717,18 @@ export class AdvancedRubyIndexer {
         return results;
     }
 
+    /**
+     * Whether any indexed file defines a method with exactly this name
+     */
+    hasMethod(name: string): boolean {
+        for (const symbols of this.symbols.values()) {
+            if (symbols.some(symbol => symbol.kind === vscode.SymbolKind.Method && symbol.name === name)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
     /**
      * Get type information for IntelliSense
      */
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { AdvancedRubyIndexer, RubySymbol } from '../advancedIndexer';
+import { sourceFileForTest, testFilesForSource } from '../utils/specMapping';
 
 export class NavigationCommands {
     private symbolIndexer: AdvancedRubyIndexer;
@@ -211,38 +212,24 @@ export class NavigationCommands {
         const currentFile = editor.document.uri.fsPath;
         let targetFile: string;
 
-        if (currentFile.includes('_spec.rb')) {
-            // Go from spec to implementation
-            targetFile = currentFile
-                .replace('/spec/', '/app/')
-                .replace('/lib/', '/app/')
-                .replace('_spec.rb', '.rb');
-        } else if (currentFile.includes('_test.rb')) {
-            // Go from minitest to implementation
-            targetFile = currentFile
-                .replace('/test/', '/app/')
-                .replace('/lib/', '/app/')
-                .replace('_test.rb', '.rb');
-        } else if (currentFile.includes('/app/')) {
-            // Go from implementation to spec
-            // Try RSpec first
-            targetFile = currentFile
-                .replace('/app/', '/spec/')
-                .replace('.rb', '_spec.rb');
-
-            // Check if RSpec file exists, otherwise try Minitest
-            try {
-                await vscode.workspace.fs.stat(vscode.Uri.file(targetFile));
-            } catch {
-                targetFile = currentFile
-                    .replace('/app/', '/test/')
-                    .replace('.rb', '_test.rb');
+        const sourceFile = sourceFileForTest(currentFile);
+        const testFiles = testFilesForSource(currentFile);
+
+        if (sourceFile) {
+            // Go from spec/test to implementation
+            targetFile = sourceFile;
+        } else if (testFiles.length > 0) {
+            // Go from implementation to spec, falling back to Minitest
+            targetFile = testFiles[testFiles.length - 1];
+            for (const candidate of testFiles) {
+                try {
+                    await vscode.workspace.fs.stat(vscode.Uri.file(candidate));
+                    targetFile = candidate;
+                    break;
+                } catch {
+                    // Try the next candidate
+                }
             }
-        } else if (currentFile.includes('/lib/')) {
-            // Go from lib to spec
-            targetFile = currentFile
-                .replace('/lib/', '/spec/')
-                .replace('.rb', '_spec.rb');
         } else {
             vscode.window.showInformationMessage('Not a Rails app or spec file');
             return;
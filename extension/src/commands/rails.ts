@@ -1,23 +1,26 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { escapeShellArg, sanitizeRailsName } from '../utils/shellEscape';
-
-export interface RailsRoute {
-    name?: string;
-    verb: string;
-    path: string;
-    controller: string;
-    action: string;
-}
+import { RailsRoute } from '../rails/routesParser';
+import { RouteSource } from '../rails/routeSource';
+import { RoutesExplorerProvider } from '../rails/routesExplorerView';
+import { RailsGeneratorWizard } from '../rails/generatorWizard';
+import { pluralize, singularize } from '../utils/inflection';
 
 export class RailsCommands {
     private outputChannel: vscode.OutputChannel;
-    private routesCache: RailsRoute[] | null = null;
+    private routeSource: RouteSource;
+    private routesExplorer: RoutesExplorerProvider | undefined;
+    private generatorWizard: RailsGeneratorWizard;
     private schemaCache: Map<string, any> | null = null;
 
-    constructor(outputChannel: vscode.OutputChannel) {
+    constructor(outputChannel: vscode.OutputChannel, routeSource: RouteSource) {
         this.outputChannel = outputChannel;
+        this.routeSource = routeSource;
+        this.generatorWizard = new RailsGeneratorWizard(
+            outputChannel,
+            () => vscode.workspace.getConfiguration('rubymate').get<string>('rubyPath', 'ruby')
+        );
     }
 
     registerCommands(context: vscode.ExtensionContext): void {
@@ -43,30 +46,31 @@ export class RailsCommands {
         );
 
         // Route navigation
+        this.routesExplorer = new RoutesExplorerProvider(this.routeSource, this.outputChannel);
         context.subscriptions.push(
-            vscode.commands.registerCommand('rubymate.rails.showRoutes', () => this.showRoutes())
+            this.routesExplorer,
+            vscode.commands.registerCommand('rubymate.rails.showRoutes', () => this.routesExplorer?.reveal())
         );
 
         context.subscriptions.push(
             vscode.commands.registerCommand('rubymate.rails.goToRoute', () => this.goToRoute())
         );
 
-        // Generator commands
-        context.subscriptions.push(
-            vscode.commands.registerCommand('rubymate.rails.generateModel', () => this.generateModel())
-        );
-
-        context.subscriptions.push(
-            vscode.commands.registerCommand('rubymate.rails.generateController', () => this.generateController())
-        );
-
+        // Generator wizard; the generator commands open it at their generator
         context.subscriptions.push(
-            vscode.commands.registerCommand('rubymate.rails.generateMigration', () => this.generateMigration())
+            vscode.commands.registerCommand('rubymate.rails.generate', () => this.generatorWizard.run())
         );
 
-        context.subscriptions.push(
-            vscode.commands.registerCommand('rubymate.rails.generateScaffold', () => this.generateScaffold())
-        );
+        for (const [command, generator] of [
+            ['rubymate.rails.generateModel', 'model'],
+            ['rubymate.rails.generateController', 'controller'],
+            ['rubymate.rails.generateMigration', 'migration'],
+            ['rubymate.rails.generateScaffold', 'scaffold']
+        ]) {
+            context.subscriptions.push(
+                vscode.commands.registerCommand(command, () => this.generatorWizard.run(generator))
+            );
+        }
 
         // Rails console
         context.subscriptions.push(
@@ -112,7 +116,7 @@ export class RailsCommands {
         if (currentFile.includes('/controllers/')) {
             const { namespace: ns, basename } = this.extractNamespace(currentFile);
             namespace = ns;
-            modelName = this.singularize(basename);
+            modelName = singularize(basename);
         } else if (currentFile.includes('/views/')) {
             const parts = currentFile.split('/views/');
             if (parts[1]) {
@@ -124,9 +128,9 @@ export class RailsCommands {
                     namespace = pathParts.slice(0, -2).map(p =>
                         p.charAt(0).toUpperCase() + p.slice(1)
                     ).join('::');
-                    modelName = this.singularize(pathParts[pathParts.length - 2]);
+                    modelName = singularize(pathParts[pathParts.length - 2]);
                 } else {
-                    modelName = this.singularize(pathParts[0]);
+                    modelName = singularize(pathParts[0]);
                 }
             }
         }
@@ -255,7 +259,7 @@ export class RailsCommands {
         if (currentFile.includes('/models/')) {
             const { namespace: ns, basename } = this.extractNamespace(currentFile);
             namespace = ns;
-            controllerName = this.pluralize(basename);
+            controllerName = pluralize(basename);
         } else if (currentFile.includes('/views/')) {
             const parts = currentFile.split('/views/');
             if (parts[1]) {
@@ -475,7 +479,7 @@ export class RailsCommands {
         if (currentFile.includes('/models/')) {
             const match = currentFile.match(/(\w+)\.rb$/);
             if (match) {
-                tableName = this.pluralize(match[1]);
+                tableName = pluralize(match[1]);
             }
         }
 
@@ -554,39 +558,6 @@ export class RailsCommands {
         }
     }
 
-    private async showRoutes(): Promise<void> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return;
-
-        const routes = await this.parseRoutes(workspaceFolder.uri.fsPath);
-
-        if (routes.length === 0) {
-            vscode.window.showInformationMessage('No routes found. Run "rails routes" to see routes.');
-            return;
-        }
-
-        const items = routes.map(route => ({
-            label: `$(symbol-method) ${route.verb} ${route.path}`,
-            description: `${route.controller}#${route.action}`,
-            detail: route.name,
-            route
-        }));
-
-        const selected = await vscode.window.showQuickPick(items, {
-            placeHolder: 'Select route to navigate to controller action',
-            matchOnDescription: true,
-            matchOnDetail: true
-        });
-
-        if (selected) {
-            await this.navigateToControllerAction(
-                workspaceFolder.uri.fsPath,
-                selected.route.controller,
-                selected.route.action
-            );
-        }
-    }
-
     private async goToRoute(): Promise<void> {
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
         if (!workspaceFolder) return;
@@ -607,130 +578,12 @@ export class RailsCommands {
         );
 
         if (route) {
-            await this.navigateToControllerAction(
-                workspaceFolder.uri.fsPath,
-                route.controller,
-                route.action
-            );
+            await this.navigateToRoute(workspaceFolder.uri.fsPath, route);
         } else {
             vscode.window.showWarningMessage(`Route not found: ${routeName}`);
         }
     }
 
-    private async generateModel(): Promise<void> {
-        const modelName = await vscode.window.showInputBox({
-            prompt: 'Enter model name',
-            placeHolder: 'User'
-        });
-
-        if (!modelName) return;
-
-        // SECURITY: Sanitize model name to prevent command injection
-        const sanitizedModelName = sanitizeRailsName(modelName);
-        if (!sanitizedModelName) {
-            vscode.window.showErrorMessage(
-                `Invalid model name "${modelName}". Use only letters, numbers, and underscores.`
-            );
-            return;
-        }
-
-        const attributes = await vscode.window.showInputBox({
-            prompt: 'Enter attributes (e.g., name:string email:string)',
-            placeHolder: 'name:string email:string age:integer'
-        });
-
-        const terminal = vscode.window.createTerminal('Rails Generate');
-        terminal.show();
-        // SECURITY: Escape shell arguments to prevent command injection
-        const escapedModelName = escapeShellArg(sanitizedModelName);
-        const escapedAttributes = attributes ? escapeShellArg(attributes) : '';
-        terminal.sendText(`rails generate model ${escapedModelName} ${escapedAttributes}`);
-    }
-
-    private async generateController(): Promise<void> {
-        const controllerName = await vscode.window.showInputBox({
-            prompt: 'Enter controller name',
-            placeHolder: 'Users'
-        });
-
-        if (!controllerName) return;
-
-        // SECURITY: Sanitize controller name to prevent command injection
-        const sanitizedControllerName = sanitizeRailsName(controllerName);
-        if (!sanitizedControllerName) {
-            vscode.window.showErrorMessage(
-                `Invalid controller name "${controllerName}". Use only letters, numbers, and underscores.`
-            );
-            return;
-        }
-
-        const actions = await vscode.window.showInputBox({
-            prompt: 'Enter actions (optional)',
-            placeHolder: 'index show new create'
-        });
-
-        const terminal = vscode.window.createTerminal('Rails Generate');
-        terminal.show();
-        // SECURITY: Escape shell arguments to prevent command injection
-        const escapedControllerName = escapeShellArg(sanitizedControllerName);
-        const escapedActions = actions ? escapeShellArg(actions) : '';
-        terminal.sendText(`rails generate controller ${escapedControllerName} ${escapedActions}`);
-    }
-
-    private async generateMigration(): Promise<void> {
-        const migrationName = await vscode.window.showInputBox({
-            prompt: 'Enter migration name',
-            placeHolder: 'AddEmailToUsers'
-        });
-
-        if (!migrationName) return;
-
-        // SECURITY: Sanitize migration name to prevent command injection
-        const sanitizedMigrationName = sanitizeRailsName(migrationName);
-        if (!sanitizedMigrationName) {
-            vscode.window.showErrorMessage(
-                `Invalid migration name "${migrationName}". Use only letters, numbers, and underscores.`
-            );
-            return;
-        }
-
-        const terminal = vscode.window.createTerminal('Rails Generate');
-        terminal.show();
-        // SECURITY: Escape shell argument to prevent command injection
-        const escapedMigrationName = escapeShellArg(sanitizedMigrationName);
-        terminal.sendText(`rails generate migration ${escapedMigrationName}`);
-    }
-
-    private async generateScaffold(): Promise<void> {
-        const resourceName = await vscode.window.showInputBox({
-            prompt: 'Enter resource name',
-            placeHolder: 'Post'
-        });
-
-        if (!resourceName) return;
-
-        // SECURITY: Sanitize resource name to prevent command injection
-        const sanitizedResourceName = sanitizeRailsName(resourceName);
-        if (!sanitizedResourceName) {
-            vscode.window.showErrorMessage(
-                `Invalid resource name "${resourceName}". Use only letters, numbers, and underscores.`
-            );
-            return;
-        }
-
-        const attributes = await vscode.window.showInputBox({
-            prompt: 'Enter attributes',
-            placeHolder: 'title:string content:text'
-        });
-
-        const terminal = vscode.window.createTerminal('Rails Generate');
-        terminal.show();
-        // SECURITY: Escape shell arguments to prevent command injection
-        const escapedResourceName = escapeShellArg(sanitizedResourceName);
-        const escapedAttributes = attributes ? escapeShellArg(attributes) : '';
-        terminal.sendText(`rails generate scaffold ${escapedResourceName} ${escapedAttributes}`);
-    }
-
     private async openConsole(): Promise<void> {
         const terminal = vscode.window.createTerminal('Rails Console');
         terminal.show();
@@ -765,7 +618,7 @@ export class RailsCommands {
         if (currentFile.includes('/models/')) {
             const match = currentFile.match(/(\w+)\.rb$/);
             if (match) {
-                tableName = this.pluralize(match[1]);
+                tableName = pluralize(match[1]);
             }
         }
 
@@ -875,52 +728,22 @@ export class RailsCommands {
     // Helper methods
 
     private async parseRoutes(workspacePath: string): Promise<RailsRoute[]> {
-        if (this.routesCache) {
-            return this.routesCache;
-        }
-
-        // Try to read routes.rb and parse basic routes
-        // This is a simplified parser - in production, run `rails routes` command
-        const routesPath = path.join(workspacePath, 'config', 'routes.rb');
-
-        try {
-            const content = fs.readFileSync(routesPath, 'utf8');
-            const routes: RailsRoute[] = [];
-
-            // Parse resources
-            const resourceMatches = content.matchAll(/resources\s+:(\w+)/g);
-            for (const match of resourceMatches) {
-                const resource = match[1];
-                const controller = resource;
-
-                ['index', 'show', 'new', 'create', 'edit', 'update', 'destroy'].forEach(action => {
-                    routes.push({
-                        name: `${resource}_${action}`,
-                        verb: this.verbForAction(action),
-                        path: `/${resource}`,
-                        controller,
-                        action
-                    });
-                });
-            }
-
-            // Parse individual routes
-            const routeMatches = content.matchAll(/(?:get|post|put|patch|delete)\s+['"]([^'"]+)['"]\s*,\s*to:\s*['"](\w+)#(\w+)['"]/g);
-            for (const match of routeMatches) {
-                routes.push({
-                    verb: match[0].split(' ')[0].toUpperCase(),
-                    path: match[1],
-                    controller: match[2],
-                    action: match[3]
-                });
-            }
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: 'Loading Rails routes...'
+        }, () => this.routeSource.load(workspacePath));
+    }
 
-            this.routesCache = routes;
-            return routes;
-        } catch (error) {
-            this.outputChannel.appendLine(`Failed to parse routes: ${error}`);
-            return [];
+    // Routes without a controller in the app (mounts, redirects, engine routes) open where they are defined
+    private async navigateToRoute(workspacePath: string, route: RailsRoute): Promise<void> {
+        if (route.controller && route.action && route.engine === undefined) {
+            await this.navigateToControllerAction(workspacePath, route.controller, route.action);
+            return;
         }
+
+        const document = await vscode.workspace.openTextDocument(route.file);
+        const position = new vscode.Position(route.line, 0);
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
     }
 
     private async navigateToControllerAction(workspacePath: string, controller: string, action: string): Promise<void> {
@@ -950,93 +773,6 @@ export class RailsCommands {
         }
     }
 
-    private verbForAction(action: string): string {
-        const verbMap: { [key: string]: string } = {
-            index: 'GET',
-            show: 'GET',
-            new: 'GET',
-            create: 'POST',
-            edit: 'GET',
-            update: 'PATCH',
-            destroy: 'DELETE'
-        };
-        return verbMap[action] || 'GET';
-    }
-
-    private singularize(word: string): string {
-        // Improved singularization with irregular plurals
-        const irregularMap: { [key: string]: string } = {
-            'people': 'person',
-            'men': 'man',
-            'women': 'woman',
-            'children': 'child',
-            'teeth': 'tooth',
-            'feet': 'foot',
-            'mice': 'mouse',
-            'geese': 'goose'
-        };
-
-        const lower = word.toLowerCase();
-        if (irregularMap[lower]) {
-            return irregularMap[lower];
-        }
-
-        // Handle regular patterns
-        if (word.endsWith('ies')) {
-            return word.slice(0, -3) + 'y';
-        }
-        if (word.endsWith('ves')) {
-            return word.slice(0, -3) + 'f';
-        }
-        if (word.endsWith('oes')) {
-            return word.slice(0, -2);
-        }
-        if (word.endsWith('sses') || word.endsWith('xes') || word.endsWith('ches') || word.endsWith('shes')) {
-            return word.slice(0, -2);
-        }
-        if (word.endsWith('s') && !word.endsWith('ss')) {
-            return word.slice(0, -1);
-        }
-        return word;
-    }
-
-    private pluralize(word: string): string {
-        // Improved pluralization with irregular plurals
-        const irregularMap: { [key: string]: string } = {
-            'person': 'people',
-            'man': 'men',
-            'woman': 'women',
-            'child': 'children',
-            'tooth': 'teeth',
-            'foot': 'feet',
-            'mouse': 'mice',
-            'goose': 'geese'
-        };
-
-        const lower = word.toLowerCase();
-        if (irregularMap[lower]) {
-            return irregularMap[lower];
-        }
-
-        // Handle regular patterns
-        if (word.endsWith('y') && !'aeiou'.includes(word[word.length - 2])) {
-            return word.slice(0, -1) + 'ies';
-        }
-        if (word.endsWith('f')) {
-            return word.slice(0, -1) + 'ves';
-        }
-        if (word.endsWith('fe')) {
-            return word.slice(0, -2) + 'ves';
-        }
-        if (word.endsWith('o') && !'aeiou'.includes(word[word.length - 2])) {
-            return word + 'es';
-        }
-        if (word.endsWith('s') || word.endsWith('x') || word.endsWith('ch') || word.endsWith('sh') || word.endsWith('z')) {
-            return word + 'es';
-        }
-        return word + 's';
-    }
-
     /**
      * Find files using glob pattern with fuzzy matching
      */
@@ -0,0 +1,142 @@
+/**
+ * Conditions, hit counts and logpoints for rdbg
+ *
+ * rdbg only evaluates a `condition` on line breakpoints, so hit counts and log
+ * messages are folded into it: a per-breakpoint counter kept in the debuggee
+ * and a `$stderr.puts` that returns false, so logpoints never stop. That
+ * prints to the debuggee's own stderr, which only reaches the debug console
+ * when RubyMate started rdbg, so attach sessions don't offer logpoints.
+ */
+
+export interface SourceBreakpointRequest {
+    line: number;
+    column?: number;
+    condition?: string;
+    hitCondition?: string;
+    logMessage?: string;
+}
+
+export type HitOperator = '==' | '>' | '>=' | '<' | '<=' | '%';
+
+// `5`, `>= 5`, `% 3`
+const HIT_CONDITION_PATTERN = /^\s*(==|>=|<=|>|<|%)?\s*(\d+)\s*$/;
+
+export function parseHitCondition(hitCondition: string): { operator: HitOperator; count: number } | undefined {
+    const match = hitCondition.match(HIT_CONDITION_PATTERN);
+    if (!match) {
+        return undefined;
+    }
+    return { operator: (match[1] as HitOperator) || '==', count: parseInt(match[2], 10) };
+}
+
+/**
+ * The `{expression}` parts of a logpoint message
+ */
+export function logMessageExpressions(logMessage: string): string[] {
+    return [...logMessage.matchAll(/\{([^{}]+)\}/g)].map(match => match[1]);
+}
+
+/**
+ * Ruby string literal printing a logpoint message, with each `{expression}` interpolated
+ */
+export function rubyLogMessage(logMessage: string): string {
+    let literal = '';
+    let last = 0;
+    for (const match of logMessage.matchAll(/\{([^{}]+)\}/g)) {
+        literal += escapeRubyString(logMessage.slice(last, match.index)) + `#{(${match[1]})}`;
+        last = (match.index ?? 0) + match[0].length;
+    }
+    return `"${literal}${escapeRubyString(logMessage.slice(last))}"`;
+}
+
+/**
+ * What's wrong with a breakpoint's condition, hit count or log message, if anything
+ *
+ * @param syntaxError Syntax error of a Ruby expression, or undefined when it parses
+ */
+export function breakpointProblem(
+    breakpoint: SourceBreakpointRequest,
+    syntaxError: (expression: string) => string | undefined
+): string | undefined {
+    if (breakpoint.condition?.trim()) {
+        const error = syntaxError(breakpoint.condition);
+        if (error) {
+            return `Invalid condition: ${error}`;
+        }
+    }
+
+    if (breakpoint.hitCondition?.trim() && !parseHitCondition(breakpoint.hitCondition)) {
+        return 'Invalid hit count: use a number (break on that hit) or >, >=, <, <=, == or % followed by a number';
+    }
+
+    if (breakpoint.logMessage) {
+        for (const expression of logMessageExpressions(breakpoint.logMessage)) {
+            const error = syntaxError(expression);
+            if (error) {
+                return `Invalid log message expression {${expression}}: ${error}`;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * The single condition rdbg evaluates for a breakpoint, or undefined for a plain one
+ *
+ * @param counterKey Identifies the breakpoint's hit counter in the debuggee
+ */
+export function rdbgBreakpointCondition(breakpoint: SourceBreakpointRequest, counterKey: string): string | undefined {
+    const parts: string[] = [];
+
+    if (breakpoint.condition?.trim()) {
+        parts.push(`(${breakpoint.condition.trim()})`);
+    }
+
+    const hit = breakpoint.hitCondition?.trim() ? parseHitCondition(breakpoint.hitCondition) : undefined;
+    if (hit) {
+        const count = `(($__rubymate_hits ||= Hash.new(0))[${escapeRubyLiteral(counterKey)}] += 1)`;
+        parts.push(hit.operator === '%' ? `(${count} % ${hit.count}).zero?` : `(${count} ${hit.operator} ${hit.count})`);
+    }
+
+    if (breakpoint.logMessage) {
+        parts.push(`($stderr.puts(${rubyLogMessage(breakpoint.logMessage)}); false)`);
+    }
+
+    return parts.length > 0 ? parts.join(' && ') : undefined;
+}
+
+/**
+ * Program `ruby -c` checks for an expression, parsed the way rdbg evaluates it
+ */
+export function syntaxCheckSource(expression: string): string {
+    return `_ = (\n${expression}\n)\n`;
+}
+
+/**
+ * The reason from `ruby -c` output, without file and line prefixes
+ */
+export function syntaxErrorMessage(output: string): string {
+    // Prism points at the problem: `  | ^ unexpected ')'`
+    const caret = output.match(/\^+ (.+)/);
+    if (caret) {
+        return caret[1].trim();
+    }
+
+    const line = output.split(/\r?\n/)
+        .map(text => text.replace(/^-:(\d+:)?\s*/, '').trim())
+        .find(text => text && !/compile error|syntax errors? found/.test(text));
+    return line || 'syntax error';
+}
+
+function escapeRubyString(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/#(?=[{$@])/g, '\\#')
+        .replace(/\n/g, '\\n');
+}
+
+function escapeRubyLiteral(text: string): string {
+    return `"${escapeRubyString(text)}"`;
+}
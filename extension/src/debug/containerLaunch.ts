@@ -0,0 +1,83 @@
+import { ComposeService } from './containerMappings';
+
+/**
+ * Launch configurations that run the program inside a Docker Compose service
+ *
+ * rdbg is started with `docker compose exec` (or whatever `execCommand` says)
+ * and VS Code connects to it through the port the service publishes, or, when
+ * the port isn't published, through a small Ruby bridge started the same way
+ * that copies DAP traffic between its stdio and rdbg's port in the container.
+ */
+
+export interface ContainerLaunch {
+    // Runs a command inside the service, e.g. `docker compose exec -T web`
+    execCommand: string[];
+    // Directory inside the container, or the service's working_dir when unknown
+    cwd?: string;
+    env?: { [name: string]: string };
+    useBundler: boolean;
+    // Port rdbg listens on inside the container, 0 for any
+    port: number;
+    // 0.0.0.0 when the port is published, so connections from the host reach it
+    host: string;
+    stopOnEntry: boolean;
+    // Script path inside the container, or an executable name run in command mode
+    program: string;
+    commandMode: boolean;
+    args: string[];
+}
+
+// Connects stdio to rdbg's port: `ruby -rsocket -e BRIDGE_SCRIPT <port>`
+const BRIDGE_SCRIPT = [
+    'socket = TCPSocket.new("127.0.0.1", Integer(ARGV[0]))',
+    '$stdout.sync = true',
+    'reader = Thread.new { IO.copy_stream(socket, $stdout) }',
+    'IO.copy_stream($stdin, socket)',
+    'socket.close_write',
+    'reader.join'
+].join('; ');
+
+export function defaultComposeExecCommand(service: string): string[] {
+    return ['docker', 'compose', 'exec', '-T', service];
+}
+
+/**
+ * Command line that starts rdbg inside the container
+ *
+ * `docker compose exec -w/-e` only exist for Compose, so the directory and
+ * environment are set by `sh` and `env` in the container, which works with
+ * any exec wrapper.
+ */
+export function containerRdbgCommand(launch: ContainerLaunch): string[] {
+    const rdbg = [
+        ...(launch.useBundler ? ['bundle', 'exec'] : []),
+        'rdbg', '--open', `--host=${launch.host}`, `--port=${launch.port}`,
+        ...(launch.stopOnEntry ? ['--stop-at-load'] : []),
+        ...(launch.commandMode ? ['-c', '--'] : ['--']),
+        launch.program,
+        ...launch.args
+    ];
+
+    const variables = Object.entries(launch.env || {}).map(([name, value]) => `${name}=${value}`);
+    const withEnvironment = variables.length > 0 ? ['env', ...variables, ...rdbg] : rdbg;
+    const inDirectory = launch.cwd
+        ? ['sh', '-c', 'cd "$1" && shift && exec "$@"', 'sh', launch.cwd, ...withEnvironment]
+        : withEnvironment;
+
+    return [...launch.execCommand, ...inDirectory];
+}
+
+/**
+ * Command line of the stdio bridge to rdbg's port inside the container
+ */
+export function containerBridgeCommand(execCommand: string[], port: number): string[] {
+    return [...execCommand, 'ruby', '-rsocket', '-e', BRIDGE_SCRIPT, String(port)];
+}
+
+/**
+ * Host port a service publishes a container port on; a bare `- 12345` publishes
+ * on a random host port, which only `docker compose port` knows
+ */
+export function publishedPort(service: ComposeService | undefined, port: number): number | undefined {
+    return port ? service?.ports.find(candidate => candidate.target === port)?.published : undefined;
+}
@@ -0,0 +1,411 @@
+import * as os from 'os';
+import * as path from 'path';
+import { parseYaml, YamlMap, YamlValue } from '../utils/yaml';
+import { PathMappings } from './pathMappings';
+
+/**
+ * Infer pathMappings for debuggees running in Docker Compose services or dev containers
+ *
+ * Bind mounts from docker-compose.yml (plus its override file) and the
+ * workspace mount of .devcontainer/devcontainer.json say where the project's
+ * files live inside the container.
+ */
+
+export const COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yml', 'docker-compose.yaml'];
+const COMPOSE_OVERRIDE_FILES = ['compose.override.yaml', 'compose.override.yml', 'docker-compose.override.yml', 'docker-compose.override.yaml'];
+const DEVCONTAINER_FILES = [path.join('.devcontainer', 'devcontainer.json'), '.devcontainer.json'];
+
+// rdbg's RUBY_DEBUG_PORT and `rdbg --open --port=N` both name the port inside the container
+const DEBUG_PORT_ENV = 'RUBY_DEBUG_PORT';
+
+export interface ComposeService {
+    name: string;
+    image?: string;
+    workingDir?: string;
+    // Bind mounts, host side resolved against the compose file's directory
+    mounts: Array<{ source: string; target: string }>;
+    ports: Array<{ published?: number; target: number }>;
+    environment: { [name: string]: string };
+    command?: string;
+}
+
+export interface InferredMappings {
+    pathMappings: PathMappings;
+    // Where the mappings came from, for the log
+    origin: string;
+}
+
+export type ReadFile = (file: string) => string | undefined;
+
+/**
+ * Services of the first compose file in a folder, merged with its override file
+ */
+export function readComposeServices(folder: string, readFile: ReadFile): { file: string; services: ComposeService[] } | undefined {
+    const file = COMPOSE_FILES.map(name => path.join(folder, name)).find(candidate => readFile(candidate) !== undefined);
+    if (!file) {
+        return undefined;
+    }
+
+    const files = [file, ...COMPOSE_OVERRIDE_FILES.map(name => path.join(folder, name))];
+    return { file, services: mergeComposeServices(files.map(candidate => readFile(candidate)), folder) };
+}
+
+/**
+ * Services across compose files, later files adding mounts, ports and environment to earlier ones
+ */
+export function mergeComposeServices(texts: Array<string | undefined>, composeDirectory: string): ComposeService[] {
+    const services = new Map<string, ComposeService>();
+
+    for (const text of texts) {
+        if (text === undefined) {
+            continue;
+        }
+        for (const service of parseComposeServices(text, composeDirectory)) {
+            const existing = services.get(service.name);
+            if (!existing) {
+                services.set(service.name, service);
+                continue;
+            }
+            existing.image = service.image || existing.image;
+            existing.workingDir = service.workingDir || existing.workingDir;
+            existing.command = service.command || existing.command;
+            existing.mounts.push(...service.mounts);
+            existing.ports.push(...service.ports);
+            Object.assign(existing.environment, service.environment);
+        }
+    }
+
+    return [...services.values()];
+}
+
+export function parseComposeServices(text: string, composeDirectory: string): ComposeService[] {
+    const document = asMap(parseYaml(text));
+    const services = asMap(document?.services);
+    if (!services) {
+        return [];
+    }
+
+    return Object.entries(services).map(([name, value]) => {
+        const definition = asMap(value) || {};
+        const command = definition.command;
+        return {
+            name,
+            image: asString(definition.image),
+            workingDir: asString(definition.working_dir),
+            mounts: asList(definition.volumes)
+                .map(volume => parseMount(volume, composeDirectory))
+                .filter((mount): mount is { source: string; target: string } => mount !== undefined),
+            ports: asList(definition.ports)
+                .map(parsePort)
+                .filter((port): port is { published?: number; target: number } => port !== undefined),
+            environment: parseEnvironment(definition.environment),
+            command: Array.isArray(command) ? command.map(part => asString(part) || '').join(' ') : asString(command)
+        };
+    });
+}
+
+/**
+ * Local directory -> container directory for each bind mount of a service
+ */
+export function composeServicePathMappings(service: ComposeService): PathMappings {
+    const mappings: PathMappings = {};
+    for (const mount of service.mounts) {
+        mappings[mount.source] = mount.target;
+    }
+    return mappings;
+}
+
+/**
+ * Port inside the container rdbg listens on, and the host port publishing it
+ */
+export function composeServiceDebugPort(service: ComposeService): { target?: number; published?: number } {
+    const fromCommand = service.command?.match(/--port[= ](\d+)/)?.[1];
+    const fromEnvironment = service.environment[DEBUG_PORT_ENV];
+    const target = parseInt(fromEnvironment || fromCommand || '', 10) || undefined;
+    const port = target !== undefined ? service.ports.find(candidate => candidate.target === target) : undefined;
+    return { target, published: port ? port.published ?? port.target : undefined };
+}
+
+export interface DevcontainerSetup {
+    pathMappings: PathMappings;
+    // Host ports the dev container publishes or forwards
+    ports: number[];
+}
+
+/**
+ * pathMappings and ports from a dev container configuration
+ *
+ * Compose-based dev containers take the mounts and ports of their service;
+ * image and Dockerfile ones mount the workspace at `workspaceMount` or
+ * `workspaceFolder` (`/workspaces/<folder name>` by default). `forwardPorts`
+ * and `appPort` add to the ports of either.
+ */
+export function readDevcontainer(file: string, folder: string, readFile: ReadFile): DevcontainerSetup | undefined {
+    const text = readFile(file);
+    const config = asObject(text !== undefined ? parseJsonc(text) : undefined);
+    if (!config) {
+        return undefined;
+    }
+
+    const substitute = (value: string) => value
+        .replace(/\$\{localWorkspaceFolder\}/g, folder)
+        .replace(/\$\{localWorkspaceFolderBasename\}/g, path.basename(folder));
+    const configDirectory = path.dirname(file);
+    const serviceName = typeof config.service === 'string' ? config.service : undefined;
+
+    const ports: number[] = [];
+    // `12345`, or `22345:12345` in docker run's -p syntax
+    for (const port of [config.appPort].flat()) {
+        const published = typeof port === 'number' ? { published: port, target: port } : typeof port === 'string' ? parsePort(port) : undefined;
+        if (published) {
+            ports.push(published.published ?? published.target);
+        }
+    }
+    // `3000`, or `web:3000` for a port of the dev container's own service
+    for (const port of Array.isArray(config.forwardPorts) ? config.forwardPorts : []) {
+        const forwarded = (typeof port === 'number' || typeof port === 'string' ? String(port) : '').match(/^(?:([\w.-]+):)?(\d+)$/);
+        if (forwarded && (!forwarded[1] || forwarded[1] === 'localhost' || forwarded[1] === serviceName)) {
+            ports.push(parseInt(forwarded[2], 10));
+        }
+    }
+
+    const dockerComposeFile = config.dockerComposeFile;
+    if (dockerComposeFile && serviceName) {
+        const composeFiles = [dockerComposeFile].flat().filter((composeFile): composeFile is string => typeof composeFile === 'string');
+        if (composeFiles.length === 0) {
+            return undefined;
+        }
+        const services = mergeComposeServices(
+            composeFiles.map(composeFile => readFile(path.resolve(configDirectory, composeFile))),
+            path.resolve(configDirectory, path.dirname(composeFiles[0]))
+        );
+        const service = services.find(candidate => candidate.name === serviceName);
+        return service
+            ? {
+                pathMappings: composeServicePathMappings(service),
+                ports: [...ports, ...service.ports.map(port => port.published).filter((port): port is number => port !== undefined)]
+            }
+            : undefined;
+    }
+
+    const pathMappings: PathMappings = {};
+    const workspaceMount = typeof config.workspaceMount === 'string' ? parseMountOption(substitute(config.workspaceMount)) : undefined;
+    if (workspaceMount) {
+        pathMappings[path.resolve(folder, workspaceMount.source)] = workspaceMount.target;
+    } else {
+        const workspaceFolder = typeof config.workspaceFolder === 'string'
+            ? substitute(config.workspaceFolder)
+            : `/workspaces/${path.basename(folder)}`;
+        pathMappings[folder] = workspaceFolder;
+    }
+
+    for (const mount of Array.isArray(config.mounts) ? config.mounts : []) {
+        const parsed = typeof mount === 'string' ? parseMountOption(substitute(mount)) : mountObject(mount, substitute);
+        if (parsed) {
+            pathMappings[path.resolve(folder, parsed.source)] = parsed.target;
+        }
+    }
+
+    return { pathMappings, ports };
+}
+
+/**
+ * Dev container and compose files in a folder, which pathMappings may come from
+ */
+export function containerConfigurationFiles(folder: string, readFile: ReadFile): string[] {
+    return [...DEVCONTAINER_FILES, ...COMPOSE_FILES].filter(candidate => readFile(path.join(folder, candidate)) !== undefined);
+}
+
+/**
+ * pathMappings for an attach from the dev container or compose service publishing `remotePort`
+ *
+ * A port no container publishes belongs to a process on the host, which needs
+ * no mappings even when the project has a dev container or compose file.
+ */
+export function inferPathMappings(folder: string, readFile: ReadFile, remotePort: number): InferredMappings | undefined {
+    for (const candidate of DEVCONTAINER_FILES) {
+        const setup = readDevcontainer(path.join(folder, candidate), folder, readFile);
+        if (setup && setup.ports.includes(remotePort) && Object.keys(setup.pathMappings).length > 0) {
+            return { pathMappings: setup.pathMappings, origin: candidate };
+        }
+    }
+
+    const compose = readComposeServices(folder, readFile);
+    const mountsProject = (service: ComposeService) =>
+        service.mounts.some(mount => folder === mount.source || folder.startsWith(mount.source + path.sep) || mount.source.startsWith(folder + path.sep));
+    const service = compose?.services.find(candidate =>
+        mountsProject(candidate) && candidate.ports.some(port => port.published === remotePort));
+
+    return compose && service
+        ? { pathMappings: composeServicePathMappings(service), origin: `${path.basename(compose.file)} (service ${service.name})` }
+        : undefined;
+}
+
+/**
+ * Short (`./:/app:cached`) or long (`{ type: bind, source, target }`) volume syntax; named volumes are skipped
+ */
+function parseMount(volume: YamlValue, composeDirectory: string): { source: string; target: string } | undefined {
+    let source: string | undefined;
+    let target: string | undefined;
+
+    const long = asMap(volume);
+    if (long) {
+        if (asString(long.type) !== 'bind') {
+            return undefined;
+        }
+        source = asString(long.source);
+        target = asString(long.target);
+    } else {
+        const short = asString(volume);
+        // A Windows drive letter is part of the host path: C:\app:/app
+        const match = short?.match(/^((?:[A-Za-z]:)?[^:]+):([^:]+)(?::[^:]*)?$/);
+        if (!match) {
+            return undefined;
+        }
+        source = match[1];
+        target = match[2];
+    }
+
+    if (!source || !target || !isHostPath(source)) {
+        return undefined;
+    }
+    return { source: resolveHostPath(source, composeDirectory), target };
+}
+
+/**
+ * `3000`, `3000:3000`, `127.0.0.1:12345:12345/tcp` or `{ target, published }`
+ */
+function parsePort(port: YamlValue): { published?: number; target: number } | undefined {
+    const long = asMap(port);
+    if (long) {
+        const target = parseInt(asString(long.target) || '', 10);
+        const published = parseInt(asString(long.published) || '', 10);
+        return isNaN(target) ? undefined : { target, published: isNaN(published) ? undefined : published };
+    }
+
+    const parts = (asString(port) || '').replace(/\/\w+$/, '').split(':');
+    const target = parseInt(parts[parts.length - 1], 10);
+    const published = parts.length > 1 ? parseInt(parts[parts.length - 2], 10) : NaN;
+    return isNaN(target) ? undefined : { target, published: isNaN(published) ? undefined : published };
+}
+
+function parseEnvironment(environment: YamlValue | undefined): { [name: string]: string } {
+    const variables: { [name: string]: string } = {};
+
+    const map = asMap(environment);
+    if (map) {
+        for (const [name, value] of Object.entries(map)) {
+            variables[name] = asString(value) || '';
+        }
+        return variables;
+    }
+
+    for (const entry of asList(environment)) {
+        const [name, ...value] = (asString(entry) || '').split('=');
+        if (name) {
+            variables[name] = value.join('=');
+        }
+    }
+    return variables;
+}
+
+/**
+ * Docker `--mount` syntax: `source=/host,target=/container,type=bind`
+ */
+function parseMountOption(option: string): { source: string; target: string } | undefined {
+    const fields: { [key: string]: string } = {};
+    for (const field of option.split(',')) {
+        const [key, ...value] = field.split('=');
+        fields[key.trim()] = value.join('=').trim();
+    }
+    const source = fields.source || fields.src;
+    const target = fields.target || fields.destination || fields.dst;
+    if ((fields.type && fields.type !== 'bind') || !source || !target) {
+        return undefined;
+    }
+    return { source, target };
+}
+
+function mountObject(mount: unknown, substitute: (value: string) => string): { source: string; target: string } | undefined {
+    const fields = asObject(mount);
+    if (!fields || fields.type !== 'bind' || typeof fields.source !== 'string' || typeof fields.target !== 'string') {
+        return undefined;
+    }
+    return { source: substitute(fields.source), target: fields.target };
+}
+
+function isHostPath(source: string): boolean {
+    return /^(\.|\/|~|\$\{?PWD\}?|[A-Za-z]:[\\/]|\\\\)/.test(source);
+}
+
+function resolveHostPath(source: string, composeDirectory: string): string {
+    const expanded = source
+        .replace(/^\$\{?PWD\}?/, composeDirectory)
+        .replace(/^~(?=$|[\\/])/, os.homedir());
+    return path.resolve(composeDirectory, expanded).replace(/[\\/]+$/, '') || path.sep;
+}
+
+/**
+ * JSON with comments and trailing commas, as devcontainer.json allows
+ */
+function parseJsonc(text: string): unknown {
+    let json = '';
+    let inString = false;
+    // Where the last comma went in json, while only whitespace has followed it
+    let comma = -1;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            json += char;
+            if (char === '\\') {
+                json += text[++i] ?? '';
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+            comma = -1;
+            json += char;
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') {
+                i++;
+            }
+            json += '\n';
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 1;
+        } else {
+            if ((char === '}' || char === ']') && comma !== -1) {
+                json = json.slice(0, comma) + json.slice(comma + 1);
+            }
+            if (char === ',') {
+                comma = json.length;
+            } else if (!/\s/.test(char)) {
+                comma = -1;
+            }
+            json += char;
+        }
+    }
+
+    try {
+        return JSON.parse(json);
+    } catch {
+        return undefined;
+    }
+}
+
+function asObject(value: unknown): { [key: string]: unknown } | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as { [key: string]: unknown } : undefined;
+}
+
+function asMap(value: YamlValue | undefined): YamlMap | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+}
+
+function asList(value: YamlValue | undefined): YamlValue[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function asString(value: YamlValue | undefined): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
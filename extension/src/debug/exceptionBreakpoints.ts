@@ -0,0 +1,100 @@
+/**
+ * Exception breakpoints for rdbg
+ *
+ * RubyMate offers its own filters in the Breakpoints view and translates them
+ * for rdbg: "all raised" maps onto rdbg's `any` filter, exception classes
+ * become `catch` commands and "unrescued" turns on postmortem mode, which
+ * stops where an exception that ends the program was raised. Catch
+ * breakpoints of classes no longer wanted are deleted by their number.
+ */
+
+export const RAISED_FILTER = 'rubymate.raised';
+export const UNRESCUED_FILTER = 'rubymate.unrescued';
+export const CLASSES_FILTER = 'rubymate.classes';
+
+// rdbg's own filter that catches every exception
+const RDBG_ANY_FILTER = 'any';
+
+// #2  BP - Catch  "ArgumentError"
+const CATCH_BREAKPOINT_PATTERN = /^#(\d+)\s+BP - Catch\s+"(.+)"\s*$/;
+
+const CLASS_NAME_PATTERN = /^(::)?[A-Z]\w*(::[A-Z]\w*)*$/;
+
+export interface ExceptionBreakpointFilter {
+    filter: string;
+    label: string;
+    description?: string;
+    default?: boolean;
+}
+
+/**
+ * Filters shown in the Breakpoints view, with the stored class list in the description
+ */
+export function exceptionBreakpointFilters(classes: string[]): ExceptionBreakpointFilter[] {
+    return [
+        {
+            filter: RAISED_FILTER,
+            label: 'All Raised Exceptions',
+            description: 'Stop whenever an exception is raised, even if it is rescued',
+            default: false
+        },
+        {
+            filter: UNRESCUED_FILTER,
+            label: 'Unrescued Exceptions',
+            description: 'Stop where an exception that ends the program was raised',
+            default: false
+        },
+        {
+            filter: CLASSES_FILTER,
+            label: 'Exception Classes',
+            description: classes.length > 0
+                ? classes.join(', ')
+                : 'None yet - use "RubyMate: Add Exception Breakpoint"',
+            default: true
+        }
+    ];
+}
+
+/**
+ * rdbg filters for the RubyMate filters enabled in the Breakpoints view
+ */
+export function rdbgExceptionFilters(enabled: string[]): string[] {
+    return enabled.includes(RAISED_FILTER) ? [RDBG_ANY_FILTER] : [];
+}
+
+/**
+ * Classes to keep `catch` breakpoints for with the enabled filters
+ *
+ * Class breakpoints are skipped while every raised exception stops anyway.
+ */
+export function caughtExceptionClasses(enabled: string[], classes: string[]): string[] {
+    return enabled.includes(CLASSES_FILTER) && !enabled.includes(RAISED_FILTER) ? classes : [];
+}
+
+export function postmortemCommand(enabled: string[]): string {
+    return `config set postmortem ${enabled.includes(UNRESCUED_FILTER)}`;
+}
+
+/**
+ * Numbers of the catch breakpoints for the classes in rdbg's breakpoint list
+ * (`info breakpoints`), highest first
+ *
+ * rdbg numbers breakpoints by their position in the list, so deleting from
+ * the end keeps the other numbers valid.
+ */
+export function catchBreakpointNumbers(listing: string, classes: string[]): number[] {
+    const numbers: number[] = [];
+
+    for (const line of listing.replace(/\x1b\[[\d;]*m/g, '').split(/\r?\n/)) {
+        const match = line.match(CATCH_BREAKPOINT_PATTERN);
+        if (match && classes.includes(match[2])) {
+            numbers.push(parseInt(match[1], 10));
+        }
+    }
+
+    return numbers.sort((a, b) => b - a);
+}
+
+export function isExceptionClassName(name: string): boolean {
+    return CLASS_NAME_PATTERN.test(name);
+}
@@ -0,0 +1,119 @@
+import type { DebugConfiguration } from '../debugAdapter';
+
+/**
+ * Debug configurations built from what a project contains
+ *
+ * Offered as dynamic configurations in the Run and Debug view: Ruby binstubs,
+ * Rake tasks from `rake -T`, background job workers from Gemfile.lock and the
+ * Minitest test under the cursor.
+ */
+
+export interface RakeTask {
+    name: string;
+    description: string;
+}
+
+export interface ProjectContents {
+    rails: boolean;
+    // Names of bin/* files that run Ruby
+    binstubs: string[];
+    rakeTasks: RakeTask[];
+    // Gem names from Gemfile.lock
+    gems: Set<string>;
+    // Minitest test under the cursor, with its file relative to the folder
+    currentMinitest?: { file: string; name: string };
+}
+
+// Background job runners: gem -> executable and arguments
+const WORKERS: Array<{ gem: string; label: string; executable: string; args: string[] }> = [
+    { gem: 'sidekiq', label: 'Sidekiq', executable: 'sidekiq', args: [] },
+    { gem: 'good_job', label: 'GoodJob', executable: 'good_job', args: ['start'] }
+];
+
+// Binstubs that can't be debugged themselves
+const SKIPPED_BINSTUBS = new Set(['rdbg', 'bundle']);
+
+const FOLDER = '${workspaceFolder}';
+
+/**
+ * `rake db:migrate   # Migrate the database` lines of `rake -T`
+ */
+export function parseRakeTasks(output: string): RakeTask[] {
+    const tasks: RakeTask[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.match(/^rake (\S+?)(?:\[[^\]]*\])?\s+# (.*)$/);
+        if (match) {
+            tasks.push({ name: match[1], description: match[2].trim() });
+        }
+    }
+    return tasks;
+}
+
+/**
+ * Top-level gem names in a Gemfile.lock
+ */
+export function lockedGems(lockfile: string): Set<string> {
+    const gems = new Set<string>();
+    for (const match of lockfile.matchAll(/^ {4}([\w.-]+) \(/gm)) {
+        gems.add(match[1]);
+    }
+    return gems;
+}
+
+/**
+ * A Rails application, as opposed to any project with a Gemfile
+ *
+ * railties in the bundle alone doesn't make one: engines and gems depending on
+ * Rails have no app to boot. An engine's bin/rails does run its dummy app.
+ */
+export function isRailsApplication(hasApplicationConfig: boolean, hasRailsBinstub: boolean, gems: Set<string>): boolean {
+    return hasApplicationConfig || (hasRailsBinstub && gems.has('railties'));
+}
+
+export function dynamicDebugConfigurations(project: ProjectContents): DebugConfiguration[] {
+    const configurations: DebugConfiguration[] = [];
+    const binstubs = new Set(project.binstubs);
+    const launch = (name: string, program: string, args: string[] = []): DebugConfiguration => ({
+        type: 'ruby',
+        request: 'launch',
+        name,
+        program,
+        args,
+        cwd: FOLDER,
+        useBundler: true
+    });
+    // Through the binstub when there is one, otherwise the gem executable in command mode
+    const executable = (name: string) => binstubs.has(name) ? `${FOLDER}/bin/${name}` : name;
+
+    if (project.currentMinitest) {
+        const { file, name } = project.currentMinitest;
+        configurations.push(project.rails
+            ? launch(`Debug Minitest: ${name}`, `${FOLDER}/bin/rails`, ['test', `${FOLDER}/${file}`, '--name', name])
+            : { ...launch(`Debug Minitest: ${name}`, `${FOLDER}/${file}`, ['--name', name]), env: { RUBYOPT: '${env:RUBYOPT} -Itest' } });
+    }
+
+    const workers = WORKERS.filter(worker => project.gems.has(worker.gem));
+    for (const worker of workers) {
+        configurations.push(launch(`Debug ${worker.label}`, executable(worker.executable), worker.args));
+    }
+
+    for (const binstub of project.binstubs) {
+        if (SKIPPED_BINSTUBS.has(binstub) || workers.some(worker => worker.executable === binstub)) {
+            continue;
+        }
+        if (binstub === 'rails' && project.rails) {
+            configurations.push(
+                { ...launch('Debug Rails Server', `${FOLDER}/bin/rails`, ['server']), env: { RAILS_ENV: 'development' } },
+                launch('Debug Rails Console', `${FOLDER}/bin/rails`, ['console'])
+            );
+            continue;
+        }
+        configurations.push(launch(`Debug bin/${binstub}`, `${FOLDER}/bin/${binstub}`));
+    }
+
+    for (const task of project.rakeTasks) {
+        configurations.push(launch(`Rake: ${task.name}`, executable('rake'), [task.name]));
+    }
+
+    return configurations;
+}
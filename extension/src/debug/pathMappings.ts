@@ -0,0 +1,116 @@
+import * as path from 'path';
+import type { DebugProtocol } from '@vscode/debugprotocol';
+
+/**
+ * Translate file paths between the editor and a debuggee in a container or VM
+ *
+ * `pathMappings` maps local directories to the directories the debuggee sees
+ * them as (`{ "/home/me/app": "/app" }`). The longest matching prefix wins in
+ * both directions; paths outside every mapping pass through unchanged.
+ */
+
+export type PathMappings = { [localPath: string]: string };
+
+export class PathMapper {
+    private mappings: Array<{ local: string; remote: string }>;
+
+    /**
+     * @param baseDirectory Directory that relative local paths are relative to
+     */
+    constructor(mappings: PathMappings, baseDirectory: string) {
+        this.mappings = Object.entries(mappings)
+            .filter(([local, remote]) => local && typeof remote === 'string' && remote)
+            .map(([local, remote]) => ({
+                local: trimSeparator(path.resolve(baseDirectory, local)),
+                remote: trimSeparator(remote)
+            }));
+    }
+
+    get isEmpty(): boolean {
+        return this.mappings.length === 0;
+    }
+
+    toRemote(localPath: string): string {
+        const mapping = longestPrefix(this.mappings, localPath, 'local');
+        if (!mapping) {
+            return localPath;
+        }
+        const rest = localPath.slice(mapping.local.length).replace(/\\/g, '/');
+        return joinPath(mapping.remote, rest, '/');
+    }
+
+    toLocal(remotePath: string): string {
+        const mapping = longestPrefix(this.mappings, remotePath, 'remote');
+        if (!mapping) {
+            return remotePath;
+        }
+        const separator = mapping.local.includes('\\') ? '\\' : '/';
+        const rest = remotePath.slice(mapping.remote.length).replace(/[\\/]/g, separator);
+        return joinPath(mapping.local, rest, separator);
+    }
+}
+
+/**
+ * Rewrite the source paths in a DAP message in place
+ *
+ * Covers every `source` object and `sources` list, which is where DAP carries
+ * file paths: breakpoint requests and events, stack frames, scopes, output and
+ * loaded sources.
+ */
+export function mapSourcePaths(message: DebugProtocol.ProtocolMessage, convert: (filePath: string) => string): void {
+    const mapSource = (value: unknown) => {
+        const source = value && typeof value === 'object' ? value as DebugProtocol.Source : undefined;
+        if (typeof source?.path === 'string') {
+            source.path = convert(source.path);
+        }
+    };
+    const visit = (value: unknown) => {
+        if (!value || typeof value !== 'object') {
+            return;
+        }
+        if (Array.isArray(value)) {
+            value.forEach(visit);
+            return;
+        }
+
+        for (const [key, child] of Object.entries(value)) {
+            if (key === 'source') {
+                mapSource(child);
+            } else if (key === 'sources' && Array.isArray(child)) {
+                child.forEach(mapSource);
+            }
+            visit(child);
+        }
+    };
+
+    visit((message as DebugProtocol.Request).arguments);
+    visit((message as DebugProtocol.Response | DebugProtocol.Event).body);
+}
+
+function longestPrefix<T extends { local: string; remote: string }>(
+    mappings: T[],
+    filePath: string,
+    side: 'local' | 'remote'
+): T | undefined {
+    let best: T | undefined;
+    for (const mapping of mappings) {
+        const prefix = mapping[side];
+        const matches = filePath === prefix || (filePath.startsWith(prefix) &&
+            (/[\\/]$/.test(prefix) || /[\\/]/.test(filePath[prefix.length])));
+        if (matches && (!best || prefix.length > best[side].length)) {
+            best = mapping;
+        }
+    }
+    return best;
+}
+
+function trimSeparator(directory: string): string {
+    return directory.length > 1 ? directory.replace(/[\\/]+$/, '') : directory;
+}
+
+function joinPath(root: string, rest: string, separator: string): string {
+    if (rest === '') {
+        return root;
+    }
+    return root.endsWith(separator) ? root + rest.replace(/^[\\/]/, '') : root + rest;
+}
@@ -0,0 +1,213 @@
+/**
+ * Rails Inspector data: ActiveRecord objects in the paused frame and the SQL
+ * the current request has run
+ *
+ * Everything is read with one DAP `evaluate` of RAILS_INSPECTOR_EXPRESSION in
+ * the paused frame. It returns ASCII-only JSON, which rdbg hands back as a Ruby
+ * string literal (`String#inspect`, or `String#dump` under the `#dump` variable
+ * when the inspected value is cut short). Queries are recorded by an
+ * ActiveSupport::Notifications subscriber the expression installs on first use,
+ * so the request that is paused then only shows queries run after that.
+ */
+
+export interface InspectedAssociation {
+    name: string;
+    // belongs_to, has_one, has_many, has_and_belongs_to_many
+    macro: string;
+    // `Post#12` for each loaded record, up to the record limit
+    records: string[];
+    count: number;
+}
+
+export interface InspectedRecord {
+    // Local or instance variable holding the record, with an index for collections
+    variable: string;
+    className: string;
+    id: string;
+    newRecord: boolean;
+    destroyed: boolean;
+    // Attribute name -> inspected value
+    attributes: { [name: string]: string };
+    // Attribute name -> inspected [old, new] values
+    changes: { [name: string]: [string, string] };
+    errors: string[];
+    associations: InspectedAssociation[];
+}
+
+export interface InspectedRelation {
+    variable: string;
+    className: string;
+    sql: string;
+}
+
+export interface RecordedQuery {
+    sql: string;
+    // `User Load`, `TRANSACTION`
+    name: string;
+    durationMs: number;
+    cached: boolean;
+    binds: string[];
+}
+
+export interface InspectorSnapshot {
+    records: InspectedRecord[];
+    // Relations not loaded yet, which the inspector must not load
+    relations: InspectedRelation[];
+    queries: RecordedQuery[];
+    // The SQL subscriber was installed during this evaluation
+    recordingStarted: boolean;
+    error?: string;
+}
+
+// Records shown per variable and association, and queries kept per request
+const RECORD_LIMIT = 20;
+const QUERY_LIMIT = 500;
+
+// Runs in a lambda so none of its locals leak into the paused frame
+export const RAILS_INSPECTOR_EXPRESSION = `->(__rubymate_binding) do
+  require 'json' unless defined?(::JSON)
+  next ::JSON.generate({ 'error' => 'ActiveRecord is not loaded in this process' }) unless defined?(::ActiveRecord::Base)
+
+  recording_started = false
+  if defined?(::ActiveSupport::Notifications) && !$__rubymate_sql_subscribed
+    ::ActiveSupport::Notifications.subscribe('start_processing.action_controller') { Thread.current[:__rubymate_sql] = [] }
+    ::ActiveSupport::Notifications.subscribe('sql.active_record') do |_name, started, finished, _id, payload|
+      next if payload[:name] == 'SCHEMA'
+      binds = payload[:type_casted_binds]
+      binds = binds.call if binds.respond_to?(:call)
+      queries = (Thread.current[:__rubymate_sql] ||= [])
+      queries << {
+        'sql' => payload[:sql].to_s,
+        'name' => payload[:name].to_s,
+        'durationMs' => ((finished - started) * 1000.0).round(2),
+        'cached' => !!payload[:cached],
+        'binds' => Array(binds).map(&:inspect)
+      }
+      queries.shift if queries.size > ${QUERY_LIMIT}
+    end
+    $__rubymate_sql_subscribed = true
+    recording_started = true
+  end
+
+  short = ->(value) {
+    text = (value.inspect rescue '#<uninspectable>')
+    text.length > 200 ? "#{text[0, 197]}..." : text
+  }
+  describe = ->(record, variable) {
+    associations = record.class.reflect_on_all_associations.select { |reflection|
+      record.association(reflection.name).loaded? rescue false
+    }.map { |reflection|
+      loaded = Array(record.association(reflection.name).target)
+      {
+        'name' => reflection.name.to_s,
+        'macro' => reflection.macro.to_s,
+        'records' => loaded.first(${RECORD_LIMIT}).map { |target| "#{target.class.name}##{target.id.inspect}" },
+        'count' => loaded.size
+      }
+    }
+    {
+      'variable' => variable,
+      'className' => record.class.name,
+      'id' => short.(record.id),
+      'newRecord' => record.new_record?,
+      'destroyed' => record.destroyed?,
+      'attributes' => record.attributes.transform_values { |value| short.(value) },
+      'changes' => record.changes.transform_values { |(old_value, new_value)| [short.(old_value), short.(new_value)] },
+      'errors' => record.errors.full_messages,
+      'associations' => associations
+    }
+  }
+
+  receiver = __rubymate_binding.receiver
+  variables = __rubymate_binding.local_variables.map { |name| [name.to_s, __rubymate_binding.local_variable_get(name)] } +
+    receiver.instance_variables.map { |name| [name.to_s, receiver.instance_variable_get(name)] }
+
+  records = []
+  relations = []
+  variables.each do |name, value|
+    case value
+    when ::ActiveRecord::Base
+      records << describe.(value, name)
+    when ::ActiveRecord::Relation
+      if value.loaded?
+        value.to_a.first(${RECORD_LIMIT}).each_with_index { |record, index| records << describe.(record, "#{name}[#{index}]") }
+      else
+        relations << { 'variable' => name, 'className' => value.klass.name, 'sql' => (value.to_sql rescue '') }
+      end
+    when ::Array
+      value.first(${RECORD_LIMIT}).each_with_index do |record, index|
+        records << describe.(record, "#{name}[#{index}]") if ::ActiveRecord::Base === record
+      end
+    end
+  end
+
+  ::JSON.generate({
+    'records' => records,
+    'relations' => relations,
+    'queries' => Thread.current[:__rubymate_sql] || [],
+    'recordingStarted' => recording_started
+  }, ascii_only: true)
+rescue ::Exception => e
+  ::JSON.generate({ 'error' => "#{e.class}: #{e.message}" }, ascii_only: true)
+end.(binding)`;
+
+/**
+ * Whether rdbg cut an evaluated string short, so the full value has to come from its `#dump` variable
+ */
+export function isTruncatedResult(result: string): boolean {
+    return result.endsWith('...');
+}
+
+/**
+ * Snapshot from the string literal rdbg returned for RAILS_INSPECTOR_EXPRESSION
+ */
+export function parseInspectorSnapshot(literal: string): InspectorSnapshot {
+    const empty: InspectorSnapshot = { records: [], relations: [], queries: [], recordingStarted: false };
+
+    const text = parseRubyStringLiteral(literal);
+    if (text === undefined) {
+        // Not a string: the expression itself failed, e.g. `#<SyntaxError: ...>`
+        return { ...empty, error: literal };
+    }
+
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { ...empty, error: `Unexpected inspector output: ${text.slice(0, 200)}` };
+    }
+    if (data.error) {
+        return { ...empty, error: String(data.error) };
+    }
+
+    return {
+        records: Array.isArray(data.records) ? data.records : [],
+        relations: Array.isArray(data.relations) ? data.relations : [],
+        queries: Array.isArray(data.queries) ? data.queries : [],
+        recordingStarted: !!data.recordingStarted
+    };
+}
+
+/**
+ * Value of a double-quoted Ruby string literal as written by `inspect` or `dump`
+ */
+export function parseRubyStringLiteral(literal: string): string | undefined {
+    const match = literal.trim().match(/^"([\s\S]*)"(?:\.dup\.force_encoding\([^)]*\))?$/);
+    if (!match) {
+        return undefined;
+    }
+
+    const simple: { [escape: string]: string } = {
+        n: '\n', t: '\t', r: '\r', e: '\x1b', a: '\x07', b: '\b', f: '\f', v: '\v', s: ' ', '0': '\0'
+    };
+
+    return match[1].replace(/\\(u\{[0-9a-fA-F ]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{1,2}|[\s\S])/g, (_, escape: string) => {
+        if (escape.startsWith('u{')) {
+            return escape.slice(2, -1).trim().split(/\s+/).map(code => String.fromCodePoint(parseInt(code, 16))).join('');
+        }
+        if (escape.length > 1 && (escape[0] === 'u' || escape[0] === 'x')) {
+            return String.fromCharCode(parseInt(escape.slice(1), 16));
+        }
+        return simple[escape] ?? escape;
+    });
+}
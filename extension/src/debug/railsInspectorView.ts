@@ -0,0 +1,275 @@
+import * as vscode from 'vscode';
+import {
+    InspectedRecord,
+    InspectorSnapshot,
+    isTruncatedResult,
+    parseInspectorSnapshot,
+    RAILS_INSPECTOR_EXPRESSION,
+    RecordedQuery
+} from './railsInspector';
+
+export const RAILS_INSPECTOR_VIEW = 'rubymate.railsInspector';
+
+interface InspectorNode {
+    label: string;
+    description?: string;
+    tooltip?: string | vscode.MarkdownString;
+    icon?: string;
+    // Text copied by "Copy", which only nodes with one offer
+    copyText?: string;
+    children?: InspectorNode[];
+    expanded?: boolean;
+}
+
+/**
+ * "Rails Inspector" view in the Run and Debug sidebar
+ *
+ * Filled from the paused frame of a Ruby debug session each time it stops,
+ * and only while the view is visible.
+ */
+export class RailsInspectorProvider implements vscode.TreeDataProvider<InspectorNode>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<InspectorNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private view: vscode.TreeView<InspectorNode>;
+    private disposables: vscode.Disposable[] = [];
+    private nodes: InspectorNode[] = [];
+    // Where the session is paused, until it continues
+    private paused: { session: vscode.DebugSession; threadId: number } | undefined;
+    private stale = false;
+    private generation = 0;
+
+    constructor(private outputChannel: vscode.OutputChannel) {
+        this.view = vscode.window.createTreeView(RAILS_INSPECTOR_VIEW, { treeDataProvider: this });
+        this.view.message = 'Pause a Ruby debug session to inspect its ActiveRecord objects and SQL queries';
+        this.disposables.push(
+            this.view,
+            this.changeEmitter,
+            this.view.onDidChangeVisibility(event => {
+                if (event.visible && this.stale) {
+                    this.refresh();
+                }
+            }),
+            vscode.commands.registerCommand('rubymate.refreshRailsInspector', () => this.refresh()),
+            vscode.commands.registerCommand('rubymate.copyRailsInspectorValue', (node: InspectorNode) => {
+                if (node?.copyText) {
+                    vscode.env.clipboard.writeText(node.copyText);
+                }
+            })
+        );
+    }
+
+    onStopped(session: vscode.DebugSession, threadId: number): void {
+        this.paused = { session, threadId };
+        this.stale = true;
+        if (this.view.visible) {
+            this.refresh();
+        }
+    }
+
+    onContinued(session: vscode.DebugSession): void {
+        if (this.paused?.session.id === session.id) {
+            this.show([], 'Running. Pause to inspect ActiveRecord objects and SQL queries');
+            this.paused = undefined;
+        }
+    }
+
+    onTerminated(session: vscode.DebugSession): void {
+        if (this.paused?.session.id === session.id) {
+            this.paused = undefined;
+        }
+        this.show([], 'Pause a Ruby debug session to inspect its ActiveRecord objects and SQL queries');
+    }
+
+    async refresh(): Promise<void> {
+        this.stale = false;
+        const paused = this.paused;
+        if (!paused) {
+            return;
+        }
+
+        const generation = ++this.generation;
+        this.view.message = 'Inspecting...';
+        try {
+            const snapshot = await this.inspect(paused.session, paused.threadId);
+            // A newer stop or a continue replaced this one meanwhile
+            if (generation !== this.generation || this.paused !== paused) {
+                return;
+            }
+            if (snapshot.error) {
+                this.show([], snapshot.error);
+                return;
+            }
+            this.show(snapshotNodes(snapshot), snapshotMessage(snapshot));
+        } catch (error) {
+            if (generation === this.generation && this.paused === paused) {
+                this.outputChannel.appendLine(`Rails Inspector failed: ${error}`);
+                this.show([], `Could not inspect this frame: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+    }
+
+    getTreeItem(node: InspectorNode): vscode.TreeItem {
+        const state = !node.children ? vscode.TreeItemCollapsibleState.None
+            : node.expanded ? vscode.TreeItemCollapsibleState.Expanded
+            : vscode.TreeItemCollapsibleState.Collapsed;
+        const item = new vscode.TreeItem(node.label, state);
+        item.description = node.description;
+        item.tooltip = node.tooltip;
+        item.contextValue = node.copyText ? 'railsInspectorValue' : undefined;
+        if (node.icon) {
+            item.iconPath = new vscode.ThemeIcon(node.icon);
+        }
+        return item;
+    }
+
+    getChildren(node?: InspectorNode): InspectorNode[] {
+        return node ? node.children || [] : this.nodes;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private show(nodes: InspectorNode[], message: string | undefined): void {
+        this.nodes = nodes;
+        this.view.message = message;
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Evaluate the inspector expression in the top frame of the paused thread
+     */
+    private async inspect(session: vscode.DebugSession, threadId: number): Promise<InspectorSnapshot> {
+        const trace = await session.customRequest('stackTrace', { threadId, startFrame: 0, levels: 1 });
+        const frameId = trace?.stackFrames?.[0]?.id;
+        if (frameId === undefined) {
+            return { records: [], relations: [], queries: [], recordingStarted: false, error: 'No stack frame to inspect' };
+        }
+
+        const response = await session.customRequest('evaluate', {
+            expression: RAILS_INSPECTOR_EXPRESSION,
+            frameId,
+            context: 'watch'
+        });
+
+        let literal: string = response?.result ?? '';
+        if (isTruncatedResult(literal) && response.variablesReference) {
+            const children = await session.customRequest('variables', { variablesReference: response.variablesReference });
+            literal = children?.variables?.find((variable: { name: string }) => variable.name === '#dump')?.value ?? literal;
+        }
+
+        return parseInspectorSnapshot(literal);
+    }
+}
+
+function snapshotMessage(snapshot: InspectorSnapshot): string | undefined {
+    if (snapshot.recordingStarted && snapshot.queries.length === 0) {
+        return 'SQL recording starts now; queries appear from the next request on';
+    }
+    return undefined;
+}
+
+function snapshotNodes(snapshot: InspectorSnapshot): InspectorNode[] {
+    const objects: InspectorNode[] = [
+        ...snapshot.records.map(recordNode),
+        ...snapshot.relations.map(relation => ({
+            label: relation.variable,
+            description: `${relation.className} relation (not loaded)`,
+            tooltip: relation.sql,
+            icon: 'list-flat',
+            copyText: relation.sql
+        }))
+    ];
+
+    return [
+        {
+            label: 'ActiveRecord Objects',
+            description: String(objects.length),
+            icon: 'database',
+            children: objects.length > 0 ? objects : [{ label: 'None in this frame' }],
+            expanded: true
+        },
+        {
+            label: 'SQL Queries',
+            description: `${snapshot.queries.length} in this request`,
+            icon: 'server-process',
+            children: snapshot.queries.length > 0 ? snapshot.queries.map(queryNode) : [{ label: 'None recorded' }],
+            expanded: true
+        }
+    ];
+}
+
+function recordNode(record: InspectedRecord): InspectorNode {
+    const changed = Object.keys(record.changes);
+    const state = record.destroyed ? 'destroyed' : record.newRecord ? 'new' : changed.length > 0 ? 'changed' : undefined;
+
+    const children: InspectorNode[] = Object.entries(record.attributes).map(([name, value]) => ({
+        label: name,
+        description: value,
+        tooltip: value,
+        icon: changed.includes(name) ? 'diff-modified' : undefined,
+        copyText: value
+    }));
+
+    if (changed.length > 0) {
+        children.push({
+            label: 'Changes',
+            description: String(changed.length),
+            icon: 'diff',
+            children: Object.entries(record.changes).map(([name, [before, after]]) => ({
+                label: name,
+                description: `${before} → ${after}`,
+                copyText: after
+            }))
+        });
+    }
+
+    if (record.associations.length > 0) {
+        children.push({
+            label: 'Loaded Associations',
+            description: String(record.associations.length),
+            icon: 'references',
+            children: record.associations.map(association => ({
+                label: association.name,
+                description: `${association.macro}, ${association.count} loaded`,
+                children: association.records.length > 0
+                    ? association.records.map(target => ({ label: target }))
+                    : [{ label: 'nil' }]
+            }))
+        });
+    }
+
+    if (record.errors.length > 0) {
+        children.push({
+            label: 'Errors',
+            description: String(record.errors.length),
+            icon: 'error',
+            children: record.errors.map(message => ({ label: message }))
+        });
+    }
+
+    return {
+        label: record.variable,
+        description: `${record.className}#${record.id}${state ? ` (${state})` : ''}`,
+        icon: 'symbol-class',
+        children
+    };
+}
+
+function queryNode(query: RecordedQuery): InspectorNode {
+    const sql = query.sql.replace(/\s+/g, ' ').trim();
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendCodeblock(query.sql, 'sql');
+    if (query.binds.length > 0) {
+        tooltip.appendMarkdown(`Binds: \`${query.binds.join(', ')}\``);
+    }
+
+    return {
+        label: sql.length > 120 ? `${sql.slice(0, 117)}...` : sql,
+        description: `${query.name || 'SQL'} ${query.durationMs}ms${query.cached ? ' (cached)' : ''}`,
+        tooltip,
+        icon: query.cached ? 'history' : 'database',
+        copyText: query.sql
+    };
+}
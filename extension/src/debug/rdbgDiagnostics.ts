@@ -0,0 +1,76 @@
+/**
+ * Recognise why rdbg failed to start from its output
+ */
+
+export type RdbgFailureKind = 'missingDebugGem' | 'portInUse' | 'rubyTooOld';
+
+export interface RdbgFailure {
+    kind: RdbgFailureKind;
+    // Port that was taken (portInUse)
+    port?: number;
+    // Ruby version in use and the one rdbg needs (rubyTooOld)
+    rubyVersion?: string;
+    requiredVersion?: string;
+}
+
+// rdbg supports Ruby 2.7 and newer
+export const MINIMUM_RUBY_VERSION = '2.7.0';
+
+// DEBUGGER: Debugger can attach via TCP/IP (127.0.0.1:43210)
+const TCP_READY_PATTERN = /Debugger can attach via TCP\/IP \(([^)\s]+):(\d+)\)/;
+
+const MISSING_GEM_PATTERNS = [
+    /bundler: command not found: rdbg/,
+    /debug is not currently included in the bundle/,
+    /can't find executable rdbg/,
+    /No such file or directory -- rdbg/,
+    /cannot load such file -- debug\b/,
+    /Could not find gem ['"]?debug\b/,
+    /can't find gem debug\b/,
+    /rdbg: (command )?not found/
+];
+
+/**
+ * Host and port rdbg is listening on, once it prints its ready line
+ */
+export function parseRdbgListening(output: string): { host: string; port: number } | undefined {
+    const match = output.match(TCP_READY_PATTERN);
+    return match ? { host: match[1], port: parseInt(match[2], 10) } : undefined;
+}
+
+export function diagnoseRdbgOutput(output: string): RdbgFailure | undefined {
+    const rubyVersion = output.match(/requires ruby version >= ([\d.]+).*?current version,? (?:is )?(?:ruby )?([\d.]+)/is);
+    if (rubyVersion) {
+        return { kind: 'rubyTooOld', requiredVersion: rubyVersion[1], rubyVersion: rubyVersion[2] };
+    }
+
+    // Address already in use - bind(2) for 127.0.0.1:12345 (Errno::EADDRINUSE)
+    const port = output.match(/Address already in use - bind\(2\) for "?[^\s"]*?"?(?: port |:)(\d+)/);
+    if (port || /Address already in use|EADDRINUSE/.test(output)) {
+        return { kind: 'portInUse', port: port ? parseInt(port[1], 10) : undefined };
+    }
+
+    if (MISSING_GEM_PATTERNS.some(pattern => pattern.test(output))) {
+        return { kind: 'missingDebugGem' };
+    }
+
+    // Older Rubies fail to parse the debug gem before Bundler's version check runs
+    const oldRuby = output.match(/ruby (\d+\.\d+\.\d+)p?\d*/);
+    if (oldRuby && compareVersions(oldRuby[1], MINIMUM_RUBY_VERSION) < 0 && /syntax error/.test(output)) {
+        return { kind: 'rubyTooOld', requiredVersion: MINIMUM_RUBY_VERSION, rubyVersion: oldRuby[1] };
+    }
+
+    return undefined;
+}
+
+export function compareVersions(a: string, b: string): number {
+    const left = a.split('.').map(part => parseInt(part, 10) || 0);
+    const right = b.split('.').map(part => parseInt(part, 10) || 0);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] || 0) - (right[i] || 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
@@ -0,0 +1,117 @@
+import * as path from 'path';
+import { compareVersions } from './rdbgDiagnostics';
+
+/**
+ * Find the rdbg a workspace folder should debug with
+ *
+ * Candidates in order: the project's bin/rdbg binstub, `bundle exec rdbg`
+ * when the debug gem is in Gemfile.lock, the gem bin directory of the
+ * configured Ruby, and PATH. Each must be a debug gem version with the DAP
+ * server behind `--open`.
+ */
+
+export type RdbgSource = 'binstub' | 'bundler' | 'gemBinDir' | 'path';
+
+export interface RdbgResolution {
+    source: RdbgSource;
+    // Command and leading arguments that start rdbg
+    command: string;
+    args: string[];
+    version: string;
+    // Why this rdbg was chosen, for the log
+    reason: string;
+}
+
+export interface RdbgLookup {
+    resolution?: RdbgResolution;
+    // Candidates found but too old to debug over DAP
+    outdated: Array<{ source: RdbgSource; version: string }>;
+    // Whether the folder has a Gemfile, so the debug gem belongs in it
+    bundled: boolean;
+}
+
+export interface RdbgProbes {
+    exists(file: string): boolean;
+    readFile(file: string): string | undefined;
+    // stdout of a command, or undefined when it fails
+    run(command: string, args: string[], cwd: string): Promise<string | undefined>;
+    pathDirectories: string[];
+    executableName: string;
+}
+
+// First debug gem release with the DAP server
+export const MINIMUM_DEBUG_VERSION = '1.0.0';
+
+export async function resolveRdbg(folder: string, rubyPath: string, probes: RdbgProbes): Promise<RdbgLookup> {
+    const lookup: RdbgLookup = { outdated: [], bundled: probes.exists(path.join(folder, 'Gemfile')) };
+
+    const accept = (candidate: RdbgResolution): boolean => {
+        if (compareVersions(candidate.version, MINIMUM_DEBUG_VERSION) < 0) {
+            lookup.outdated.push({ source: candidate.source, version: candidate.version });
+            return false;
+        }
+        lookup.resolution = candidate;
+        return true;
+    };
+
+    const versionOf = async (command: string, args: string[]) =>
+        parseRdbgVersion(await probes.run(command, [...args, '--version'], folder));
+
+    // The project's binstub
+    const binstub = path.join(folder, 'bin', 'rdbg');
+    if (probes.exists(binstub)) {
+        const version = await versionOf(rubyPath, [binstub]);
+        if (version && accept({ source: 'binstub', command: rubyPath, args: [binstub], version, reason: `bin/rdbg (debug ${version})` })) {
+            return lookup;
+        }
+    }
+
+    // The bundle, when the lockfile pins the debug gem
+    const lockedVersion = probes.readFile(path.join(folder, 'Gemfile.lock'))?.match(/^ {4}debug \(([\d.]+)/m)?.[1];
+    if (lockedVersion && accept({
+        source: 'bundler',
+        command: rubyPath,
+        args: ['-S', 'bundle', 'exec', 'rdbg'],
+        version: lockedVersion,
+        reason: `bundle exec rdbg (debug ${lockedVersion} in Gemfile.lock)`
+    })) {
+        return lookup;
+    }
+
+    // The configured Ruby's gem executables
+    const gemBinDir = (await probes.run(rubyPath, ['-e', 'print Gem.bindir'], folder))?.trim();
+    const gemRdbg = gemBinDir ? path.join(gemBinDir, 'rdbg') : undefined;
+    if (gemRdbg && probes.exists(gemRdbg)) {
+        const version = await versionOf(rubyPath, [gemRdbg]);
+        if (version && accept({
+            source: 'gemBinDir',
+            command: rubyPath,
+            args: [gemRdbg],
+            version,
+            reason: `${gemRdbg} from ${rubyPath}'s gem directory (debug ${version})`
+        })) {
+            return lookup;
+        }
+    }
+
+    // Anything else on PATH
+    for (const directory of probes.pathDirectories) {
+        const candidate = path.join(directory, probes.executableName);
+        if (candidate === gemRdbg || !probes.exists(candidate)) {
+            continue;
+        }
+        const version = await versionOf(candidate, []);
+        if (version && accept({ source: 'path', command: candidate, args: [], version, reason: `${candidate} on PATH (debug ${version})` })) {
+            return lookup;
+        }
+    }
+
+    return lookup;
+}
+
+/**
+ * `rdbg 1.9.1` -> `1.9.1`
+ */
+export function parseRdbgVersion(output: string | undefined): string | undefined {
+    return output?.match(/rdbg (\d+\.\d+\.\d+)/)?.[1];
+}
@@ -0,0 +1,38 @@
+/**
+ * Ruby processes waiting for a debugger on rdbg's UNIX domain sockets
+ *
+ * `rdbg --open` (or RUBY_DEBUG_OPEN) without a port listens on
+ * `<sock dir>/rdbg-<pid>[-<session name>]`, and `rdbg --util=list-socks-verbose`
+ * prints each socket followed by `PID: <pid>, $0: <program>, session_name: <name>`.
+ * Older debug gems only have `--util=list-socks`, which prints the paths alone.
+ */
+
+export interface RdbgSocket {
+    path: string;
+    pid?: number;
+    // The process's $0
+    programName?: string;
+    sessionName?: string;
+}
+
+export function parseRdbgSocketList(output: string): RdbgSocket[] {
+    const sockets: RdbgSocket[] = [];
+
+    for (const line of output.split(/\r?\n/).map(text => text.trim())) {
+        const details = line.match(/^PID: (\d+), \$0: (.*?), session_name: ?(.*)$/);
+        if (details && sockets.length > 0) {
+            const socket = sockets[sockets.length - 1];
+            socket.pid = parseInt(details[1], 10);
+            socket.programName = details[2];
+            socket.sessionName = details[3] || undefined;
+            continue;
+        }
+
+        const name = line.match(/[\\/]rdbg-(\d+)(?:-([^\\/]+))?$/);
+        if (name) {
+            sockets.push({ path: line, pid: parseInt(name[1], 10), sessionName: name[2] });
+        }
+    }
+
+    return sockets;
+}
@@ -1,6 +1,71 @@
 import * as vscode from 'vscode';
 import * as net from 'net';
 import * as path from 'path';
+import * as fs from 'fs';
+import { execFile, spawn, ChildProcess } from 'child_process';
+import {
+    catchBreakpointNumbers,
+    caughtExceptionClasses,
+    exceptionBreakpointFilters,
+    isExceptionClassName,
+    postmortemCommand,
+    rdbgExceptionFilters
+} from './debug/exceptionBreakpoints';
+import { diagnoseRdbgOutput, parseRdbgListening, RdbgFailure } from './debug/rdbgDiagnostics';
+import { resolveRdbg, RdbgLookup, RdbgProbes, RdbgResolution, MINIMUM_DEBUG_VERSION } from './debug/rdbgResolver';
+import { parseRdbgSocketList, RdbgSocket } from './debug/rdbgSockets';
+import { mapSourcePaths, PathMapper, PathMappings } from './debug/pathMappings';
+import {
+    composeServiceDebugPort,
+    composeServicePathMappings,
+    ComposeService,
+    containerConfigurationFiles,
+    inferPathMappings,
+    readComposeServices
+} from './debug/containerMappings';
+import { containerBridgeCommand, containerRdbgCommand, defaultComposeExecCommand, publishedPort } from './debug/containerLaunch';
+import { dynamicDebugConfigurations, isRailsApplication, lockedGems, parseRakeTasks, RakeTask } from './debug/launchConfigurations';
+import { minitestTestAt } from './testing/minitestTests';
+import { RailsInspectorProvider } from './debug/railsInspectorView';
+import {
+    breakpointProblem,
+    logMessageExpressions,
+    rdbgBreakpointCondition,
+    SourceBreakpointRequest,
+    syntaxCheckSource,
+    syntaxErrorMessage
+} from './debug/breakpointConditions';
+
+// Workspace state key for the exception classes to break on
+const EXCEPTION_CLASSES_KEY = 'rubymate.exceptionBreakpointClasses';
+
+// How long rdbg's breakpoint list is collected from its console output
+const BREAKPOINT_LIST_WAIT_MS = 500;
+
+// Port attaches connect to when remotePort isn't set
+const DEFAULT_REMOTE_PORT = 12345;
+
+// How long rdbg gets to print the address it listens on (Bundler can be slow to boot)
+const RDBG_START_TIMEOUT_MS = 60000;
+
+// Output kept per session for diagnosing a failed start
+const MAX_SESSION_OUTPUT = 20000;
+
+// Limit for each `ruby -e` / `rdbg --version` probe while looking for rdbg
+const RDBG_PROBE_TIMEOUT_MS = 15000;
+
+// Limit for each `ruby -c` check of a breakpoint condition
+const SYNTAX_CHECK_TIMEOUT_MS = 5000;
+
+// Limit for `rake -T`, which boots the whole application in Rails projects
+const RAKE_TASKS_TIMEOUT_MS = 60000;
+
+// Launch input that `${input:rakeTask}` falls back to when launch.json doesn't define it
+const RAKE_TASK_INPUT = '${input:rakeTask}';
+const RAKE_TASK_COMMAND = '${command:rubymate.pickRakeTask}';
+
+// `rake -T` results per project directory, dropped when a Rakefile or .rake file changes
+const rakeTaskCache = new Map<string, Promise<RakeTask[]>>();
 
 export interface DebugConfiguration extends vscode.DebugConfiguration {
     request: 'launch' | 'attach';
@@ -9,11 +74,18 @@ export interface DebugConfiguration extends vscode.DebugConfiguration {
     cwd?: string;
     env?: { [key: string]: string };
     useBundler?: boolean;
-    pathMappings?: { [key: string]: string };
+    // Local directory -> directory the debuggee sees it as (containers, VMs)
+    pathMappings?: PathMappings;
     showDebuggerOutput?: boolean;
     debugPort?: number;
     remoteHost?: string;
     remotePort?: number;
+    // UNIX domain socket of a process started with `rdbg --open`, instead of a host and port
+    debugSocket?: string;
+    // Docker Compose service a launch configuration runs the program in
+    composeService?: string;
+    // Command that runs a command in that service, `docker compose exec -T <service>` by default
+    execCommand?: string[];
     stopOnEntry?: boolean;
 }
 
@@ -43,7 +115,7 @@ export class RubyDebugConfigurationProvider implements vscode.DebugConfiguration
             }
         }
 
-        if (!config.program) {
+        if (config.request !== 'attach' && !config.program) {
             return vscode.window.showInformationMessage(
                 "Cannot find a program to debug"
             ).then(_ => {
@@ -51,12 +123,46 @@ export class RubyDebugConfigurationProvider implements vscode.DebugConfiguration
             });
         }
 
+        // `${input:rakeTask}` needs an `inputs` entry; without one, pick from the project's tasks
+        if (config.args?.includes(RAKE_TASK_INPUT)) {
+            const inputs = vscode.workspace.getConfiguration('launch', folder?.uri).get<Array<{ id?: string }>>('inputs', []);
+            if (!inputs.some(input => input.id === 'rakeTask')) {
+                config.args = config.args.map(arg => arg === RAKE_TASK_INPUT ? RAKE_TASK_COMMAND : arg);
+            }
+        }
+
         // Set defaults
         config.cwd = config.cwd || (folder ? folder.uri.fsPath : '${workspaceFolder}');
         config.useBundler = config.useBundler !== undefined ? config.useBundler : this.shouldUseBundler(folder);
         config.showDebuggerOutput = config.showDebuggerOutput !== undefined ? config.showDebuggerOutput : false;
         config.stopOnEntry = config.stopOnEntry !== undefined ? config.stopOnEntry : false;
 
+        // Remote attaches without explicit mappings take them from the dev container or compose file
+        if (config.request === 'attach' && !config.debugSocket && config.pathMappings === undefined && folder) {
+            const port = config.remotePort || DEFAULT_REMOTE_PORT;
+            const inferred = inferPathMappings(folder.uri.fsPath, readFileIfExists, port);
+            const containerFiles = containerConfigurationFiles(folder.uri.fsPath, readFileIfExists);
+            if (inferred) {
+                config.pathMappings = inferred.pathMappings;
+                this.outputChannel.appendLine(`pathMappings inferred from ${inferred.origin}`);
+            } else if (containerFiles.length > 0) {
+                this.outputChannel.appendLine(
+                    `No pathMappings inferred: no container in ${containerFiles.join(', ')} publishes port ${port}. ` +
+                    'Set pathMappings if the program runs in a container'
+                );
+            }
+        }
+
+        // Launches in a compose service take the mappings from the service's bind mounts
+        if (config.request === 'launch' && config.composeService && config.pathMappings === undefined && folder) {
+            const service = readComposeServices(folder.uri.fsPath, readFileIfExists)?.services
+                .find(candidate => candidate.name === config.composeService);
+            if (service) {
+                config.pathMappings = composeServicePathMappings(service);
+                this.outputChannel.appendLine(`pathMappings inferred from service ${service.name}`);
+            }
+        }
+
         this.outputChannel.appendLine(`Debug configuration resolved: ${JSON.stringify(config, null, 2)}`);
 
         return config;
@@ -98,6 +204,12 @@ export class RubyDebugConfigurationProvider implements vscode.DebugConfiguration
                 cwd: '${workspaceFolder}',
                 useBundler: true
             },
+            {
+                type: 'ruby',
+                request: 'attach',
+                name: 'Attach to Ruby Process',
+                debugSocket: '${command:rubymate.pickRubyProcess}'
+            },
             {
                 type: 'ruby',
                 request: 'attach',
@@ -145,29 +257,61 @@ export class RubyDebugConfigurationProvider implements vscode.DebugConfiguration
         return configurations;
     }
 
-    private isRailsProject(folder: vscode.WorkspaceFolder | undefined): boolean {
+    /**
+     * Configurations for the Run and Debug view, built from the project's binstubs,
+     * Rake tasks, job workers and the Minitest test under the cursor
+     */
+    async provideDynamicDebugConfigurations(
+        folder: vscode.WorkspaceFolder | undefined,
+        token?: vscode.CancellationToken
+    ): Promise<DebugConfiguration[]> {
         if (!folder) {
-            return false;
+            return [];
         }
 
-        const railsIndicators = [
-            'config/application.rb',
-            'bin/rails',
-            'Gemfile'
-        ];
+        const directory = folder.uri.fsPath;
+        const gems = lockedGems(readFileIfExists(path.join(directory, 'Gemfile.lock')) || '');
+        const rakeTasks = fs.existsSync(path.join(directory, 'Rakefile')) ? await listRakeTasks(directory) : [];
+        if (token?.isCancellationRequested) {
+            return [];
+        }
 
-        try {
-            for (const indicator of railsIndicators) {
-                const indicatorPath = path.join(folder.uri.fsPath, indicator);
-                if (require('fs').existsSync(indicatorPath)) {
-                    return true;
-                }
+        let currentMinitest: { file: string; name: string } | undefined;
+        const editor = vscode.window.activeTextEditor;
+        const file = editor?.document.uri.fsPath;
+        if (editor && file?.endsWith('_test.rb') && vscode.workspace.getWorkspaceFolder(editor.document.uri) === folder) {
+            const test = minitestTestAt(editor.document.getText(), editor.selection.active.line);
+            if (test) {
+                currentMinitest = { file: path.relative(directory, file).split(path.sep).join('/'), name: test.name };
             }
-        } catch (error) {
-            // Ignore errors
         }
 
-        return false;
+        const configurations = dynamicDebugConfigurations({
+            rails: isRailsApplication(
+                fs.existsSync(path.join(directory, 'config', 'application.rb')),
+                fs.existsSync(path.join(directory, 'bin', 'rails')),
+                gems
+            ),
+            binstubs: rubyBinstubs(directory),
+            rakeTasks,
+            gems,
+            currentMinitest
+        });
+        this.outputChannel.appendLine(`Found ${configurations.length} debug configurations in ${folder.name}`);
+        return configurations;
+    }
+
+    private isRailsProject(folder: vscode.WorkspaceFolder | undefined): boolean {
+        if (!folder) {
+            return false;
+        }
+
+        const lockfile = readFileIfExists(path.join(folder.uri.fsPath, 'Gemfile.lock'));
+        return isRailsApplication(
+            fs.existsSync(path.join(folder.uri.fsPath, 'config', 'application.rb')),
+            fs.existsSync(path.join(folder.uri.fsPath, 'bin', 'rails')),
+            lockedGems(lockfile || '')
+        );
     }
 
     private shouldUseBundler(folder: vscode.WorkspaceFolder | undefined): boolean {
@@ -184,70 +328,95 @@ export class RubyDebugConfigurationProvider implements vscode.DebugConfiguration
     }
 }
 
-export class RubyDebugAdapterDescriptorFactory implements vscode.DebugAdapterDescriptorFactory {
+export class RubyDebugAdapterDescriptorFactory implements vscode.DebugAdapterDescriptorFactory, vscode.Disposable {
     private outputChannel: vscode.OutputChannel;
+    private debugLog: RubyDebugLog;
+    // rdbg processes started for launch sessions, stopped when their session ends
+    private processes = new Map<string, ChildProcess>();
+    // rdbg found for each project directory, until its Gemfile.lock, bin/rdbg or Ruby changes
+    private rdbgLookups = new Map<string, Promise<RdbgLookup>>();
+    private disposables: vscode.Disposable[] = [];
 
-    constructor(outputChannel: vscode.OutputChannel) {
+    constructor(outputChannel: vscode.OutputChannel, debugLog: RubyDebugLog) {
         this.outputChannel = outputChannel;
+        this.debugLog = debugLog;
+
+        this.disposables.push(vscode.debug.onDidTerminateDebugSession(session => {
+            this.processes.get(session.id)?.kill();
+            this.processes.delete(session.id);
+        }));
+
+        const rdbgWatcher = vscode.workspace.createFileSystemWatcher('**/{Gemfile.lock,bin/rdbg}');
+        const forget = () => this.rdbgLookups.clear();
+        rdbgWatcher.onDidChange(forget);
+        rdbgWatcher.onDidCreate(forget);
+        rdbgWatcher.onDidDelete(forget);
+        this.disposables.push(rdbgWatcher, vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('rubymate.rubyPath')) {
+                forget();
+            }
+        }));
     }
 
-    createDebugAdapterDescriptor(
+    async createDebugAdapterDescriptor(
         session: vscode.DebugSession,
         executable: vscode.DebugAdapterExecutable | undefined
-    ): vscode.ProviderResult<vscode.DebugAdapterDescriptor> {
+    ): Promise<vscode.DebugAdapterDescriptor | undefined> {
         const config = session.configuration as DebugConfiguration;
 
         this.outputChannel.appendLine(`Creating debug adapter for session: ${session.name}`);
 
         if (config.request === 'attach') {
+            // Attach through the UNIX domain socket rdbg opened by default
+            if (config.debugSocket) {
+                this.outputChannel.appendLine(`Attaching to debugger socket ${config.debugSocket}`);
+                return new vscode.DebugAdapterNamedPipeServer(config.debugSocket);
+            }
+
             // Attach to remote debug session
             const host = config.remoteHost || 'localhost';
-            const port = config.remotePort || 12345;
+            const port = config.remotePort || DEFAULT_REMOTE_PORT;
 
             this.outputChannel.appendLine(`Attaching to remote debugger at ${host}:${port}`);
 
             return new vscode.DebugAdapterServer(port, host);
         }
 
+        if (config.composeService) {
+            return this.launchInContainer(session, config);
+        }
+
         // Launch configuration - use rdbg
         const rubyPath = vscode.workspace.getConfiguration('rubymate').get<string>('rubyPath', 'ruby');
-        const rdbgPath = this.findRdbgPath(session.workspaceFolder);
-
-        if (!rdbgPath) {
-            vscode.window.showErrorMessage(
-                'Debug gem (rdbg) not found. Please install it: gem install debug',
-                'Install Debug Gem'
-            ).then(selection => {
-                if (selection === 'Install Debug Gem') {
-                    const terminal = vscode.window.createTerminal('Install Debug Gem');
-                    terminal.sendText('gem install debug');
-                    terminal.show();
-                }
-            });
+        const directory = config.cwd || session.workspaceFolder?.uri.fsPath || process.cwd();
+        const lookup = await this.findRdbg(directory, rubyPath);
+        const rdbg = lookup.resolution;
 
+        if (!rdbg) {
+            this.reportMissingRdbg(lookup, directory);
             return undefined;
         }
 
-        this.outputChannel.appendLine(`Using rdbg at: ${rdbgPath}`);
+        this.outputChannel.appendLine(`Using rdbg: ${rdbg.reason}`);
+        if (config.useBundler && lookup.bundled && (rdbg.source === 'gemBinDir' || rdbg.source === 'path')) {
+            this.outputChannel.appendLine('The debug gem is not in Gemfile.lock, so rdbg runs outside the bundle');
+        }
 
         // Build rdbg command
-        const args: string[] = [];
-
-        if (config.useBundler) {
-            args.push('-S', 'bundle', 'exec', 'rdbg');
-        } else {
-            args.push(rdbgPath);
-        }
+        const args: string[] = [...rdbg.args];
 
         // rdbg options
-        args.push('--open', '--host=127.0.0.1', '--port=0'); // Port 0 = auto-assign
+        args.push('--open', '--host=127.0.0.1', `--port=${config.debugPort || 0}`); // Port 0 = auto-assign
 
         if (config.stopOnEntry) {
             args.push('--stop-at-load');
         }
 
-        // Add the program to debug
-        if (config.program) {
+        // Add the program to debug; gem executables (`rake`, `sidekiq`) rather than
+        // script paths run in command mode, through the bundle when asked
+        if (config.program && isExecutableName(config.program, directory)) {
+            args.push('-c', '--', ...(config.useBundler && lookup.bundled ? ['bundle', 'exec'] : []), config.program);
+        } else if (config.program) {
             args.push('--', config.program);
         }
 
@@ -256,31 +425,491 @@ export class RubyDebugAdapterDescriptorFactory implements vscode.DebugAdapterDes
             args.push(...config.args);
         }
 
-        this.outputChannel.appendLine(`Debug command: ${rubyPath} ${args.join(' ')}`);
+        this.outputChannel.appendLine(`Debug command: ${rdbg.command} ${args.join(' ')}`);
 
-        const debugExecutable = new vscode.DebugAdapterExecutable(
-            rubyPath,
-            args,
-            {
-                cwd: config.cwd,
-                env: { ...process.env, ...(config.env || {}) } as { [key: string]: string }
+        return this.launchRdbg(session, rdbg.command, args, { cwd: config.cwd, env: config.env });
+    }
+
+    /**
+     * Start rdbg inside a compose service and connect through the published
+     * port, or through a stdio bridge when the service doesn't publish it
+     */
+    private launchInContainer(session: vscode.DebugSession, config: DebugConfiguration): Promise<vscode.DebugAdapterDescriptor | undefined> {
+        const service = config.composeService!;
+        const folder = session.workspaceFolder?.uri.fsPath || process.cwd();
+        const directory = config.cwd || folder;
+        const mapper = new PathMapper(config.pathMappings || {}, directory);
+        const composeService = readComposeServices(folder, readFileIfExists)?.services.find(candidate => candidate.name === service);
+
+        const port = config.debugPort ?? (composeService && composeServiceDebugPort(composeService).target) ?? 0;
+        const hostPort = publishedPort(composeService, port);
+        const execCommand = config.execCommand?.length ? config.execCommand : defaultComposeExecCommand(service);
+        const program = config.program || '';
+        const remoteDirectory = mapper.toRemote(directory);
+
+        const command = containerRdbgCommand({
+            execCommand,
+            // Without a mapping for it, the local directory means nothing in the container
+            cwd: remoteDirectory !== directory ? remoteDirectory : undefined,
+            env: config.env,
+            useBundler: !!config.useBundler,
+            port,
+            host: hostPort !== undefined ? '0.0.0.0' : '127.0.0.1',
+            stopOnEntry: !!config.stopOnEntry,
+            program: isExecutableName(program, directory) ? program : mapper.toRemote(program),
+            commandMode: isExecutableName(program, directory),
+            args: (config.args || []).map(arg => mapper.toRemote(arg))
+        });
+
+        this.outputChannel.appendLine(`Debug command in service ${service}: ${command.join(' ')}`);
+        if (hostPort === undefined) {
+            this.outputChannel.appendLine(`${service} does not publish the debug port; connecting through ${execCommand.join(' ')}`);
+        }
+
+        return this.launchRdbg(session, command[0], command.slice(1), { cwd: folder }, listening => {
+            if (hostPort !== undefined) {
+                return new vscode.DebugAdapterServer(hostPort, 'localhost');
             }
-        );
+            const bridge = containerBridgeCommand(execCommand, listening.port);
+            return new vscode.DebugAdapterExecutable(bridge[0], bridge.slice(1), { cwd: folder });
+        });
+    }
 
-        return debugExecutable;
+    /**
+     * rdbg for a project directory, reporting why when there is none
+     */
+    async rdbgFor(directory: string): Promise<RdbgResolution | undefined> {
+        const rubyPath = vscode.workspace.getConfiguration('rubymate').get<string>('rubyPath', 'ruby');
+        const lookup = await this.findRdbg(directory, rubyPath);
+        if (!lookup.resolution) {
+            this.reportMissingRdbg(lookup, directory);
+        }
+        return lookup.resolution;
     }
 
-    private findRdbgPath(folder: vscode.WorkspaceFolder | undefined): string | undefined {
-        // Try to find rdbg in various locations
-        const possiblePaths = [
-            'rdbg',
-            'bundle exec rdbg',
-            path.join(folder?.uri.fsPath || '', 'bin', 'rdbg')
-        ];
+    /**
+     * Look up rdbg for a project directory; only successful lookups are cached,
+     * so installing the gem takes effect on the next launch
+     */
+    private findRdbg(directory: string, rubyPath: string): Promise<RdbgLookup> {
+        const key = `${directory}\0${rubyPath}`;
+        const cached = this.rdbgLookups.get(key);
+        if (cached) {
+            return cached;
+        }
 
-        // For now, just return 'rdbg' and let the system find it
-        return 'rdbg';
+        const probes: RdbgProbes = {
+            exists: file => fs.existsSync(file),
+            readFile: file => {
+                try {
+                    return fs.readFileSync(file, 'utf8');
+                } catch {
+                    return undefined;
+                }
+            },
+            run: runCommand,
+            pathDirectories: (process.env.PATH || '').split(path.delimiter).filter(directory => directory),
+            executableName: process.platform === 'win32' ? 'rdbg.bat' : 'rdbg'
+        };
+
+        const lookup = resolveRdbg(directory, rubyPath, probes);
+        this.rdbgLookups.set(key, lookup);
+        lookup.then(result => {
+            if (!result.resolution) {
+                this.rdbgLookups.delete(key);
+            }
+        });
+        return lookup;
+    }
+
+    private reportMissingRdbg(lookup: RdbgLookup, directory: string): void {
+        const outdated = lookup.outdated[0];
+        if (!outdated) {
+            offerDebugGemInstall('Debug gem (rdbg) not found. Add it to the Gemfile or install it: gem install debug', directory);
+            return;
+        }
+
+        const updateCommand = outdated.source === 'bundler' || outdated.source === 'binstub'
+            ? 'bundle update debug'
+            : 'gem install debug';
+        vscode.window.showErrorMessage(
+            `rdbg ${outdated.version} is too old to debug from VS Code; debug ${MINIMUM_DEBUG_VERSION} or newer is needed.`,
+            'Update Debug Gem'
+        ).then(selection => {
+            if (selection === 'Update Debug Gem') {
+                runInTerminal('Update Debug Gem', updateCommand, directory);
+            }
+        });
     }
+
+    /**
+     * Start rdbg and connect to it once it prints the address it listens on
+     *
+     * If rdbg exits first, its output explains why, so it is diagnosed instead
+     * of leaving VS Code with a connection that never opens.
+     */
+    private launchRdbg(
+        session: vscode.DebugSession,
+        command: string,
+        args: string[],
+        options: { cwd?: string; env?: { [key: string]: string } },
+        connect: (listening: { host: string; port: number }) => vscode.DebugAdapterDescriptor =
+            listening => new vscode.DebugAdapterServer(listening.port, listening.host)
+    ): Promise<vscode.DebugAdapterDescriptor | undefined> {
+        this.debugLog.info(session, `Starting: ${command} ${args.join(' ')}`);
+
+        return new Promise(resolve => {
+            let output = '';
+            let settled = false;
+
+            const fail = (reason: string) => {
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timer);
+                    this.debugLog.reportStartupFailure(session, reason);
+                    resolve(undefined);
+                }
+            };
+
+            const child = spawn(command, args, {
+                cwd: options.cwd,
+                env: { ...process.env, ...(options.env || {}) }
+            });
+            this.processes.set(session.id, child);
+
+            const timer = setTimeout(() => {
+                fail(`rdbg did not report a debug port within ${RDBG_START_TIMEOUT_MS / 1000}s\n${output}`);
+                child.kill();
+            }, RDBG_START_TIMEOUT_MS);
+
+            const onData = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+                const text = data.toString();
+                this.debugLog.processOutput(session, stream, text);
+
+                if (settled) {
+                    // The program's own output, once the debugger is connected
+                    if (vscode.debug.activeDebugSession?.id === session.id) {
+                        vscode.debug.activeDebugConsole.append(text);
+                    }
+                    return;
+                }
+
+                output += text;
+                const listening = parseRdbgListening(output);
+                if (listening) {
+                    settled = true;
+                    clearTimeout(timer);
+                    this.debugLog.info(session, `rdbg listening on ${listening.host}:${listening.port}`);
+                    resolve(connect(listening));
+                } else if (diagnoseRdbgOutput(output)) {
+                    // rdbg keeps running after its server thread fails to bind, so don't wait for the timeout
+                    fail(output);
+                    child.kill();
+                }
+            };
+            child.stdout.on('data', onData('stdout'));
+            child.stderr.on('data', onData('stderr'));
+
+            child.on('error', error => fail(`${error.message}\n${output}`));
+            child.on('exit', (code, signal) => {
+                this.processes.delete(session.id);
+                this.debugLog.info(session, `rdbg exited (code ${code}, signal ${signal})`);
+                fail(output || `rdbg exited with code ${code}`);
+            });
+        });
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.processes.forEach(child => child.kill());
+        this.processes.clear();
+    }
+}
+
+/**
+ * Per-session debug log: rdbg output and DAP traffic in the "RubyMate Debug"
+ * log channel, and actionable errors when a session fails to start
+ */
+export class RubyDebugLog implements vscode.Disposable {
+    private channel: vscode.LogOutputChannel;
+    // Recent rdbg output per session, for diagnosing failures
+    private sessionOutput = new Map<string, string>();
+    // Sessions whose failure was already reported
+    private reported = new Set<string>();
+
+    constructor() {
+        this.channel = vscode.window.createOutputChannel('RubyMate Debug', { log: true });
+    }
+
+    info(session: vscode.DebugSession, message: string): void {
+        this.channel.info(`[${session.name}] ${message}`);
+    }
+
+    error(session: vscode.DebugSession, message: string): void {
+        this.channel.error(`[${session.name}] ${message}`);
+    }
+
+    /**
+     * DAP messages are logged at trace level, so they only show when the log level asks for them
+     */
+    message(session: vscode.DebugSession, direction: '->' | '<-', message: unknown): void {
+        this.channel.trace(`[${session.name}] ${direction} ${JSON.stringify(message)}`);
+    }
+
+    processOutput(session: vscode.DebugSession, stream: 'stdout' | 'stderr', text: string): void {
+        for (const line of text.split(/\r?\n/)) {
+            if (line) {
+                this.channel.info(`[${session.name}] ${stream}: ${line}`);
+            }
+        }
+
+        const output = (this.sessionOutput.get(session.id) || '') + text;
+        this.sessionOutput.set(session.id, output.slice(-MAX_SESSION_OUTPUT));
+    }
+
+    /**
+     * Explain a failed start, from the given reason plus everything rdbg printed
+     */
+    reportStartupFailure(session: vscode.DebugSession, reason: string): void {
+        if (this.reported.has(session.id)) {
+            return;
+        }
+        this.reported.add(session.id);
+
+        const output = `${this.sessionOutput.get(session.id) || ''}\n${reason}`;
+        this.error(session, `Failed to start: ${reason.trim()}`);
+
+        const failure = diagnoseRdbgOutput(output);
+        if (failure) {
+            this.showFailure(failure, session.configuration.cwd || session.workspaceFolder?.uri.fsPath);
+            return;
+        }
+
+        const firstLine = reason.trim().split('\n')[0] || 'no output';
+        vscode.window.showErrorMessage(`Ruby debugger failed to start: ${firstLine}`, 'Show Log').then(selection => {
+            if (selection === 'Show Log') {
+                this.channel.show();
+            }
+        });
+    }
+
+    forget(session: vscode.DebugSession): void {
+        this.sessionOutput.delete(session.id);
+        this.reported.delete(session.id);
+    }
+
+    private async showFailure(failure: RdbgFailure, directory: string | undefined): Promise<void> {
+        let selection: string | undefined;
+
+        switch (failure.kind) {
+            case 'missingDebugGem':
+                selection = await offerDebugGemInstall(
+                    'The debug gem (rdbg) is not installed for this project. Add `gem "debug"` to the Gemfile or install it.',
+                    directory,
+                    'Show Log'
+                );
+                break;
+            case 'portInUse':
+                selection = await vscode.window.showErrorMessage(
+                    `Debug port ${failure.port ?? ''} is already in use. Stop the other debugger or set a different debugPort in launch.json.`,
+                    'Open launch.json',
+                    'Show Log'
+                );
+                if (selection === 'Open launch.json') {
+                    vscode.commands.executeCommand('workbench.action.debug.configure');
+                }
+                break;
+            case 'rubyTooOld':
+                selection = await vscode.window.showErrorMessage(
+                    `rdbg needs Ruby ${failure.requiredVersion} or newer, but the project runs Ruby ${failure.rubyVersion}. Point rubymate.rubyPath at a newer Ruby.`,
+                    'Configure Ruby Path',
+                    'Show Log'
+                );
+                if (selection === 'Configure Ruby Path') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'rubymate.rubyPath');
+                }
+                break;
+        }
+
+        if (selection === 'Show Log') {
+            this.channel.show();
+        }
+    }
+
+    dispose(): void {
+        this.channel.dispose();
+    }
+}
+
+/**
+ * Log DAP traffic per session and report sessions that fail before the debugger is ready
+ */
+export class RubyDebugAdapterTrackerFactory implements vscode.DebugAdapterTrackerFactory {
+    private debugLog: RubyDebugLog;
+
+    constructor(debugLog: RubyDebugLog) {
+        this.debugLog = debugLog;
+    }
+
+    createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+        // Set once rdbg has answered the handshake; failures after that aren't startup failures
+        let initialized = false;
+
+        return {
+            onWillStartSession: () => this.debugLog.info(session, 'Session starting'),
+            onWillReceiveMessage: message => this.debugLog.message(session, '->', message),
+            onDidSendMessage: message => {
+                this.debugLog.message(session, '<-', message);
+
+                if (message.type === 'event' && message.event === 'initialized') {
+                    initialized = true;
+                } else if (message.type === 'event' && message.event === 'output' && message.body?.category === 'stderr') {
+                    this.debugLog.processOutput(session, 'stderr', message.body.output || '');
+                } else if (message.type === 'response' && !message.success &&
+                    (message.command === 'launch' || message.command === 'attach')) {
+                    this.debugLog.reportStartupFailure(session, message.message || `${message.command} failed`);
+                }
+            },
+            onError: error => {
+                this.debugLog.error(session, `Debug adapter error: ${error.message}`);
+                if (!initialized) {
+                    this.debugLog.reportStartupFailure(session, error.message);
+                }
+            },
+            onExit: (code, signal) => {
+                this.debugLog.info(session, `Debug adapter exited (code ${code}, signal ${signal})`);
+                if (!initialized && code) {
+                    this.debugLog.reportStartupFailure(session, `Debug adapter exited with code ${code}`);
+                }
+            },
+            onWillStopSession: () => {
+                this.debugLog.info(session, 'Session stopping');
+                this.debugLog.forget(session);
+            }
+        };
+    }
+}
+
+/**
+ * Show an error offering to install the debug gem: into the Gemfile for
+ * bundled projects, otherwise (or as well) with `gem install`
+ */
+async function offerDebugGemInstall(
+    message: string,
+    directory: string | undefined,
+    ...extraActions: string[]
+): Promise<string | undefined> {
+    const bundled = directory !== undefined && fs.existsSync(path.join(directory, 'Gemfile'));
+    const actions = bundled ? ['Add to Gemfile', 'Install Debug Gem'] : ['Install Debug Gem'];
+
+    const selection = await vscode.window.showErrorMessage(message, ...actions, ...extraActions);
+    if (selection === 'Add to Gemfile') {
+        runInTerminal('Install Debug Gem', 'bundle add debug --group "development, test"', directory);
+    } else if (selection === 'Install Debug Gem') {
+        runInTerminal('Install Debug Gem', 'gem install debug', directory);
+    }
+    return selection;
+}
+
+/**
+ * Project tasks from `rake -T`, through bin/rake or the bundle when there is one
+ */
+function listRakeTasks(directory: string): Promise<RakeTask[]> {
+    const cached = rakeTaskCache.get(directory);
+    if (cached) {
+        return cached;
+    }
+
+    const rubyPath = vscode.workspace.getConfiguration('rubymate').get<string>('rubyPath', 'ruby');
+    const args = fs.existsSync(path.join(directory, 'bin', 'rake')) ? [path.join('bin', 'rake'), '-T']
+        : fs.existsSync(path.join(directory, 'Gemfile')) ? ['-S', 'bundle', 'exec', 'rake', '-T']
+        : ['-S', 'rake', '-T'];
+
+    const tasks = runCommand(rubyPath, args, directory, RAKE_TASKS_TIMEOUT_MS).then(output => parseRakeTasks(output || ''));
+    rakeTaskCache.set(directory, tasks);
+    // A failed `rake -T` (syntax error in a .rake file) is retried next time
+    tasks.then(result => {
+        if (result.length === 0) {
+            rakeTaskCache.delete(directory);
+        }
+    });
+    return tasks;
+}
+
+/**
+ * bin/* files with a Ruby shebang, leaving out shell scripts like bin/dev
+ */
+function rubyBinstubs(directory: string): string[] {
+    const binDirectory = path.join(directory, 'bin');
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(binDirectory, { withFileTypes: true });
+    } catch {
+        return [];
+    }
+
+    return entries
+        .filter(entry => entry.isFile() && /^#!.*\bruby\b/.test(readFileIfExists(path.join(binDirectory, entry.name))?.split('\n', 1)[0] || ''))
+        .map(entry => entry.name)
+        .sort();
+}
+
+/**
+ * A bare executable name such as `rake`, rather than a script path
+ */
+function isExecutableName(program: string, directory: string): boolean {
+    return !/[\\/]/.test(program) && !program.endsWith('.rb') && !fs.existsSync(path.join(directory, program));
+}
+
+/**
+ * Nearest directory above a file with a Gemfile, not looking past the workspace folder
+ */
+function projectDirectoryOf(file: string, folder: string | undefined): string {
+    for (let directory = path.dirname(file); ; directory = path.dirname(directory)) {
+        if (fs.existsSync(path.join(directory, 'Gemfile'))) {
+            return directory;
+        }
+        if (directory === folder || path.dirname(directory) === directory) {
+            return folder || path.dirname(file);
+        }
+    }
+}
+
+function readFileIfExists(file: string): string | undefined {
+    try {
+        return fs.readFileSync(file, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * stdout of a short-lived command, or undefined when it fails
+ */
+function runCommand(command: string, args: string[], cwd: string, timeout = RDBG_PROBE_TIMEOUT_MS): Promise<string | undefined> {
+    return new Promise(resolve => {
+        execFile(command, args, { cwd, timeout, maxBuffer: 8 * 1024 * 1024 }, (error, stdout) => {
+            resolve(error ? undefined : stdout);
+        });
+    });
+}
+
+/**
+ * Syntax error of a Ruby expression from `ruby -c`; undefined when it parses or Ruby can't be run
+ */
+function rubySyntaxError(rubyPath: string, expression: string): Promise<string | undefined> {
+    return new Promise(resolve => {
+        const child = execFile(rubyPath, ['-c', '-'], { timeout: SYNTAX_CHECK_TIMEOUT_MS }, (error, _stdout, stderr) => {
+            resolve(error && typeof error.code === 'number' ? syntaxErrorMessage(stderr) : undefined);
+        });
+        child.stdin?.end(syntaxCheckSource(expression));
+    });
+}
+
+function runInTerminal(name: string, command: string, cwd: string | undefined): void {
+    const terminal = vscode.window.createTerminal({ name, cwd });
+    terminal.sendText(command);
+    terminal.show();
 }
 
 /**
@@ -288,13 +917,99 @@ export class RubyDebugAdapterDescriptorFactory implements vscode.DebugAdapterDes
  */
 export class DebugSessionManager {
     private activeSessions = new Map<string, vscode.DebugSession>();
+    // Exception filters each session last enabled in the Breakpoints view
+    private exceptionFilters = new Map<string, string[]>();
+    // Exception classes each session has catch breakpoints for
+    private caughtClasses = new Map<string, string[]>();
+    // Console output collected while a session lists its breakpoints
+    private breakpointListings = new Map<string, string[]>();
     private outputChannel: vscode.OutputChannel;
+    private workspaceState: vscode.Memento | undefined;
+    private debugAdapterFactory: RubyDebugAdapterDescriptorFactory | undefined;
+    private railsInspector: RailsInspectorProvider | undefined;
+    // Breakpoint expression -> syntax error from `ruby -c`, or null when it parses
+    private syntaxErrors = new Map<string, string | null>();
 
-    constructor(outputChannel: vscode.OutputChannel) {
+    constructor(outputChannel: vscode.OutputChannel, debugAdapterFactory?: RubyDebugAdapterDescriptorFactory) {
         this.outputChannel = outputChannel;
+        this.debugAdapterFactory = debugAdapterFactory;
     }
 
     register(context: vscode.ExtensionContext): void {
+        this.workspaceState = context.workspaceState;
+
+        // Swap rdbg's exception filters for RubyMate's and apply them in every session
+        context.subscriptions.push(
+            vscode.debug.registerDebugAdapterTrackerFactory('ruby', {
+                createDebugAdapterTracker: session => this.createExceptionBreakpointTracker(session)
+            })
+        );
+
+        // Check breakpoint conditions before each session starts and pass them to rdbg
+        context.subscriptions.push(
+            vscode.debug.registerDebugAdapterTrackerFactory('ruby', {
+                createDebugAdapterTracker: session => this.createBreakpointConditionTracker(session)
+            }),
+            vscode.debug.onDidChangeBreakpoints(event => {
+                this.checkBreakpointExpressions([...event.added, ...event.changed]);
+            })
+        );
+
+        // Translate file paths for debuggees in containers and VMs
+        context.subscriptions.push(
+            vscode.debug.registerDebugAdapterTrackerFactory('ruby', {
+                createDebugAdapterTracker: session => this.createPathMappingTracker(session)
+            })
+        );
+
+        // Stopping a compose launch stops the program too: ending `docker compose exec`
+        // leaves it running in the container, and rdbg only exits when asked to
+        context.subscriptions.push(
+            vscode.debug.registerDebugAdapterTrackerFactory('ruby', {
+                createDebugAdapterTracker: session => {
+                    const config = session.configuration as DebugConfiguration;
+                    if (config.request !== 'launch' || !config.composeService) {
+                        return undefined;
+                    }
+                    return {
+                        onWillReceiveMessage: message => {
+                            if (message.type === 'request' && message.command === 'disconnect') {
+                                message.arguments = { ...message.arguments, terminateDebuggee: message.arguments?.terminateDebuggee ?? true };
+                            }
+                        }
+                    };
+                }
+            })
+        );
+
+        // Rake tasks are listed again after task definitions change
+        const rakeWatcher = vscode.workspace.createFileSystemWatcher('**/{Rakefile,*.rake}');
+        const clearRakeTasks = () => rakeTaskCache.clear();
+        rakeWatcher.onDidChange(clearRakeTasks);
+        rakeWatcher.onDidCreate(clearRakeTasks);
+        rakeWatcher.onDidDelete(clearRakeTasks);
+        context.subscriptions.push(rakeWatcher);
+
+        // Rails Inspector view, refreshed wherever a session pauses
+        this.railsInspector = new RailsInspectorProvider(this.outputChannel);
+        context.subscriptions.push(
+            this.railsInspector,
+            vscode.debug.registerDebugAdapterTrackerFactory('ruby', {
+                createDebugAdapterTracker: session => ({
+                    onDidSendMessage: message => {
+                        if (message.type !== 'event') {
+                            return;
+                        }
+                        if (message.event === 'stopped' && message.body?.threadId !== undefined) {
+                            this.railsInspector?.onStopped(session, message.body.threadId);
+                        } else if (message.event === 'continued') {
+                            this.railsInspector?.onContinued(session);
+                        }
+                    }
+                })
+            })
+        );
+
         // Track debug sessions
         context.subscriptions.push(
             vscode.debug.onDidStartDebugSession(session => {
@@ -311,6 +1026,10 @@ export class DebugSessionManager {
                 if (session.type === 'ruby') {
                     this.outputChannel.appendLine(`Debug session terminated: ${session.name}`);
                     this.activeSessions.delete(session.id);
+                    this.exceptionFilters.delete(session.id);
+                    this.caughtClasses.delete(session.id);
+                    this.breakpointListings.delete(session.id);
+                    this.railsInspector?.onTerminated(session);
                 }
             })
         );
@@ -324,6 +1043,223 @@ export class DebugSessionManager {
         vscode.window.setStatusBarMessage('$(debug) Ruby debugger attached', 3000);
     }
 
+    /**
+     * Rewrite exception breakpoint messages between VS Code and rdbg
+     *
+     * Tracked messages are the ones passed on, so changing them here changes
+     * what the Breakpoints view shows and what rdbg receives.
+     */
+    private createExceptionBreakpointTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+        return {
+            onDidSendMessage: message => {
+                if (message.type === 'response' && message.command === 'initialize' && message.body) {
+                    message.body.exceptionBreakpointFilters = exceptionBreakpointFilters(this.getExceptionClasses());
+                    message.body.supportsExceptionFilterOptions = false;
+                } else if (message.type === 'event' && message.event === 'output') {
+                    this.breakpointListings.get(session.id)?.push(String(message.body?.output ?? ''));
+                }
+            },
+            onWillReceiveMessage: message => {
+                if (message.type !== 'request' || message.command !== 'setExceptionBreakpoints') {
+                    return;
+                }
+
+                const enabled: string[] = message.arguments?.filters || [];
+                message.arguments = { filters: rdbgExceptionFilters(enabled) };
+                this.exceptionFilters.set(session.id, enabled);
+
+                // Sent after the rewritten request, which reaches rdbg first
+                this.updateCatchBreakpoints(session, caughtExceptionClasses(enabled, this.getExceptionClasses()), [postmortemCommand(enabled)]);
+            }
+        };
+    }
+
+    /**
+     * Bring a session's catch breakpoints to the given classes: delete the ones
+     * no longer wanted, add the missing ones, then run the other commands
+     */
+    private async updateCatchBreakpoints(session: vscode.DebugSession, classes: string[], commands: string[] = []): Promise<void> {
+        const previous = this.caughtClasses.get(session.id) || [];
+        this.caughtClasses.set(session.id, classes);
+
+        const removed = previous.filter(className => !classes.includes(className));
+        const added = classes.filter(className => !previous.includes(className));
+        const deletions = removed.length > 0
+            ? catchBreakpointNumbers(await this.listBreakpoints(session), removed).map(number => `delete ${number}`)
+            : [];
+
+        this.sendDebuggerCommands(session, [...deletions, ...added.map(className => `catch ${className}`), ...commands]);
+    }
+
+    /**
+     * rdbg's breakpoint list, read from the console output of `info breakpoints`
+     */
+    private listBreakpoints(session: vscode.DebugSession): Promise<string> {
+        return new Promise(resolve => {
+            const output: string[] = [];
+            this.breakpointListings.set(session.id, output);
+            this.sendDebuggerCommands(session, ['info breakpoints']);
+            setTimeout(() => {
+                if (this.breakpointListings.get(session.id) === output) {
+                    this.breakpointListings.delete(session.id);
+                }
+                resolve(output.join(''));
+            }, BREAKPOINT_LIST_WAIT_MS);
+        });
+    }
+
+    /**
+     * Rewrite setBreakpoints requests into conditions rdbg evaluates
+     *
+     * Breakpoints whose condition or log message isn't valid Ruby are left out
+     * of the request and reported back as unverified with the reason. Expressions
+     * added during the session go through unchecked until their `ruby -c` finishes.
+     */
+    private async createBreakpointConditionTracker(session: vscode.DebugSession): Promise<vscode.DebugAdapterTracker> {
+        await this.checkBreakpointExpressions(vscode.debug.breakpoints);
+
+        // Only rdbg started by RubyMate, locally or through the compose exec command,
+        // has its stderr shown in the debug console
+        const printsLogMessages = (session.configuration as DebugConfiguration).request === 'launch';
+
+        // Request seq -> breakpoints left out of it
+        const rejected = new Map<number, Array<{ index: number; line: number; message: string }>>();
+
+        return {
+            onDidSendMessage: message => {
+                if (message.type === 'response' && message.command === 'initialize' && message.body) {
+                    message.body.supportsHitConditionalBreakpoints = true;
+                    message.body.supportsLogPoints = printsLogMessages;
+                    return;
+                }
+
+                if (message.type !== 'response' || message.command !== 'setBreakpoints') {
+                    return;
+                }
+                const problems = rejected.get(message.request_seq);
+                rejected.delete(message.request_seq);
+                if (!problems || !Array.isArray(message.body?.breakpoints)) {
+                    return;
+                }
+
+                for (const problem of problems) {
+                    message.body.breakpoints.splice(problem.index, 0, {
+                        verified: false,
+                        line: problem.line,
+                        message: problem.message
+                    });
+                }
+            },
+            onWillReceiveMessage: message => {
+                if (message.type !== 'request' || message.command !== 'setBreakpoints' || !message.arguments) {
+                    return;
+                }
+
+                const file = message.arguments.source?.path;
+                const problems: Array<{ index: number; line: number; message: string }> = [];
+                const breakpoints: SourceBreakpointRequest[] = [];
+
+                (message.arguments.breakpoints || []).forEach((breakpoint: SourceBreakpointRequest, index: number) => {
+                    const problem = breakpoint.logMessage && !printsLogMessages
+                        ? 'Logpoints print to the program\'s stderr, which only shows for sessions RubyMate launches'
+                        : breakpointProblem(breakpoint, expression => this.syntaxErrors.get(expression) ?? undefined);
+                    if (problem) {
+                        problems.push({ index, line: breakpoint.line, message: problem });
+                        return;
+                    }
+
+                    const counterKey = `${session.id}:${file}:${breakpoint.line}:${breakpoint.hitCondition || ''}`;
+                    const condition = rdbgBreakpointCondition(breakpoint, counterKey);
+                    breakpoints.push(condition ? { line: breakpoint.line, condition } : { line: breakpoint.line });
+                });
+
+                message.arguments.breakpoints = breakpoints;
+                if (Array.isArray(message.arguments.lines)) {
+                    message.arguments.lines = breakpoints.map(breakpoint => breakpoint.line);
+                }
+                if (problems.length > 0) {
+                    rejected.set(message.seq, problems);
+                    this.outputChannel.appendLine(
+                        `Breakpoints not set in ${file}: ${problems.map(problem => `line ${problem.line}: ${problem.message}`).join('; ')}`
+                    );
+                }
+            }
+        };
+    }
+
+    /**
+     * Syntax check the conditions and log message expressions of Ruby breakpoints ahead of time
+     */
+    private async checkBreakpointExpressions(breakpoints: readonly vscode.Breakpoint[]): Promise<void> {
+        const expressions = new Set<string>();
+        for (const breakpoint of breakpoints) {
+            if (!(breakpoint instanceof vscode.SourceBreakpoint) || !breakpoint.location.uri.fsPath.endsWith('.rb')) {
+                continue;
+            }
+            if (breakpoint.condition?.trim()) {
+                expressions.add(breakpoint.condition);
+            }
+            logMessageExpressions(breakpoint.logMessage || '').forEach(expression => expressions.add(expression));
+        }
+
+        const rubyPath = vscode.workspace.getConfiguration('rubymate').get<string>('rubyPath', 'ruby');
+        await Promise.all([...expressions]
+            .filter(expression => !this.syntaxErrors.has(expression))
+            .map(async expression => {
+                this.syntaxErrors.set(expression, (await rubySyntaxError(rubyPath, expression)) ?? null);
+            }));
+    }
+
+    /**
+     * Map paths in breakpoints sent to the debuggee and in stack frames and sources coming back
+     */
+    private createPathMappingTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker | undefined {
+        const config = session.configuration as DebugConfiguration;
+        const mapper = new PathMapper(
+            config.pathMappings || {},
+            config.cwd || session.workspaceFolder?.uri.fsPath || process.cwd()
+        );
+        if (mapper.isEmpty) {
+            return undefined;
+        }
+
+        this.outputChannel.appendLine(`Mapping paths for ${session.name}: ${JSON.stringify(config.pathMappings)}`);
+        return {
+            onWillReceiveMessage: message => mapSourcePaths(message, filePath => mapper.toRemote(filePath)),
+            onDidSendMessage: message => mapSourcePaths(message, filePath => mapper.toLocal(filePath))
+        };
+    }
+
+    /**
+     * Run rdbg debugger commands through the debug console (`,command`)
+     */
+    private sendDebuggerCommands(session: vscode.DebugSession, commands: string[]): void {
+        if (commands.length === 0) {
+            return;
+        }
+
+        this.outputChannel.appendLine(`Sending debugger commands to ${session.name}: ${commands.join('; ')}`);
+        Promise.resolve(session.customRequest('evaluate', {
+            expression: `,${commands.join(';;')}`,
+            context: 'repl'
+        })).catch(error => {
+            this.outputChannel.appendLine(`Failed to send debugger commands: ${error}`);
+        });
+    }
+
+    private updateRunningCatchBreakpoints(): void {
+        for (const [sessionId, enabled] of this.exceptionFilters) {
+            const session = this.activeSessions.get(sessionId);
+            if (session) {
+                this.updateCatchBreakpoints(session, caughtExceptionClasses(enabled, this.getExceptionClasses()));
+            }
+        }
+    }
+
+    private getExceptionClasses(): string[] {
+        return this.workspaceState?.get<string[]>(EXCEPTION_CLASSES_KEY, []) || [];
+    }
+
     private registerDebugCommands(context: vscode.ExtensionContext): void {
         // Add exception breakpoint
         context.subscriptions.push(
@@ -331,15 +1267,114 @@ export class DebugSessionManager {
                 const exceptionType = await vscode.window.showInputBox({
                     prompt: 'Enter exception class name (e.g., StandardError)',
                     placeHolder: 'StandardError',
-                    value: 'StandardError'
+                    value: 'StandardError',
+                    validateInput: value => isExceptionClassName(value.trim())
+                        ? undefined
+                        : 'Enter a Ruby class name, e.g. ActiveRecord::RecordNotFound'
                 });
 
-                if (exceptionType) {
-                    vscode.window.showInformationMessage(
-                        `Exception breakpoint for ${exceptionType} will be set when debugging starts`
-                    );
-                    // Note: Actual implementation requires DAP extension
+                if (!exceptionType) {
+                    return;
+                }
+
+                const className = exceptionType.trim();
+                const classes = this.getExceptionClasses();
+                if (!classes.includes(className)) {
+                    await context.workspaceState.update(EXCEPTION_CLASSES_KEY, [...classes, className]);
                 }
+
+                // Sessions already running pick it up now if they break on exception classes
+                this.updateRunningCatchBreakpoints();
+
+                vscode.window.showInformationMessage(
+                    `Exception breakpoint added for ${className} (Breakpoints view: "Exception Classes")`
+                );
+            })
+        );
+
+        // Remove exception breakpoints
+        context.subscriptions.push(
+            vscode.commands.registerCommand('rubymate.removeExceptionBreakpoint', async () => {
+                const classes = this.getExceptionClasses();
+                if (classes.length === 0) {
+                    vscode.window.showInformationMessage('No exception breakpoints in this workspace');
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(classes, {
+                    placeHolder: 'Exception classes to stop breaking on',
+                    canPickMany: true
+                });
+                if (!selected || selected.length === 0) {
+                    return;
+                }
+
+                await context.workspaceState.update(
+                    EXCEPTION_CLASSES_KEY,
+                    classes.filter(className => !selected.includes(className))
+                );
+                this.updateRunningCatchBreakpoints();
+
+                vscode.window.showInformationMessage(`Removed exception breakpoint(s) for ${selected.join(', ')}`);
+            })
+        );
+
+        // Attach to a process listening on an rdbg socket
+        context.subscriptions.push(
+            vscode.commands.registerCommand('rubymate.attachToProcess', async () => {
+                const folder = this.currentFolder();
+                const selected = await this.pickRubyProcess(folder);
+                if (!selected) {
+                    return;
+                }
+
+                const config: DebugConfiguration = {
+                    type: 'ruby',
+                    request: 'attach',
+                    name: `Attach to ${selected.sessionName || selected.programName || 'Ruby'} (${selected.pid ?? 'unknown PID'})`,
+                    debugSocket: selected.path,
+                    cwd: folder?.uri.fsPath
+                };
+                await vscode.debug.startDebugging(folder, config);
+            })
+        );
+
+        // For `"debugSocket": "${command:rubymate.pickRubyProcess}"` in launch.json
+        context.subscriptions.push(
+            vscode.commands.registerCommand('rubymate.pickRubyProcess', async () => {
+                const selected = await this.pickRubyProcess(this.currentFolder());
+                return selected?.path;
+            })
+        );
+
+        // For `${input:rakeTask}` / `${command:rubymate.pickRakeTask}` in launch.json
+        context.subscriptions.push(
+            vscode.commands.registerCommand('rubymate.pickRakeTask', async () => {
+                const folder = this.currentFolder();
+                if (!folder) {
+                    return undefined;
+                }
+
+                const tasks = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Window, title: 'Listing Rake tasks' },
+                    () => listRakeTasks(folder.uri.fsPath)
+                );
+                if (tasks.length === 0) {
+                    return vscode.window.showInputBox({ prompt: 'Rake task to debug (`rake -T` listed none)' });
+                }
+
+                const selected = await vscode.window.showQuickPick(
+                    tasks.map(task => ({ label: task.name, description: task.description })),
+                    { placeHolder: 'Rake task to debug', matchOnDescription: true }
+                );
+                return selected?.label;
+            })
+        );
+
+        // Write an attach configuration for a Docker Compose service into launch.json
+        context.subscriptions.push(
+            vscode.commands.registerCommand('rubymate.addComposeAttachConfiguration', async () => {
+                await this.addComposeAttachConfiguration(this.currentFolder());
             })
         );
 
@@ -389,13 +1424,161 @@ export class DebugSessionManager {
                     };
 
                     await vscode.debug.startDebugging(undefined, config);
+                } else if (currentFile.endsWith('_test.rb')) {
+                    // Without a test around the cursor, the whole file runs
+                    const test = minitestTestAt(editor.document.getText(), editor.selection.active.line);
+                    const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri) || vscode.workspace.workspaceFolders?.[0];
+                    const projectDirectory = projectDirectoryOf(currentFile, folder?.uri.fsPath);
+                    const config: DebugConfiguration = {
+                        type: 'ruby',
+                        request: 'launch',
+                        name: test ? `Debug Minitest: ${test.name}` : `Debug Minitest: ${path.basename(currentFile)}`,
+                        program: currentFile,
+                        args: test ? ['--name', test.name] : [],
+                        cwd: projectDirectory,
+                        env: { RUBYOPT: [process.env.RUBYOPT, '-Itest'].filter(Boolean).join(' ') },
+                        useBundler: true
+                    };
+
+                    await vscode.debug.startDebugging(folder, config);
                 } else {
-                    vscode.window.showWarningMessage('Current file is not an RSpec file');
+                    vscode.window.showWarningMessage('Current file is not an RSpec or Minitest file');
                 }
             })
         );
     }
 
+    private currentFolder(): vscode.WorkspaceFolder | undefined {
+        const editor = vscode.window.activeTextEditor;
+        return (editor && vscode.workspace.getWorkspaceFolder(editor.document.uri)) || vscode.workspace.workspaceFolders?.[0];
+    }
+
+    /**
+     * List the processes waiting on rdbg sockets with their PID and command line, and let the user pick one
+     */
+    private async pickRubyProcess(folder: vscode.WorkspaceFolder | undefined): Promise<RdbgSocket | undefined> {
+        const directory = folder?.uri.fsPath || process.cwd();
+        const rdbg = await this.debugAdapterFactory?.rdbgFor(directory);
+        if (!rdbg) {
+            return undefined;
+        }
+
+        // Older debug gems only have list-socks, which prints the socket paths alone
+        const listing = await runCommand(rdbg.command, [...rdbg.args, '--util=list-socks-verbose'], directory)
+            ?? await runCommand(rdbg.command, [...rdbg.args, '--util=list-socks'], directory);
+        const sockets = parseRdbgSocketList(listing || '');
+        if (sockets.length === 0) {
+            vscode.window.showInformationMessage(
+                'No Ruby processes are waiting for a debugger. Start one with `rdbg --open` or RUBY_DEBUG_OPEN=true, ' +
+                'e.g. RUBY_DEBUG_OPEN=true bin/dev'
+            );
+            return undefined;
+        }
+
+        const picks = await Promise.all(sockets.map(async socket => {
+            const commandLine = socket.pid !== undefined && process.platform !== 'win32'
+                ? (await runCommand('ps', ['-o', 'args=', '-p', String(socket.pid)], directory))?.trim()
+                : undefined;
+            return {
+                label: `$(debug-alt) ${socket.pid ?? '?'}${socket.sessionName ? ` · ${socket.sessionName}` : ''}`,
+                description: commandLine || socket.programName,
+                detail: socket.path,
+                socket
+            };
+        }));
+
+        const selected = await vscode.window.showQuickPick(picks, {
+            placeHolder: 'Ruby process to attach to',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        return selected?.socket;
+    }
+
+    private async addComposeAttachConfiguration(folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+        if (!folder) {
+            vscode.window.showWarningMessage('Open a folder with a docker-compose.yml to add an attach configuration');
+            return;
+        }
+
+        const compose = readComposeServices(folder.uri.fsPath, readFileIfExists);
+        if (!compose || compose.services.length === 0) {
+            vscode.window.showInformationMessage(`No Docker Compose services found in ${folder.name}`);
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            compose.services.map(service => ({
+                label: service.name,
+                description: [service.image, ...service.ports.map(port => `${port.published ?? port.target}->${port.target}`)]
+                    .filter(Boolean)
+                    .join('  '),
+                detail: service.mounts.map(mount => `${vscode.workspace.asRelativePath(mount.source)} -> ${mount.target}`).join(', ') || 'No bind mounts',
+                service
+            })),
+            { placeHolder: `Service in ${path.basename(compose.file)} to attach to` }
+        );
+        if (!selected) {
+            return;
+        }
+
+        const remotePort = await this.composeDebugPort(selected.service);
+        if (remotePort === undefined) {
+            return;
+        }
+
+        // Keep the configuration portable by writing mounts inside the folder relative to it
+        const pathMappings: PathMappings = {};
+        for (const [local, remote] of Object.entries(composeServicePathMappings(selected.service))) {
+            const relative = path.relative(folder.uri.fsPath, local);
+            const portable = relative === '' ? '${workspaceFolder}'
+                : relative.startsWith('..') || path.isAbsolute(relative) ? local
+                : `\${workspaceFolder}/${relative.split(path.sep).join('/')}`;
+            pathMappings[portable] = remote;
+        }
+
+        const config: DebugConfiguration = {
+            type: 'ruby',
+            request: 'attach',
+            name: `Attach to ${selected.service.name} (Docker Compose)`,
+            remoteHost: 'localhost',
+            remotePort,
+            cwd: '${workspaceFolder}',
+            pathMappings
+        };
+
+        const launch = vscode.workspace.getConfiguration('launch', folder.uri);
+        const configurations = launch.get<vscode.DebugConfiguration[]>('configurations', []);
+        await launch.update(
+            'configurations',
+            [...configurations.filter(existing => existing.name !== config.name), config],
+            vscode.ConfigurationTarget.WorkspaceFolder
+        );
+
+        const action = await vscode.window.showInformationMessage(`Added "${config.name}" to launch.json`, 'Start Debugging');
+        if (action === 'Start Debugging') {
+            await vscode.debug.startDebugging(folder, config.name);
+        }
+    }
+
+    /**
+     * Host port that reaches rdbg in a compose service, asking when the compose file doesn't say
+     */
+    private async composeDebugPort(service: ComposeService): Promise<number | undefined> {
+        const debugPort = composeServiceDebugPort(service);
+        if (debugPort.published !== undefined) {
+            return debugPort.published;
+        }
+
+        const answer = await vscode.window.showInputBox({
+            prompt: `Host port that reaches rdbg in ${service.name}. The service must run with ` +
+                `RUBY_DEBUG_OPEN=true RUBY_DEBUG_HOST=0.0.0.0 RUBY_DEBUG_PORT=<port> and publish that port`,
+            value: String(debugPort.target ?? 12345),
+            validateInput: value => /^\d+$/.test(value.trim()) ? undefined : 'Enter a port number'
+        });
+        return answer !== undefined ? parseInt(answer, 10) : undefined;
+    }
+
     dispose(): void {
         this.activeSessions.clear();
     }
@@ -21,12 +21,15 @@ import { RubyCallHierarchyProvider } from './providers/callHierarchyProvider';
 import { RubyFormattingProvider } from './providers/rubyFormattingProvider';
 import { RubyAutoEndProvider, RubyAutoEndOnEnterProvider } from './providers/rubyAutoEndProvider';
 import { EnhancedTemplateCompletionProvider } from './providers/enhancedTemplateCompletionProvider';
+import { RouteHelperDiagnostics, RouteHelperSignatureHelpProvider, ROUTE_HELPER_LANGUAGES } from './providers/routeHelperProvider';
 import { EnhancedTemplateDefinitionProvider } from './providers/enhancedTemplateDefinitionProvider';
 import { TemplateHoverProvider } from './providers/templateDefinitionProvider';
+import { CucumberStepDefinitionProvider } from './providers/cucumberStepDefinitionProvider';
 import { ConfigValidator } from './configValidator';
 import { StatusBarManager, ExtensionState } from './statusBarManager';
 import { TelemetryManager } from './telemetryManager';
 import { RatingReminderManager } from './ratingReminder';
+import { RouteSource } from './rails/routeSource';
 
 // Lazy-loaded imports (loaded on-demand)
 // import { RailsCommands } from './commands/rails'; // Lazy loaded
@@ -38,6 +41,7 @@ let symbolIndexer: AdvancedRubyIndexer;
 let navigationCommands: NavigationCommands;
 let railsCommands: any; // Lazy loaded
 let debugSessionManager: any; // Lazy loaded
+let debugConfigProvider: any; // Lazy loaded
 let railsStatusBar: vscode.StatusBarItem;
 let testExplorer: any; // Lazy loaded
 let railsCommandsLoaded = false;
@@ -62,6 +66,9 @@ let schemaParser: SchemaParser;
 let nPlusOneDetector: NPlusOneDetector;
 let databaseCommands: DatabaseCommands;
 
+// Rails routes, shared by Rails commands, route info and template completion
+let routeSource: RouteSource;
+
 // Intelligent indexing
 let intelligentIndexer: IntelligentIndexer;
 let intelligentNavigationCommands: IntelligentNavigationCommands;
@@ -127,6 +134,12 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    routeSource = new RouteSource({
+        rubyPath: () => vscode.workspace.getConfiguration('rubymate').get<string>('rubyPath', 'ruby'),
+        log: message => outputChannel.appendLine(`[ROUTES] ${message}`)
+    });
+    context.subscriptions.push(routeSource);
+
     // ========== PHASE 1: Core Features (Immediate) ==========
     // Initialize advanced symbol indexer with persistent caching
     symbolIndexer = new AdvancedRubyIndexer(context, outputChannel);
@@ -295,7 +308,7 @@ async function initializeDatabaseFeatures(context: vscode.ExtensionContext): Pro
 async function initializeIntelligentIndexing(context: vscode.ExtensionContext): Promise<void> {
     try {
         // Initialize intelligent indexer
-        intelligentIndexer = new IntelligentIndexer(context, schemaParser, outputChannel);
+        intelligentIndexer = new IntelligentIndexer(context, schemaParser, outputChannel, routeSource);
         await intelligentIndexer.initialize();
 
         // Initialize navigation commands
@@ -416,9 +429,11 @@ async function loadRailsCommandsAsync(context: vscode.ExtensionContext): Promise
 
     outputChannel.appendLine('Loading Rails commands...');
     const { RailsCommands } = await import('./commands/rails');
-    railsCommands = new RailsCommands(outputChannel);
+    railsCommands = new RailsCommands(outputChannel, routeSource);
     railsCommands.registerCommands(context);
     railsCommandsLoaded = true;
+    // Shows the Rails Routes view
+    await vscode.commands.executeCommand('setContext', 'rubymate.railsProject', true);
     outputChannel.appendLine('Rails commands loaded');
 }
 
@@ -429,7 +444,7 @@ async function ensureTestExplorerLoaded(context: vscode.ExtensionContext): Promi
 
     outputChannel.appendLine('Loading test explorer...');
     const { RubyTestExplorer } = await import('./testExplorer');
-    testExplorer = new RubyTestExplorer(outputChannel);
+    testExplorer = new RubyTestExplorer(outputChannel, context);
     context.subscriptions.push(testExplorer);
     testExplorerLoaded = true;
     outputChannel.appendLine('Test explorer loaded');
@@ -444,23 +459,35 @@ async function ensureDebugProvidersLoaded(context: vscode.ExtensionContext): Pro
     const {
         RubyDebugConfigurationProvider,
         RubyDebugAdapterDescriptorFactory,
+        RubyDebugAdapterTrackerFactory,
+        RubyDebugLog,
         DebugSessionManager
     } = await import('./debugAdapter');
 
     // Debug configuration provider
-    const debugConfigProvider = new RubyDebugConfigurationProvider(outputChannel);
+    debugConfigProvider = new RubyDebugConfigurationProvider(outputChannel);
     context.subscriptions.push(
         vscode.debug.registerDebugConfigurationProvider('ruby', debugConfigProvider)
     );
 
+    // Per-session log of rdbg output and DAP traffic
+    const debugLog = new RubyDebugLog();
+    context.subscriptions.push(debugLog);
+
     // Debug adapter descriptor factory
-    const debugAdapterFactory = new RubyDebugAdapterDescriptorFactory(outputChannel);
+    const debugAdapterFactory = new RubyDebugAdapterDescriptorFactory(outputChannel, debugLog);
     context.subscriptions.push(
-        vscode.debug.registerDebugAdapterDescriptorFactory('ruby', debugAdapterFactory)
+        vscode.debug.registerDebugAdapterDescriptorFactory('ruby', debugAdapterFactory),
+        debugAdapterFactory
+    );
+
+    // Debug adapter tracker for the log and startup failures
+    context.subscriptions.push(
+        vscode.debug.registerDebugAdapterTrackerFactory('ruby', new RubyDebugAdapterTrackerFactory(debugLog))
     );
 
     // Debug session manager
-    debugSessionManager = new DebugSessionManager(outputChannel);
+    debugSessionManager = new DebugSessionManager(outputChannel, debugAdapterFactory);
     debugSessionManager.register(context);
 
     debugProvidersLoaded = true;
@@ -570,7 +597,7 @@ function registerProviders(context: vscode.ExtensionContext) {
 
     // Enhanced template completion provider
     // Provides: Rails helpers, path helpers from routes, instance vars, I18n keys
-    const templateCompletionProvider = new EnhancedTemplateCompletionProvider();
+    const templateCompletionProvider = new EnhancedTemplateCompletionProvider(routeSource);
     for (const selector of templateLanguages) {
         context.subscriptions.push(
             vscode.languages.registerCompletionItemProvider(
@@ -598,14 +625,36 @@ function registerProviders(context: vscode.ExtensionContext) {
         );
     }
 
+    // Route helpers: segment hints for user_path( and warnings on unknown helpers or wrong arguments
+    const routeHelperSignatureProvider = new RouteHelperSignatureHelpProvider(routeSource);
+    for (const language of ROUTE_HELPER_LANGUAGES) {
+        context.subscriptions.push(
+            vscode.languages.registerSignatureHelpProvider(
+                { scheme: 'file', language },
+                routeHelperSignatureProvider,
+                '(', ','
+            )
+        );
+    }
+    context.subscriptions.push(new RouteHelperDiagnostics(routeSource, symbolIndexer));
+
     outputChannel.appendLine('✓ Enhanced template intelligence registered (Professional IDE-level)');
     outputChannel.appendLine('  - Rails helpers completion (60+ helpers)');
     outputChannel.appendLine('  - Path helpers from routes (user_path, edit_user_path, etc.)');
+    outputChannel.appendLine('  - Route helper parameter hints and argument checks');
     outputChannel.appendLine('  - Instance variable completion from controllers');
     outputChannel.appendLine('  - Go to definition: render @object, render "partial", custom helpers');
     outputChannel.appendLine('  - I18n translation key completion');
     outputChannel.appendLine('  - Smart partial resolution (layouts, files, model-based)');
 
+    // Cucumber: go to definition from a .feature step to its Ruby step definition
+    context.subscriptions.push(
+        vscode.languages.registerDefinitionProvider(
+            { scheme: 'file', pattern: '**/*.feature' },
+            new CucumberStepDefinitionProvider()
+        )
+    );
+
     // Format on save (if enabled)
     context.subscriptions.push(
         vscode.workspace.onWillSaveTextDocument(async (event) => {
@@ -673,6 +722,21 @@ function registerDebugProvidersLazy(context: vscode.ExtensionContext) {
         vscode.debug.registerDebugAdapterDescriptorFactory('ruby', lazyDebugAdapterFactory)
     );
 
+    // Configurations built from the project, listed under "Ruby" in the Run and Debug view
+    const lazyDynamicConfigProvider: vscode.DebugConfigurationProvider = {
+        async provideDebugConfigurations(folder, token) {
+            await ensureDebugProvidersLoaded(context);
+            return debugConfigProvider.provideDynamicDebugConfigurations(folder, token);
+        }
+    };
+    context.subscriptions.push(
+        vscode.debug.registerDebugConfigurationProvider(
+            'ruby',
+            lazyDynamicConfigProvider,
+            vscode.DebugConfigurationProviderTriggerKind.Dynamic
+        )
+    );
+
     outputChannel.appendLine('Debug providers registered (lazy loading enabled)');
 }
 
@@ -738,6 +802,24 @@ function registerCommands(context: vscode.ExtensionContext) {
         terminal.show();
     });
 
+    // Load SimpleCov results (e.g. downloaded from CI) into the Test Coverage view
+    const loadCoverageCommand = vscode.commands.registerCommand('rubymate.loadCoverage', async () => {
+        await ensureTestExplorerLoaded(context);
+        await testExplorer.loadCoverageFromFile();
+    });
+
+    // Rerun tests that failed last time, from the persisted test history
+    const rerunFailedTestsCommand = vscode.commands.registerCommand('rubymate.rerunFailedTests', async () => {
+        await ensureTestExplorerLoaded(context);
+        await testExplorer.rerunFailedTests();
+    });
+
+    // Report the slowest tests from the persisted test history
+    const showSlowestTestsCommand = vscode.commands.registerCommand('rubymate.showSlowestTests', async () => {
+        await ensureTestExplorerLoaded(context);
+        await testExplorer.showSlowestTests();
+    });
+
     // Start debugger command
     const startDebuggerCommand = vscode.commands.registerCommand('rubymate.startDebugger', async () => {
         const editor = vscode.window.activeTextEditor;
@@ -847,10 +929,7 @@ function registerCommands(context: vscode.ExtensionContext) {
             { label: '$(beaker) Navigate to Spec', command: 'rubymate.rails.navigateToSpec' },
             { label: '$(list-tree) Show Routes', command: 'rubymate.rails.showRoutes' },
             { label: '$(search) Go to Route', command: 'rubymate.rails.goToRoute' },
-            { label: '$(add) Generate Model', command: 'rubymate.rails.generateModel' },
-            { label: '$(add) Generate Controller', command: 'rubymate.rails.generateController' },
-            { label: '$(add) Generate Migration', command: 'rubymate.rails.generateMigration' },
-            { label: '$(add) Generate Scaffold', command: 'rubymate.rails.generateScaffold' },
+            { label: '$(add) Run Generator...', command: 'rubymate.rails.generate' },
             { label: '$(terminal) Open Rails Console', command: 'rubymate.rails.openConsole' },
             { label: '$(database) Show Schema', command: 'rubymate.rails.showSchema' },
             { label: '$(go-to-file) Go to Table Definition', command: 'rubymate.rails.goToTableDefinition' },
@@ -871,6 +950,9 @@ function registerCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         runTestCommand,
         runTestFileCommand,
+        loadCoverageCommand,
+        rerunFailedTestsCommand,
+        showSlowestTestsCommand,
         startDebuggerCommand,
         reindexCommand,
         showIndexStatsCommand,
@@ -9,6 +9,7 @@ import { SmartSearchEngine, SearchContext, SearchResult } from './smartSearch';
 import { ReferenceTracker, DeadCodeAnalysis } from './referenceTracker';
 import { RailsIntelligence, RailsComponent } from './railsIntelligence';
 import { SchemaParser } from '../database/schemaParser';
+import { RouteSource } from '../rails/routeSource';
 import { RubySymbol } from '../advancedIndexer';
 
 /**
@@ -40,7 +41,8 @@ export class IntelligentIndexer {
     constructor(
         context: vscode.ExtensionContext,
         schemaParser: SchemaParser,
-        outputChannel: vscode.OutputChannel
+        outputChannel: vscode.OutputChannel,
+        routeSource: RouteSource
     ) {
         this.context = context;
         this.outputChannel = outputChannel;
@@ -54,7 +56,7 @@ export class IntelligentIndexer {
 
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
         this.workspaceRoot = workspaceFolder?.uri.fsPath || '';
-        this.railsIntelligence = new RailsIntelligence(this.graphBuilder, this.workspaceRoot);
+        this.railsIntelligence = new RailsIntelligence(this.graphBuilder, this.workspaceRoot, routeSource);
     }
 
     /**
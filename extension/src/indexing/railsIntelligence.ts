@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { SemanticGraphBuilder } from './semanticGraph';
+import { RailsRoute } from '../rails/routesParser';
+import { RouteSource } from '../rails/routeSource';
 
 /**
  * Rails Convention Intelligence - Navigate between Rails components
@@ -36,10 +38,14 @@ export class RailsIntelligence {
     private graphBuilder: SemanticGraphBuilder;
     private workspaceRoot: string;
     private routes: Map<string, RouteInfo> = new Map();
+    private routeSource: RouteSource;
+    // Route table `routes` was built from
+    private indexedRoutes?: RailsRoute[];
 
-    constructor(graphBuilder: SemanticGraphBuilder, workspaceRoot: string) {
+    constructor(graphBuilder: SemanticGraphBuilder, workspaceRoot: string, routeSource: RouteSource) {
         this.graphBuilder = graphBuilder;
         this.workspaceRoot = workspaceRoot;
+        this.routeSource = routeSource;
     }
 
     /**
@@ -283,55 +289,40 @@ export class RailsIntelligence {
      * Internal route parsing implementation
      */
     private async parseRoutesInternal(): Promise<void> {
-        const routesPath = path.join(this.workspaceRoot, 'config', 'routes.rb');
+        this.indexRoutes();
+    }
 
-        try {
-            const uri = vscode.Uri.file(routesPath);
-            const document = await vscode.workspace.openTextDocument(uri);
-            const text = document.getText();
-            const lines = text.split('\n');
-
-            for (let i = 0; i < lines.length; i++) {
-                const line = lines[i];
-
-                // Match resourceful routes: resources :users
-                const resourceMatch = line.match(/resources\s+:(\w+)/);
-                if (resourceMatch) {
-                    const resource = resourceMatch[1];
-                    const controllerName = this.pluralize(this.snakeToCamel(resource)) + 'Controller';
-
-                    // Add standard REST actions
-                    const actions = ['index', 'show', 'new', 'create', 'edit', 'update', 'destroy'];
-                    for (const action of actions) {
-                        const route: RouteInfo = {
-                            path: `/${resource}`,
-                            httpMethod: this.getHttpMethod(action),
-                            controller: controllerName,
-                            action,
-                            location: new vscode.Location(uri, new vscode.Position(i, 0))
-                        };
-                        this.routes.set(`${controllerName}#${action}`, route);
-                    }
-                }
+    /**
+     * Index the route table by controller action; the table changes when the
+     * routes files do and when `bin/rails routes` has run
+     */
+    private indexRoutes(): void {
+        const routes = this.routeSource.routes(this.workspaceRoot);
+        if (routes === this.indexedRoutes) {
+            return;
+        }
+        this.indexedRoutes = routes;
 
-                // Match individual routes: get '/about', to: 'pages#about'
-                const routeMatch = line.match(/(get|post|put|patch|delete)\s+['"](.+?)['"],\s+to:\s+['"](\w+)#(\w+)['"]/);
-                if (routeMatch) {
-                    const [, httpMethod, path, controller, action] = routeMatch;
-                    const controllerName = this.snakeToCamel(controller) + 'Controller';
-
-                    const route: RouteInfo = {
-                        path,
-                        httpMethod: httpMethod.toUpperCase(),
-                        controller: controllerName,
-                        action,
-                        location: new vscode.Location(uri, new vscode.Position(i, 0))
-                    };
-                    this.routes.set(`${controllerName}#${action}`, route);
-                }
+        this.routes.clear();
+        for (const route of routes) {
+            if (!route.controller || !route.action || route.engine !== undefined) {
+                continue;
             }
-        } catch (error) {
-            // Routes file doesn't exist or can't be read
+
+            // admin/users -> Admin::UsersController
+            const controllerName = route.controller.split('/').map(part => this.snakeToCamel(part)).join('::') + 'Controller';
+            const key = `${controllerName}#${route.action}`;
+            if (this.routes.has(key)) {
+                continue;
+            }
+
+            this.routes.set(key, {
+                path: route.path,
+                httpMethod: route.verb,
+                controller: controllerName,
+                action: route.action,
+                location: new vscode.Location(vscode.Uri.file(route.file), new vscode.Position(route.line, 0))
+            });
         }
     }
 
@@ -339,6 +330,7 @@ export class RailsIntelligence {
      * Get route info for a controller action
      */
     getRouteInfo(controllerName: string, action: string): RouteInfo | undefined {
+        this.indexRoutes();
         return this.routes.get(`${controllerName}#${action}`);
     }
 
@@ -346,6 +338,7 @@ export class RailsIntelligence {
      * Get all routes for a controller
      */
     getControllerRoutes(controllerName: string): RouteInfo[] {
+        this.indexRoutes();
         const routes: RouteInfo[] = [];
 
         for (const [key, route] of this.routes) {
@@ -402,20 +395,4 @@ export class RailsIntelligence {
             return word + 's';
         }
     }
-
-    /**
-     * Get HTTP method for REST action
-     */
-    private getHttpMethod(action: string): string {
-        const methods: { [key: string]: string } = {
-            'index': 'GET',
-            'show': 'GET',
-            'new': 'GET',
-            'create': 'POST',
-            'edit': 'GET',
-            'update': 'PATCH',
-            'destroy': 'DELETE'
-        };
-        return methods[action] || 'GET';
-    }
 }
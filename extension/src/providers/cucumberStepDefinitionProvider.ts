@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { findScenarioAt, parseFeature } from '../testing/gherkinParser';
+import { findMatchingSteps, parseStepDefinitions, StepDefinition } from '../testing/stepDefinitions';
+
+const STEP_LINE_PATTERN = /^\s*(?:Given|When|Then|And|But|\*)\s+(.*?)\s*$/;
+
+/**
+ * Cucumber Step Definition Provider
+ * Provides "Go to Definition" from a step in a .feature file to the Ruby
+ * step definition that matches it
+ *
+ * Examples:
+ * - Given I have 3 cukes → Given(/^I have (\d+) cukes$/) do |count|
+ * - When I add "milk" → When('I add {string}') do |item|
+ *
+ * Steps in a Scenario Outline are matched with the first Examples row filled in.
+ */
+export class CucumberStepDefinitionProvider implements vscode.DefinitionProvider {
+    // Parsed step definition files, reparsed when their modification time changes
+    private cache = new Map<string, { mtime: number; definitions: StepDefinition[] }>();
+
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Definition | undefined> {
+        const match = document.lineAt(position.line).text.match(STEP_LINE_PATTERN);
+        if (!match) {
+            return undefined;
+        }
+
+        const text = this.fillPlaceholders(match[1], document, position.line);
+
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+        const files = await vscode.workspace.findFiles(
+            folder
+                ? new vscode.RelativePattern(folder, '**/features/**/*.rb')
+                : '**/features/**/*.rb',
+            '**/{node_modules,vendor}/**'
+        );
+
+        const locations: vscode.Location[] = [];
+        for (const file of files) {
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+
+            const definitions = await this.definitionsIn(file);
+            for (const definition of findMatchingSteps(text, definitions)) {
+                locations.push(new vscode.Location(file, new vscode.Position(definition.line, 0)));
+            }
+        }
+
+        return locations.length > 0 ? locations : undefined;
+    }
+
+    /**
+     * Replace <placeholders> in outline steps with the first Examples row
+     */
+    private fillPlaceholders(text: string, document: vscode.TextDocument, line: number): string {
+        if (!text.includes('<')) {
+            return text;
+        }
+
+        const feature = parseFeature(document.getText());
+        const scenario = feature ? findScenarioAt(feature, line) : undefined;
+        const values = scenario?.children[0]?.values;
+        if (!values) {
+            return text;
+        }
+
+        return text.replace(/<([^>]+)>/g, (placeholder, column: string) => values[column] ?? placeholder);
+    }
+
+    private async definitionsIn(file: vscode.Uri): Promise<StepDefinition[]> {
+        try {
+            const stat = await vscode.workspace.fs.stat(file);
+            const cached = this.cache.get(file.fsPath);
+            if (cached && cached.mtime === stat.mtime) {
+                return cached.definitions;
+            }
+
+            const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+            const definitions = parseStepDefinitions(content);
+            this.cache.set(file.fsPath, { mtime: stat.mtime, definitions });
+            return definitions;
+        } catch {
+            return [];
+        }
+    }
+}
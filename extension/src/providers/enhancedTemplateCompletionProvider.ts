@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { RailsRoute } from '../rails/routesParser';
+import { RouteSource } from '../rails/routeSource';
 
 /**
  * Enhanced Template Completion Provider
@@ -15,10 +17,11 @@ import * as fs from 'fs';
  */
 export class EnhancedTemplateCompletionProvider implements vscode.CompletionItemProvider {
     private railsHelpers: vscode.CompletionItem[];
-    private pathHelpersCache: Map<string, vscode.CompletionItem[]> = new Map();
-    private lastRoutesParse: number = 0;
+    private routeSource: RouteSource;
+    private pathHelpersCache: Map<string, { routes: RailsRoute[]; items: vscode.CompletionItem[] }> = new Map();
 
-    constructor() {
+    constructor(routeSource: RouteSource) {
+        this.routeSource = routeSource;
         this.railsHelpers = this.buildRailsHelpers();
     }
 
@@ -78,105 +81,50 @@ export class EnhancedTemplateCompletionProvider implements vscode.CompletionItem
     }
 
     /**
-     * Get path helpers from routes.rb
+     * Get path helpers from the route table
      */
     private async getPathHelpers(workspaceRoot: string): Promise<vscode.CompletionItem[]> {
-        const routesPath = path.join(workspaceRoot, 'config', 'routes.rb');
+        const routes = this.routeSource.routes(workspaceRoot);
 
-        // Check if routes file exists
-        try {
-            const stats = await fs.promises.stat(routesPath);
-            const mtime = stats.mtimeMs;
-
-            // Use cache if routes haven't changed (within 1 minute)
-            if (this.pathHelpersCache.has(workspaceRoot) && (Date.now() - this.lastRoutesParse < 60000)) {
-                return this.pathHelpersCache.get(workspaceRoot)!;
-            }
-
-            this.lastRoutesParse = Date.now();
-
-            // Parse routes file
-            const content = await fs.promises.readFile(routesPath, 'utf8');
-            const helpers = this.parseRoutesForHelpers(content);
-
-            this.pathHelpersCache.set(workspaceRoot, helpers);
-            return helpers;
-        } catch (error) {
-            // Routes file doesn't exist
-            return [];
+        // Use cache until the route table changes
+        const cached = this.pathHelpersCache.get(workspaceRoot);
+        if (cached && cached.routes === routes) {
+            return cached.items;
         }
+
+        const items = this.buildPathHelpers(routes);
+        this.pathHelpersCache.set(workspaceRoot, { routes, items });
+        return items;
     }
 
     /**
-     * Parse routes.rb to extract path helpers
+     * Build `_path` and `_url` helpers for named routes; engine routes are
+     * called through the engine's route proxy (`blog.posts_path`)
      */
-    private parseRoutesForHelpers(content: string): vscode.CompletionItem[] {
+    private buildPathHelpers(routes: RailsRoute[]): vscode.CompletionItem[] {
         const helpers: vscode.CompletionItem[] = [];
         const seen = new Set<string>();
 
-        // Pattern 1: resources :users
-        const resourcesMatches = content.matchAll(/resources?\s+:(\w+)/g);
-        for (const match of resourcesMatches) {
-            const resource = match[1];
-            const singular = this.singularize(resource);
-
-            // Add standard RESTful helpers
-            const restfulHelpers = [
-                { name: `${resource}_path`, doc: `Path to ${resource} index` },
-                { name: `${resource}_url`, doc: `URL to ${resource} index` },
-                { name: `new_${singular}_path`, doc: `Path to new ${singular} form` },
-                { name: `new_${singular}_url`, doc: `URL to new ${singular} form` },
-                { name: `edit_${singular}_path`, doc: `Path to edit ${singular} form` },
-                { name: `edit_${singular}_url`, doc: `URL to edit ${singular} form` },
-                { name: `${singular}_path`, doc: `Path to ${singular} show/update/destroy` },
-                { name: `${singular}_url`, doc: `URL to ${singular} show/update/destroy` }
-            ];
-
-            for (const helper of restfulHelpers) {
-                if (!seen.has(helper.name)) {
-                    const item = new vscode.CompletionItem(helper.name, vscode.CompletionItemKind.Function);
-                    item.detail = 'Rails Path Helper';
-                    item.documentation = new vscode.MarkdownString(helper.doc);
-                    item.insertText = new vscode.SnippetString(`${helper.name}($1)`);
-                    helpers.push(item);
-                    seen.add(helper.name);
-                }
+        for (const route of routes) {
+            if (!route.name) {
+                continue;
             }
-        }
 
-        // Pattern 2: get 'page', to: 'pages#show', as: 'page'
-        const customRouteMatches = content.matchAll(/(?:get|post|put|patch|delete)\s+['"]([^'"]+)['"].*as:\s*:(\w+)/g);
-        for (const match of customRouteMatches) {
-            const routeName = match[2];
+            const name = route.engine ? `${route.engine}.${route.name}` : route.name;
+            const target = route.controller ? `${route.controller}#${route.action}` : route.endpoint || '';
 
             for (const suffix of ['_path', '_url']) {
-                const helperName = `${routeName}${suffix}`;
-                if (!seen.has(helperName)) {
-                    const item = new vscode.CompletionItem(helperName, vscode.CompletionItemKind.Function);
-                    item.detail = 'Rails Path Helper';
-                    item.documentation = new vscode.MarkdownString(`Custom route: ${match[1]}`);
-                    item.insertText = new vscode.SnippetString(`${helperName}($1)`);
-                    helpers.push(item);
-                    seen.add(helperName);
+                const helperName = `${name}${suffix}`;
+                if (seen.has(helperName)) {
+                    continue;
                 }
-            }
-        }
 
-        // Pattern 3: root 'welcome#index'
-        if (content.includes('root')) {
-            if (!seen.has('root_path')) {
-                const item = new vscode.CompletionItem('root_path', vscode.CompletionItemKind.Function);
-                item.detail = 'Rails Path Helper';
-                item.documentation = new vscode.MarkdownString('Path to application root');
-                helpers.push(item);
-                seen.add('root_path');
-            }
-            if (!seen.has('root_url')) {
-                const item = new vscode.CompletionItem('root_url', vscode.CompletionItemKind.Function);
+                const item = new vscode.CompletionItem(helperName, vscode.CompletionItemKind.Function);
                 item.detail = 'Rails Path Helper';
-                item.documentation = new vscode.MarkdownString('URL to application root');
+                item.documentation = new vscode.MarkdownString(`\`${route.verb || 'ANY'} ${route.path}\` ${target}`.trim());
+                item.insertText = new vscode.SnippetString(`${helperName}($1)`);
                 helpers.push(item);
-                seen.add('root_url');
+                seen.add(helperName);
             }
         }
 
@@ -525,17 +473,4 @@ export class EnhancedTemplateCompletionProvider implements vscode.CompletionItem
             return item;
         });
     }
-
-    private singularize(word: string): string {
-        if (word.endsWith('ies')) {
-            return word.slice(0, -3) + 'y';
-        }
-        if (word.endsWith('ses')) {
-            return word.slice(0, -2);
-        }
-        if (word.endsWith('s') && !word.endsWith('ss')) {
-            return word.slice(0, -1);
-        }
-        return word;
-    }
 }
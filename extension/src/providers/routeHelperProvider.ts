@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AdvancedRubyIndexer } from '../advancedIndexer';
+import { RailsRoute } from '../rails/routesParser';
+import { RouteSource } from '../rails/routeSource';
+import {
+    checkHelperCalls,
+    HelperSignature,
+    helperCallAt,
+    helperSignatures,
+    maskRubyCode,
+    signatureLabel
+} from '../rails/routeHelpers';
+
+export const ROUTE_HELPER_LANGUAGES = ['ruby', 'erb', 'haml', 'slim'];
+
+// Ruby outside these folders rarely calls route helpers, and may define its own `_path` methods
+const CHECKED_RUBY_FOLDERS = ['app', 'spec', 'test'];
+
+/**
+ * Route helper signatures of a Rails app, rebuilt when its route table changes
+ */
+class RouteHelperIndex {
+    private cache = new WeakMap<RailsRoute[], Map<string, HelperSignature>>();
+
+    constructor(private routeSource: RouteSource) {}
+
+    signatures(folder: string): Map<string, HelperSignature> {
+        const routes = this.routeSource.routes(folder);
+        let signatures = this.cache.get(routes);
+        if (!signatures) {
+            signatures = helperSignatures(routes);
+            this.cache.set(routes, signatures);
+        }
+        return signatures;
+    }
+}
+
+/**
+ * Parameter hints for `user_path(` and friends: the route's dynamic segments,
+ * then optional ones such as format, then URL options
+ */
+export class RouteHelperSignatureHelpProvider implements vscode.SignatureHelpProvider {
+    private index: RouteHelperIndex;
+
+    constructor(routeSource: RouteSource) {
+        this.index = new RouteHelperIndex(routeSource);
+    }
+
+    provideSignatureHelp(document: vscode.TextDocument, position: vscode.Position): vscode.SignatureHelp | undefined {
+        const folder = appFolder(document);
+        if (!folder) {
+            return undefined;
+        }
+
+        const offset = document.offsetAt(position);
+        const code = maskRubyCode(document.getText(), document.languageId);
+        const call = helperCallAt(code, offset);
+        const signature = call && this.index.signatures(folder).get(call.helper);
+        if (!call || !signature) {
+            return undefined;
+        }
+
+        const { label, parameters } = signatureLabel(signature);
+        const information = new vscode.SignatureInformation(label, routesDocumentation(signature));
+        information.parameters = parameters.map(range => new vscode.ParameterInformation(range));
+
+        const segments = [...signature.required, ...signature.optional];
+        const keyed = call.key !== undefined ? segments.indexOf(call.key) : -1;
+        const help = new vscode.SignatureHelp();
+        help.signatures = [information];
+        help.activeSignature = 0;
+        // Keyword arguments other than segments, and anything past the segments, are URL options
+        help.activeParameter = keyed >= 0 ? keyed
+            : call.key !== undefined ? segments.length
+            : Math.min(call.index, segments.length);
+        return help;
+    }
+}
+
+/**
+ * Warnings on route helper calls no route defines or given the wrong number
+ * of arguments, in Ruby files and templates; `_path`/`_url` methods defined
+ * anywhere in the workspace aren't route helpers
+ */
+export class RouteHelperDiagnostics implements vscode.Disposable {
+    private diagnosticCollection = vscode.languages.createDiagnosticCollection('rubymate-routes');
+    private debounceTimers = new Map<string, NodeJS.Timeout>();
+    private disposables: vscode.Disposable[] = [];
+    private index: RouteHelperIndex;
+    private readonly DEBOUNCE_DELAY = 500; // ms
+
+    constructor(private routeSource: RouteSource, private symbolIndexer: AdvancedRubyIndexer) {
+        this.index = new RouteHelperIndex(routeSource);
+
+        this.disposables.push(
+            this.diagnosticCollection,
+            vscode.workspace.onDidOpenTextDocument(document => this.analyzeDocument(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.analyzeDocument(event.document)),
+            vscode.workspace.onDidSaveTextDocument(document => this.analyzeDocument(document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnosticCollection.delete(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('rubymate.enableRouteHelperDiagnostics')) {
+                    this.analyzeOpenDocuments();
+                }
+            }),
+            // A table from bin/rails routes knows engine and gem routes the routes files don't show
+            this.routeSource.onDidChange(() => this.analyzeOpenDocuments())
+        );
+
+        this.analyzeOpenDocuments();
+    }
+
+    analyzeDocument(document: vscode.TextDocument): void {
+        if (!ROUTE_HELPER_LANGUAGES.includes(document.languageId) || document.uri.scheme !== 'file') {
+            return;
+        }
+
+        const uri = document.uri.toString();
+        const existingTimer = this.debounceTimers.get(uri);
+        if (existingTimer) {
+            clearTimeout(existingTimer);
+        }
+        this.debounceTimers.set(uri, setTimeout(() => {
+            this.debounceTimers.delete(uri);
+            this.analyze(document);
+        }, this.DEBOUNCE_DELAY));
+    }
+
+    dispose(): void {
+        this.debounceTimers.forEach(timer => clearTimeout(timer));
+        this.debounceTimers.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private analyzeOpenDocuments(): void {
+        vscode.workspace.textDocuments.forEach(document => this.analyzeDocument(document));
+    }
+
+    private analyze(document: vscode.TextDocument): void {
+        if (document.isClosed) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('rubymate');
+        const folder = appFolder(document);
+        if (config.get('enableRouteHelperDiagnostics') === false || !folder || !isCheckedFile(folder, document)) {
+            this.diagnosticCollection.delete(document.uri);
+            return;
+        }
+
+        const code = maskRubyCode(document.getText(), document.languageId);
+        const problems = checkHelperCalls(code, this.index.signatures(folder), {
+            complete: this.routeSource.isComplete(folder),
+            directs: this.routeSource.directHelpers(folder),
+            isMethodDefined: name => this.symbolIndexer.hasMethod(name)
+        });
+
+        this.diagnosticCollection.set(document.uri, problems.map(problem => {
+            const range = new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end));
+            const diagnostic = new vscode.Diagnostic(range, problem.message, vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = 'RubyMate';
+            return diagnostic;
+        }));
+    }
+}
+
+// Apps without config/routes.rb have no routes, so nothing is reported
+function appFolder(document: vscode.TextDocument): string | undefined {
+    return vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath;
+}
+
+function isCheckedFile(folder: string, document: vscode.TextDocument): boolean {
+    if (document.languageId !== 'ruby') {
+        return true;
+    }
+    const relative = path.relative(folder, document.uri.fsPath).split(path.sep);
+    return CHECKED_RUBY_FOLDERS.includes(relative[0]);
+}
+
+function routesDocumentation(signature: HelperSignature): vscode.MarkdownString {
+    const documentation = new vscode.MarkdownString();
+    for (const route of signature.routes) {
+        const target = route.controller ? `${route.controller}#${route.action}` : route.endpoint ?? '';
+        documentation.appendMarkdown(`**${route.verb || 'ANY'}** \`${route.path}\` → \`${target}\`\n\n`);
+    }
+    return documentation;
+}
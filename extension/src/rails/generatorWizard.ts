@@ -0,0 +1,392 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import {
+    COLUMN_TYPES,
+    createdFiles,
+    Generator,
+    GeneratorAction,
+    GeneratorUsage,
+    hasConflicts,
+    isFieldSpec,
+    isGeneratorName,
+    isGeneratorOption,
+    isUndoable,
+    parseGeneratorList,
+    parseGeneratorOutput,
+    parseGeneratorUsage
+} from './generators';
+
+const GENERATE_TIMEOUT_MS = 300000;
+
+// Editors opened after a run; scaffolds create a dozen files and more
+const MAX_OPENED_FILES = 10;
+
+const NAME_EXAMPLES: Record<string, string> = {
+    model: 'Post',
+    scaffold: 'Post',
+    resource: 'Post',
+    controller: 'Posts',
+    scaffold_controller: 'Posts',
+    migration: 'AddPublishedAtToPosts',
+    mailer: 'UserMailer',
+    job: 'ImportJob'
+};
+
+interface RailsRun {
+    ok: boolean;
+    output: string;
+}
+
+/**
+ * Wizard for `rails generate`: pick any generator the app has, build its
+ * arguments, preview the files with `--pretend`, then run it, open what it
+ * created and offer `rails destroy` to undo
+ */
+export class RailsGeneratorWizard {
+    // Generator lists and usages by app folder, until Gemfile.lock changes
+    private generators = new Map<string, { key: string; generators: Generator[] }>();
+    private usages = new Map<string, GeneratorUsage>();
+
+    constructor(
+        private outputChannel: vscode.OutputChannel,
+        private rubyPath: () => string = () => 'ruby'
+    ) {}
+
+    async run(generatorName?: string): Promise<void> {
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!folder || !fs.existsSync(path.join(folder, 'bin', 'rails'))) {
+            vscode.window.showErrorMessage('Rails generators need a Rails application with bin/rails');
+            return;
+        }
+
+        const generator = generatorName ?? await this.pickGenerator(folder);
+        if (!generator) {
+            return;
+        }
+
+        const usage = await this.usage(folder, generator);
+        const args = await this.promptArguments(generator, usage);
+        if (!args) {
+            return;
+        }
+
+        const commandLine = `rails generate ${[generator, ...args].join(' ')}`;
+        const preview = await this.withProgress(`Previewing ${commandLine}...`, () =>
+            this.rails(folder, ['generate', generator, ...args, '--pretend']));
+        if (!preview.ok) {
+            this.showFailure(commandLine, preview.output);
+            return;
+        }
+
+        const flags = await this.confirm(commandLine, parseGeneratorOutput(preview.output));
+        if (!flags) {
+            return;
+        }
+
+        const result = await this.withProgress(`Running ${commandLine}...`, () =>
+            this.rails(folder, ['generate', generator, ...args, ...flags]));
+        if (!result.ok) {
+            this.showFailure(commandLine, result.output);
+            return;
+        }
+
+        const actions = parseGeneratorOutput(result.output);
+        const files = createdFiles(actions)
+            .map(file => path.join(folder, file))
+            .filter(file => isFile(file));
+        await this.openFiles(files);
+
+        const summary = `${commandLine} created ${files.length} file${files.length === 1 ? '' : 's'}`;
+        if (!isUndoable(actions)) {
+            vscode.window.showInformationMessage(summary);
+            return;
+        }
+
+        const undo = await vscode.window.showInformationMessage(summary, 'Undo with rails destroy');
+        if (undo && await this.confirmDestroy(generator, args, actions)) {
+            await this.destroy(folder, generator, args);
+        }
+    }
+
+    private async pickGenerator(folder: string): Promise<string | undefined> {
+        const generators = await this.withProgress('Loading Rails generators...', () => this.listGenerators(folder));
+        if (generators.length === 0) {
+            vscode.window.showErrorMessage('Could not list Rails generators; see the RubyMate output for details');
+            return undefined;
+        }
+
+        const items: Array<vscode.QuickPickItem & { generator?: string }> = [];
+        let group: string | undefined;
+        for (const generator of generators) {
+            if (generator.group !== group) {
+                group = generator.group;
+                items.push({ label: group, kind: vscode.QuickPickItemKind.Separator });
+            }
+            items.push({ label: generator.name, generator: generator.name });
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: 'Rails Generate',
+            placeHolder: 'Select a generator'
+        });
+        return picked?.generator;
+    }
+
+    private async listGenerators(folder: string): Promise<Generator[]> {
+        const key = gemfileKey(folder);
+        const cached = this.generators.get(folder);
+        if (cached?.key === key) {
+            return cached.generators;
+        }
+
+        const help = await this.rails(folder, ['generate', '--help']);
+        const generators = parseGeneratorList(help.output);
+        if (generators.length > 0) {
+            this.generators.set(folder, { key, generators });
+            this.usages.clear();
+        } else {
+            this.outputChannel.appendLine(`[GENERATE] rails generate --help listed no generators:\n${help.output}`);
+        }
+        return generators;
+    }
+
+    private async usage(folder: string, generator: string): Promise<GeneratorUsage> {
+        const cacheKey = `${folder}\n${generator}`;
+        let usage = this.usages.get(cacheKey);
+        if (!usage) {
+            const help = await this.withProgress(`Reading rails generate ${generator} --help...`, () =>
+                this.rails(folder, ['generate', generator, '--help']));
+            usage = parseGeneratorUsage(help.output);
+            if (help.ok) {
+                this.usages.set(cacheKey, usage);
+            }
+        }
+        return usage;
+    }
+
+    /**
+     * Arguments after the generator name; undefined when a prompt is dismissed
+     */
+    private async promptArguments(generator: string, usage: GeneratorUsage): Promise<string[] | undefined> {
+        const title = `rails generate ${generator}`;
+        const args: string[] = [];
+
+        if (usage.takesName) {
+            const name = await vscode.window.showInputBox({
+                title,
+                prompt: usage.description ?? 'Name',
+                placeHolder: NAME_EXAMPLES[generator] ?? 'Name',
+                validateInput: value => isGeneratorName(value.trim())
+                    ? undefined
+                    : 'Use a CamelCase or snake_case name, namespaced with :: or /'
+            });
+            if (name === undefined) {
+                return undefined;
+            }
+            args.push(name.trim());
+        }
+
+        if (usage.takesFields) {
+            const fields = await this.promptFields(title);
+            if (!fields) {
+                return undefined;
+            }
+            args.push(...fields);
+        } else if (usage.listArgument) {
+            const list = await vscode.window.showInputBox({
+                title,
+                prompt: `${usage.listArgument} names separated by spaces (optional)`,
+                placeHolder: usage.listArgument === 'action' ? 'index show' : '',
+                validateInput: value => words(value).every(word => /^[a-z_]\w*$/.test(word))
+                    ? undefined
+                    : `${usage.listArgument} names are snake_case words`
+            });
+            if (list === undefined) {
+                return undefined;
+            }
+            args.push(...words(list));
+        }
+
+        const options = await vscode.window.showInputBox({
+            title,
+            prompt: `Options (optional); rails generate ${generator} --help lists them`,
+            placeHolder: '--no-test-framework',
+            validateInput: value => words(value).every(isGeneratorOption) ? undefined : 'Options look like --skip-routes or --parent=Admin'
+        });
+        if (options === undefined) {
+            return undefined;
+        }
+        args.push(...words(options));
+
+        return args;
+    }
+
+    /**
+     * Attributes one at a time: a name, then its type and index
+     */
+    private async promptFields(title: string): Promise<string[] | undefined> {
+        const fields: string[] = [];
+
+        for (;;) {
+            const input = await vscode.window.showInputBox({
+                title,
+                prompt: fields.length > 0
+                    ? `Fields: ${fields.join(' ')}. Add another field, or press Enter to continue`
+                    : 'Field name, or press Enter for none (name:type also works)',
+                placeHolder: 'title',
+                validateInput: value => !value.trim() || isFieldSpec(value.trim())
+                    ? undefined
+                    : 'Use name or name:type[:index], e.g. title or price:decimal{10,2}'
+            });
+            if (input === undefined) {
+                return undefined;
+            }
+
+            const field = input.trim();
+            if (!field) {
+                return fields;
+            }
+            if (field.includes(':')) {
+                fields.push(field);
+                continue;
+            }
+
+            const type = await vscode.window.showQuickPick(
+                COLUMN_TYPES.map(columnType => ({ label: columnType.name, description: columnType.description })),
+                { title, placeHolder: `Type of ${field}` }
+            );
+            if (!type) {
+                continue;
+            }
+            const index = await vscode.window.showQuickPick([
+                { label: 'No index', suffix: '' },
+                { label: 'index', description: 'Add an index', suffix: ':index' },
+                { label: 'uniq', description: 'Add a unique index', suffix: ':uniq' }
+            ], { title, placeHolder: `Index on ${field}` });
+            if (!index) {
+                continue;
+            }
+            fields.push(`${field}:${type.label}${index.suffix}`);
+        }
+    }
+
+    /**
+     * Preview of the `--pretend` run; resolves to the flags to run with, or
+     * undefined when cancelled
+     */
+    private async confirm(commandLine: string, actions: GeneratorAction[]): Promise<string[] | undefined> {
+        const detail = actions.length > 0
+            ? actions.map(action => `${action.action.padEnd(10)} ${action.target}`).join('\n')
+            : 'The generator reported no files.';
+
+        if (hasConflicts(actions)) {
+            const choice = await vscode.window.showWarningMessage(
+                `${commandLine} would change files that already exist`,
+                { modal: true, detail },
+                'Overwrite Existing', 'Skip Existing'
+            );
+            return choice === 'Overwrite Existing' ? ['--force'] : choice === 'Skip Existing' ? ['--skip'] : undefined;
+        }
+
+        const choice = await vscode.window.showInformationMessage(commandLine, { modal: true, detail }, 'Generate');
+        return choice ? [] : undefined;
+    }
+
+    private async confirmDestroy(generator: string, args: string[], actions: GeneratorAction[]): Promise<boolean> {
+        const files = createdFiles(actions);
+        const choice = await vscode.window.showWarningMessage(
+            `rails destroy ${[generator, ...args].join(' ')}`,
+            { modal: true, detail: files.length > 0 ? `Removes:\n${files.join('\n')}` : 'Reverts what the generator added.' },
+            'Destroy'
+        );
+        return choice === 'Destroy';
+    }
+
+    private async destroy(folder: string, generator: string, args: string[]): Promise<void> {
+        const commandLine = `rails destroy ${[generator, ...args].join(' ')}`;
+        const result = await this.withProgress(`Running ${commandLine}...`, () => this.rails(folder, ['destroy', generator, ...args]));
+        if (!result.ok) {
+            this.showFailure(commandLine, result.output);
+            return;
+        }
+
+        const removed = parseGeneratorOutput(result.output).filter(action => action.action === 'remove').length;
+        vscode.window.showInformationMessage(`${commandLine} removed ${removed} file${removed === 1 ? '' : 's'}`);
+    }
+
+    private async openFiles(files: string[]): Promise<void> {
+        for (const [index, file] of files.slice(0, MAX_OPENED_FILES).entries()) {
+            try {
+                const document = await vscode.workspace.openTextDocument(file);
+                await vscode.window.showTextDocument(document, { preview: false, preserveFocus: index > 0 });
+            } catch (error) {
+                this.outputChannel.appendLine(`[GENERATE] Could not open ${file}: ${error}`);
+            }
+        }
+    }
+
+    private showFailure(commandLine: string, output: string): void {
+        const reason = output.split('\n').map(line => line.trim()).find(line => /error|could not|invalid|not found/i.test(line));
+        vscode.window.showErrorMessage(`${commandLine} failed${reason ? `: ${reason}` : ''}`, 'Show Output').then(choice => {
+            if (choice) {
+                this.outputChannel.show();
+            }
+        });
+    }
+
+    private withProgress<T>(title: string, task: () => Promise<T>): Thenable<T> {
+        return vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title }, task);
+    }
+
+    /**
+     * Runs bin/rails with stdout and stderr logged; stdin is closed so a
+     * generator asking about a conflict fails instead of waiting
+     */
+    private rails(folder: string, args: string[]): Promise<RailsRun> {
+        const railsBin = path.join(folder, 'bin', 'rails');
+        const [command, commandArgs] = process.platform === 'win32'
+            ? [this.rubyPath() || 'ruby', [railsBin, ...args]]
+            : [railsBin, args];
+        this.outputChannel.appendLine(`[GENERATE] bin/rails ${args.join(' ')}`);
+
+        return new Promise(resolve => {
+            const child = execFile(command, commandArgs, {
+                cwd: folder,
+                // Spring's server would outlive the command
+                env: { ...process.env, DISABLE_SPRING: '1' },
+                timeout: GENERATE_TIMEOUT_MS,
+                maxBuffer: 16 * 1024 * 1024
+            }, (error, stdout, stderr) => {
+                const output = `${stdout}${stderr}`;
+                if (output.trim()) {
+                    this.outputChannel.appendLine(output.trimEnd());
+                }
+                resolve({ ok: !error, output: error && !output.trim() ? error.message : output });
+            });
+            child.stdin?.end();
+        });
+    }
+}
+
+// Generators come from the bundle, so the list holds until Gemfile.lock changes
+function gemfileKey(folder: string): string {
+    try {
+        return String(fs.statSync(path.join(folder, 'Gemfile.lock')).mtimeMs);
+    } catch {
+        return '';
+    }
+}
+
+function isFile(file: string): boolean {
+    try {
+        return fs.statSync(file).isFile();
+    } catch {
+        return false;
+    }
+}
+
+function words(text: string): string[] {
+    return text.trim().split(/\s+/).filter(word => word.length > 0);
+}
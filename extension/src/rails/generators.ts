@@ -0,0 +1,171 @@
+/**
+ * Reading `rails generate` help and output for the generator wizard
+ *
+ * `rails generate --help` lists every generator the app can run, grouped by
+ * the framework or gem that provides it; `rails generate NAME --help` gives
+ * the arguments a generator takes. A generator's output, also with
+ * `--pretend`, lists what it does to each file:
+ *
+ *       invoke  active_record
+ *       create    db/migrate/20240101000000_create_posts.rb
+ *       create    app/models/post.rb
+ *        route    resources :posts
+ */
+
+export interface Generator {
+    // model, rspec:model, devise:install
+    name: string;
+    // Rails, Rspec, Devise
+    group: string;
+}
+
+export interface GeneratorUsage {
+    // Takes NAME as its first argument
+    takesName: boolean;
+    // `[field[:type][:index] ...]` attributes
+    takesFields: boolean;
+    // Word of another list argument: action for controller, method for mailer
+    listArgument?: string;
+    description?: string;
+}
+
+export interface GeneratorAction {
+    // create, identical, conflict, route, insert...
+    action: string;
+    // File path relative to the app, or what a route/gem line adds
+    target: string;
+}
+
+export interface ColumnType {
+    name: string;
+    description: string;
+}
+
+// Attribute types `rails generate model` understands
+export const COLUMN_TYPES: ColumnType[] = [
+    { name: 'string', description: 'Short text, varchar' },
+    { name: 'text', description: 'Long text' },
+    { name: 'integer', description: 'Whole number' },
+    { name: 'bigint', description: '64-bit whole number' },
+    { name: 'float', description: 'Floating point number' },
+    { name: 'decimal', description: 'Exact number, e.g. money; decimal{10,2} sets precision and scale' },
+    { name: 'boolean', description: 'true or false' },
+    { name: 'date', description: 'Calendar date' },
+    { name: 'datetime', description: 'Date and time' },
+    { name: 'time', description: 'Time of day' },
+    { name: 'binary', description: 'Binary data' },
+    { name: 'json', description: 'JSON document' },
+    { name: 'jsonb', description: 'Binary JSON (PostgreSQL)' },
+    { name: 'uuid', description: 'UUID (PostgreSQL)' },
+    { name: 'references', description: 'Foreign key and belongs_to association; references{polymorphic} for polymorphic' },
+    { name: 'belongs_to', description: 'Same as references' },
+    { name: 'digest', description: 'password_digest column and has_secure_password' },
+    { name: 'token', description: 'Unique token column and has_secure_token' },
+    { name: 'rich_text', description: 'Action Text has_rich_text, no column' },
+    { name: 'attachment', description: 'Active Storage has_one_attached, no column' },
+    { name: 'attachments', description: 'Active Storage has_many_attached, no column' }
+];
+
+// Actions generators report; `invoke` lines only name the generators they call
+const OUTPUT_ACTIONS = new Set([
+    'create', 'identical', 'conflict', 'force', 'skip', 'exist', 'remove', 'insert', 'append', 'prepend', 'gsub', 'inject',
+    'route', 'gemfile', 'environment', 'initializer', 'rake', 'run', 'generate'
+]);
+
+/**
+ * Generators listed by `rails generate --help`
+ */
+export function parseGeneratorList(output: string): Generator[] {
+    const generators: Generator[] = [];
+    const lines = output.split(/\r?\n/);
+    const start = lines.findIndex(line => /choose a generator/i.test(line));
+    let group = '';
+
+    for (const line of lines.slice(start + 1)) {
+        const header = line.match(/^(\S.*):\s*$/);
+        const entry = line.match(/^\s+([a-z][\w:-]*)\s*$/);
+        if (header) {
+            group = header[1];
+        } else if (entry && group) {
+            generators.push({ name: entry[1], group });
+        }
+    }
+
+    return generators;
+}
+
+/**
+ * Arguments of a generator from `rails generate NAME --help`:
+ * `bin/rails generate model NAME [field[:type][:index] field[:type][:index]] [options]`
+ */
+export function parseGeneratorUsage(output: string): GeneratorUsage {
+    const usage = output.match(/generate\s+\S+\s+(.*)$/m)?.[1] ?? '';
+    const list = usage.match(/\[(?!options\])([a-z_]+)[^\]]*\]/);
+    const description = output.match(/(?:^|\n)Description:\s*\n([\s\S]*?)(?:\n\s*\n|$)/)?.[1];
+
+    return {
+        takesName: /\bNAME\b/.test(usage),
+        takesFields: list?.[1] === 'field',
+        listArgument: list && list[1] !== 'field' ? list[1] : undefined,
+        description: description?.split('\n').map(line => line.trim()).join(' ')
+    };
+}
+
+/**
+ * What a generator run, or a `--pretend` run, did to each file
+ */
+export function parseGeneratorOutput(output: string): GeneratorAction[] {
+    const actions: GeneratorAction[] = [];
+
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.replace(/\x1b\[[\d;]*m/g, '').match(/^\s*([a-z_]+)\s{2,}(\S.*?)\s*$/);
+        if (match && OUTPUT_ACTIONS.has(match[1])) {
+            actions.push({ action: match[1], target: match[2] });
+        }
+    }
+
+    return actions;
+}
+
+/**
+ * Files a generator created, in the order it created them
+ */
+export function createdFiles(actions: GeneratorAction[]): string[] {
+    return actions.filter(action => action.action === 'create' || action.action === 'force').map(action => action.target);
+}
+
+/**
+ * Whether a generator run would stop to ask about files that already exist
+ */
+export function hasConflicts(actions: GeneratorAction[]): boolean {
+    return actions.some(action => action.action === 'conflict');
+}
+
+/**
+ * Whether `rails destroy` would only undo this run: it also removes files that
+ * were there before, identical or overwritten, and ones the run skipped
+ */
+export function isUndoable(actions: GeneratorAction[]): boolean {
+    return !actions.some(action => ['identical', 'conflict', 'force', 'skip'].includes(action.action));
+}
+
+/**
+ * Generator name argument: `Post`, `admin/users`, `Admin::UsersController`
+ */
+export function isGeneratorName(name: string): boolean {
+    return /^[A-Za-z]\w*(?:(?:::|\/)[A-Za-z]\w*)*$/.test(name);
+}
+
+/**
+ * Attribute argument: `title`, `price:decimal{10,2}`, `user:references:index`, `email:string:uniq`
+ */
+export function isFieldSpec(field: string): boolean {
+    return /^[a-z_]\w*(?::[a-z_]+(?:\{[\w,]+\})?)?(?::(?:index|uniq))?$/.test(field);
+}
+
+/**
+ * Extra options such as `--no-test-framework` or `--parent=Admin::Base`
+ */
+export function isGeneratorOption(option: string): boolean {
+    return /^--?[a-z][\w-]*(?:=[\w,.:/-]+)?$/i.test(option);
+}
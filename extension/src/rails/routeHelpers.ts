@@ -0,0 +1,483 @@
+import { RailsRoute } from './routesParser';
+
+/**
+ * Calls to route helpers (`user_path`, `blog.posts_url`) checked against the
+ * route table
+ *
+ * Positional arguments fill a route's dynamic segments in order, the optional
+ * ones (`(.:format)`) last, and a trailing hash names segments or URL options.
+ * Code is masked first: comments and string contents become spaces, and in
+ * ERB everything outside `<% %>`, so offsets stay those of the document.
+ */
+
+export interface HelperSignature {
+    // users_path, blog.posts_url
+    helper: string;
+    required: string[];
+    optional: string[];
+    routes: RailsRoute[];
+}
+
+export interface HelperArguments {
+    positional: string[];
+    // Segment or option names given as `key: value` or `:key => value`
+    keys: string[];
+    // Keys that can't be read, such as `**options`
+    openKeys: boolean;
+    // `*args`, so the count is unknown
+    splat: boolean;
+}
+
+export interface HelperCall {
+    helper: string;
+    // Offsets of the helper name, including an engine receiver
+    start: number;
+    end: number;
+    // undefined when arguments are given without parentheses
+    args?: HelperArguments;
+}
+
+export interface HelperCallAt {
+    helper: string;
+    // Argument the offset is in
+    index: number;
+    // `key:` of that argument, if it has one
+    key?: string;
+}
+
+export interface HelperProblem {
+    start: number;
+    end: number;
+    message: string;
+}
+
+export interface HelperCheckOptions {
+    // Whether the routes are every route of the app, so unknown names are mistakes
+    complete: boolean;
+    // Custom URL helpers defined with `direct`
+    directs: string[];
+    // Whether a method of that name is defined elsewhere, e.g. in app/helpers or a concern
+    isMethodDefined: (name: string) => boolean;
+}
+
+// `_path`/`_url` helpers Rails and Devise define without a route
+const NON_ROUTE_HELPERS = new Set([
+    'asset', 'image', 'javascript', 'stylesheet', 'font', 'video', 'audio', 'compute_asset', 'public_compute_asset',
+    'polymorphic', 'edit_polymorphic', 'new_polymorphic',
+    'session', 'new_session', 'destroy_session', 'registration', 'new_registration', 'edit_registration',
+    'cancel_registration', 'password', 'new_password', 'edit_password', 'confirmation', 'new_confirmation',
+    'unlock', 'new_unlock', 'omniauth_authorize', 'omniauth_callback'
+]);
+
+// Route names added by Active Storage, Action Mailbox and Turbo, which the routes files don't show
+const FRAMEWORK_ROUTE = /(?:^|_)rails_|^turbo_/;
+
+// Receivers whose route helpers are the app's own
+const APP_RECEIVERS = new Set(['main_app', 'url_helpers', 'helpers']);
+
+/**
+ * Dynamic segments of a route path: `/posts/:post_id/comments/:id(.:format)`
+ * requires post_id and id and takes format
+ */
+export function routeSegments(routePath: string): { required: string[]; optional: string[] } {
+    const required: string[] = [];
+    const optional: string[] = [];
+    let depth = 0;
+
+    for (let i = 0; i < routePath.length; i++) {
+        const char = routePath[i];
+        if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (char === ':' || char === '*') {
+            const name = routePath.slice(i + 1).match(/^[a-zA-Z_]\w*/)?.[0];
+            if (name) {
+                const segments = depth > 0 ? optional : required;
+                if (!required.includes(name) && !optional.includes(name)) {
+                    segments.push(name);
+                }
+                i += name.length;
+            }
+        }
+    }
+
+    return { required, optional };
+}
+
+/**
+ * `_path` and `_url` helpers of the named routes
+ */
+export function helperSignatures(routes: RailsRoute[]): Map<string, HelperSignature> {
+    const signatures = new Map<string, HelperSignature>();
+
+    for (const route of routes) {
+        if (!route.name) {
+            continue;
+        }
+        const name = route.engine ? `${route.engine}.${route.name}` : route.name;
+        for (const suffix of ['_path', '_url']) {
+            const helper = `${name}${suffix}`;
+            const signature = signatures.get(helper);
+            if (signature) {
+                signature.routes.push(route);
+            } else {
+                signatures.set(helper, { helper, ...routeSegments(route.path), routes: [route] });
+            }
+        }
+    }
+
+    return signatures;
+}
+
+/**
+ * Helper call label, `post_comment_path(post_id, id, format = nil, **options)`,
+ * with the offsets of each parameter in it
+ */
+export function signatureLabel(signature: HelperSignature): { label: string; parameters: Array<[number, number]> } {
+    const names = [...signature.required, ...signature.optional.map(name => `${name} = nil`), '**options'];
+    const parameters: Array<[number, number]> = [];
+
+    let label = `${signature.helper}(`;
+    names.forEach((name, index) => {
+        if (index > 0) {
+            label += ', ';
+        }
+        parameters.push([label.length, label.length + name.length]);
+        label += name;
+    });
+
+    return { label: `${label})`, parameters };
+}
+
+/**
+ * Ruby code of a document with comments, string contents and, in templates,
+ * everything outside Ruby replaced by spaces
+ */
+export function maskRubyCode(text: string, languageId: string): string {
+    if (languageId === 'erb') {
+        // A tag still being typed runs to the end
+        let masked = '';
+        let last = 0;
+        for (const match of text.matchAll(/<%(#?)[-=]*([\s\S]*?)(?:-?%>|$)/g)) {
+            const codeStart = match.index! + match[0].indexOf(match[2], 2);
+            masked += blank(text.slice(last, codeStart));
+            masked += match[1] ? blank(match[2]) : maskRuby(match[2]);
+            last = codeStart + match[2].length;
+        }
+        return masked + blank(text.slice(last));
+    }
+    if (languageId === 'haml' || languageId === 'slim') {
+        // Ruby is spread over tag lines, so each line is read as Ruby on its own
+        return text.split('\n').map(line => /^\s*(?:\/|-#)/.test(line) ? blank(line) : maskRuby(line)).join('\n');
+    }
+    return maskRuby(text);
+}
+
+/**
+ * Route helper calls in masked code
+ */
+export function findHelperCalls(code: string): HelperCall[] {
+    const calls: HelperCall[] = [];
+
+    for (const match of code.matchAll(/[a-z_]\w*_(?:path|url)\b/g)) {
+        const nameStart = match.index!;
+        const nameEnd = nameStart + match[0].length;
+        const before = code[nameStart - 1] || '';
+        const after = code.slice(nameEnd);
+
+        // Part of an instance variable, symbol, constant path or `path?` method, or a hash key
+        if (/[\w@$:]/.test(before) || /^(?:[?!]|:(?!:))/.test(after)) {
+            continue;
+        }
+        // Assigned to, so a local variable
+        if (/^\s*(?:\|\||&&)?=(?![=~>])/.test(after)) {
+            continue;
+        }
+
+        let helper = match[0];
+        let start = nameStart;
+        if (before === '.') {
+            const receiver = code.slice(0, nameStart - 1).match(/(?<![\w@$:])([a-z_]\w*)\s*$/);
+            if (!receiver || /\.\s*$/.test(code.slice(0, receiver.index)) && !APP_RECEIVERS.has(receiver[1])) {
+                continue;
+            }
+            if (!APP_RECEIVERS.has(receiver[1])) {
+                helper = `${receiver[1]}.${helper}`;
+                start = receiver.index!;
+            }
+        }
+
+        let args: HelperArguments | undefined;
+        if (after.startsWith('(')) {
+            const close = matchingParen(code, nameEnd);
+            args = parseArguments(code.slice(nameEnd + 1, close === -1 ? code.length : close));
+        } else if (!/^[ \t]+(?![-+*/%<>=!&|?:.,)\]}#]|(?:if|unless|and|or|do|then|while|until|rescue|end)\b)\S/.test(after)) {
+            args = { positional: [], keys: [], openKeys: false, splat: false };
+        }
+
+        calls.push({ helper, start, end: nameEnd, args });
+    }
+
+    return calls;
+}
+
+/**
+ * The helper call whose parentheses hold the offset
+ */
+export function helperCallAt(code: string, offset: number): HelperCallAt | undefined {
+    let depth = 0;
+    for (let i = offset - 1; i >= 0; i--) {
+        const char = code[i];
+        if (char === ')' || char === ']' || char === '}') {
+            depth++;
+        } else if (char === '[' || char === '{') {
+            depth--;
+        } else if (char === '(') {
+            if (depth > 0) {
+                depth--;
+                continue;
+            }
+            const name = code.slice(0, i).match(/(?:([a-z_]\w*)\s*\.\s*)?([a-z_]\w*_(?:path|url))$/);
+            if (!name) {
+                return undefined;
+            }
+
+            const parts = splitArguments(code.slice(i + 1, offset));
+            const current = parts[parts.length - 1].trim();
+            return {
+                helper: name[1] && !APP_RECEIVERS.has(name[1]) ? `${name[1]}.${name[2]}` : name[2],
+                index: parts.length - 1,
+                key: current.match(/^([a-z_]\w*)\s*:(?!:)/)?.[1] ?? current.match(/^:([a-z_]\w*)\s*=>/)?.[1]
+            };
+        }
+        if (depth < 0) {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Calls to helpers no route defines and calls with a wrong number of arguments
+ */
+export function checkHelperCalls(code: string, signatures: Map<string, HelperSignature>, options: HelperCheckOptions): HelperProblem[] {
+    const problems: HelperProblem[] = [];
+    const defined = new Map<string, boolean>();
+    const isDefined = (name: string) => {
+        if (!defined.has(name)) {
+            defined.set(name, definedInCode(code, name) || options.isMethodDefined(name));
+        }
+        return defined.get(name)!;
+    };
+
+    for (const call of findHelperCalls(code)) {
+        const signature = signatures.get(call.helper);
+        if (!signature) {
+            const base = call.helper.replace(/^\w+\./, '').replace(/_(?:path|url)$/, '');
+            const engineCall = call.helper.includes('.');
+            if (options.complete && !engineCall && !NON_ROUTE_HELPERS.has(base) && !FRAMEWORK_ROUTE.test(base)
+                && !options.directs.includes(base) && !isDefined(call.helper)) {
+                problems.push({ start: call.start, end: call.end, message: `No route defines ${call.helper}` });
+            }
+            continue;
+        }
+
+        const message = call.args && arityProblem(signature, call.args);
+        if (message) {
+            problems.push({ start: call.start, end: call.end, message });
+        }
+    }
+
+    return problems;
+}
+
+function arityProblem(signature: HelperSignature, args: HelperArguments): string | undefined {
+    if (args.splat) {
+        return undefined;
+    }
+
+    const count = args.positional.length;
+    // Without a literal hash, a last argument held in a variable may be the options hash
+    const last = args.positional[count - 1];
+    const fewest = args.keys.length === 0 && !args.openKeys && last !== undefined && !isPositionalValue(last) ? count - 1 : count;
+    const most = signature.required.length + signature.optional.length;
+    const needed = signature.required.filter(segment => !args.keys.includes(segment)).length;
+    const expected = `${signature.required.length} argument${signature.required.length === 1 ? '' : 's'}`
+        + (signature.required.length > 0 ? ` (${signature.required.join(', ')})` : '');
+
+    // A record given where only `format` is left becomes the format, as in users_path(@user)
+    const intoOptional = args.positional.slice(needed).some(arg => /^@\w+$|\.id$/.test(arg));
+    if (fewest > most || intoOptional && count > needed) {
+        return `${signature.helper} expects ${expected}${signature.optional.length > 0 ? ` and optional ${signature.optional.join(', ')}` : ''}, got ${count}`;
+    }
+    if (count < needed && !args.openKeys) {
+        return `${signature.helper} expects ${expected}, got ${count}`;
+    }
+    return undefined;
+}
+
+// Values that can't be an options hash
+function isPositionalValue(arg: string): boolean {
+    return /^(?:@|["'`\d:[]|(?:nil|self|true|false)\b)/.test(arg) || /\.(?:id|to_param|slug)$/.test(arg);
+}
+
+// Whether the file defines the name itself: a method, variable, parameter or symbol
+function definedInCode(code: string, name: string): boolean {
+    const escaped = name.replace(/\./g, '\\.');
+    return new RegExp(`\\bdef\\s+(?:self\\.)?${escaped}\\b`).test(code)
+        || new RegExp(`(?:^|[^\\w.])${escaped}\\s*(?:\\|\\||&&)?=(?![=~>])`).test(code)
+        || new RegExp(`\\bdef\\s+[\\w.]+[?!=]?[(\\s][^\\n]*\\b${escaped}\\b|\\|[^|\\n]*\\b${escaped}\\b[^|\\n]*\\|`).test(code)
+        || new RegExp(`:${escaped}\\b|\\b${escaped}:(?!:)`).test(code);
+}
+
+function parseArguments(text: string): HelperArguments {
+    const args: HelperArguments = { positional: [], keys: [], openKeys: false, splat: false };
+    let inHash = false;
+
+    for (const part of splitArguments(text)) {
+        const arg = part.trim();
+        if (!arg || arg.startsWith('&')) {
+            continue;
+        }
+        if (arg.startsWith('**')) {
+            args.openKeys = true;
+            inHash = true;
+            continue;
+        }
+        if (arg.startsWith('*')) {
+            args.splat = true;
+            continue;
+        }
+
+        const key = arg.match(/^([a-z_]\w*)\s*:(?!:)/)?.[1] ?? arg.match(/^:([a-z_]\w*)\s*=>/)?.[1];
+        if (key) {
+            args.keys.push(key);
+            inHash = true;
+        } else if (inHash || topLevelArrow(arg) || arg.startsWith('{')) {
+            args.openKeys = true;
+            inHash = true;
+        } else {
+            args.positional.push(arg);
+        }
+    }
+
+    return args;
+}
+
+// Comma-separated parts at the top level
+function splitArguments(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of text) {
+        if ('([{'.includes(char)) {
+            depth++;
+        } else if (')]}'.includes(char)) {
+            depth--;
+        }
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts;
+}
+
+function topLevelArrow(arg: string): boolean {
+    let depth = 0;
+    for (let i = 0; i < arg.length; i++) {
+        const char = arg[i];
+        if ('([{'.includes(char)) {
+            depth++;
+        } else if (')]}'.includes(char)) {
+            depth--;
+        } else if (depth === 0 && char === '=' && arg[i + 1] === '>') {
+            return true;
+        }
+    }
+    return false;
+}
+
+function matchingParen(code: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < code.length; i++) {
+        if (code[i] === '(') {
+            depth++;
+        } else if (code[i] === ')' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function blank(text: string): string {
+    return text.replace(/[^\n]/g, ' ');
+}
+
+/**
+ * Blank comments and string contents, keeping the quotes and `#{}` code
+ */
+function maskRuby(text: string): string {
+    let out = '';
+    let i = 0;
+
+    const maskString = (quote: string, interpolates: boolean) => {
+        out += quote;
+        i++;
+        while (i < text.length && text[i] !== quote) {
+            if (text[i] === '\\' && i + 1 < text.length) {
+                out += blank(text.slice(i, i + 2));
+                i += 2;
+            } else if (interpolates && text[i] === '#' && text[i + 1] === '{') {
+                let depth = 1;
+                const start = i + 2;
+                let end = start;
+                while (end < text.length && depth > 0) {
+                    if (text[end] === '{') {
+                        depth++;
+                    } else if (text[end] === '}') {
+                        depth--;
+                    }
+                    end++;
+                }
+                out += '#{' + maskRuby(text.slice(start, depth === 0 ? end - 1 : end)) + (depth === 0 ? '}' : '');
+                i = end;
+            } else {
+                out += text[i] === '\n' ? '\n' : ' ';
+                i++;
+            }
+        }
+        if (i < text.length) {
+            out += quote;
+            i++;
+        }
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '#') {
+            const end = text.indexOf('\n', i);
+            const stop = end === -1 ? text.length : end;
+            out += blank(text.slice(i, stop));
+            i = stop;
+        } else if (char === '"' || char === '`') {
+            maskString(char, true);
+        } else if (char === '\'') {
+            maskString(char, false);
+        } else if (char === '?' && /[\w'"]/.test(text[i + 1] || '') && !/[\w)\]]/.test(text[i - 1] || '')) {
+            // Character literal such as ?'
+            out += char + (text[i + 1] ?? '');
+            i += 2;
+        } else {
+            out += char;
+            i++;
+        }
+    }
+
+    return out;
+}
@@ -0,0 +1,247 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { ChildProcess, execFile } from 'child_process';
+import { RailsRoute, readRoutesFile } from './routesParser';
+import { parseRoutesOutput } from './routesOutput';
+
+/**
+ * Route tables of Rails apps, from `bin/rails routes` when it can run
+ *
+ * `bin/rails routes` boots the app, so it also knows routes added by engines
+ * and gems, but takes seconds. It runs in the background and its table is
+ * cached until a file under config/routes* changes; until then, or when the
+ * app has no bin/rails or fails to boot, the routes come from parsing the
+ * routes files.
+ */
+
+export interface RouteSourceOptions {
+    // Ruby that runs bin/rails on Windows, where it isn't executable
+    rubyPath?: () => string;
+    timeout?: number;
+    log?: (message: string) => void;
+}
+
+interface RouteTable {
+    // mtimes of the routes files the table was read for
+    key: string;
+    routes: RailsRoute[];
+    // Whether bin/rails routes ran for this key, whatever the outcome
+    ran: boolean;
+    // Whether the table has every route of the app
+    complete: boolean;
+    directs: string[];
+}
+
+const RAILS_ROUTES_TIMEOUT_MS = 120000;
+
+export class RouteSource {
+    private tables = new Map<string, RouteTable>();
+    private running = new Map<string, { key: string; table: Promise<RouteTable> }>();
+    private children = new Set<ChildProcess>();
+    private listeners = new Set<(folder: string) => void>();
+
+    constructor(private options: RouteSourceOptions = {}) {}
+
+    /**
+     * Called with the app folder when `bin/rails routes` brings a new table
+     */
+    onDidChange(listener: (folder: string) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Routes known right now: the `bin/rails routes` table when it is current,
+     * otherwise the parsed routes files while `bin/rails routes` runs
+     */
+    routes(folder: string): RailsRoute[] {
+        const key = routesKey(folder);
+        if (key === undefined) {
+            return [];
+        }
+
+        const table = this.tables.get(folder);
+        if (table?.key === key && table.ran) {
+            return table.routes;
+        }
+        this.refresh(folder, key).catch(() => undefined);
+        return table?.key === key ? table.routes : this.staticTable(folder, key).routes;
+    }
+
+    /**
+     * Routes once `bin/rails routes` has run for the current routes files
+     */
+    async load(folder: string): Promise<RailsRoute[]> {
+        const key = routesKey(folder);
+        if (key === undefined) {
+            return [];
+        }
+
+        const table = this.tables.get(folder);
+        if (table?.key === key && table.ran) {
+            return table.routes;
+        }
+        return (await this.refresh(folder, key)).routes;
+    }
+
+    /**
+     * Whether the current table has every route: read from `bin/rails routes`,
+     * or from routes files the parser fully understood
+     */
+    isComplete(folder: string): boolean {
+        const key = routesKey(folder);
+        const table = this.tables.get(folder);
+        return !!table && table.key === key && table.complete;
+    }
+
+    /**
+     * Names of the custom URL helpers defined with `direct`, which have no route
+     */
+    directHelpers(folder: string): string[] {
+        const key = routesKey(folder);
+        const table = this.tables.get(folder);
+        return table && table.key === key ? table.directs : [];
+    }
+
+    dispose(): void {
+        for (const child of this.children) {
+            child.kill();
+        }
+        this.children.clear();
+        this.listeners.clear();
+    }
+
+    private refresh(folder: string, key: string): Promise<RouteTable> {
+        const running = this.running.get(folder);
+        if (running?.key === key) {
+            return running.table;
+        }
+
+        const table = this.runRailsRoutes(folder, key).finally(() => {
+            if (this.running.get(folder)?.table === table) {
+                this.running.delete(folder);
+            }
+        });
+        this.running.set(folder, { key, table });
+        return table;
+    }
+
+    private async runRailsRoutes(folder: string, key: string): Promise<RouteTable> {
+        const staticTable = this.staticTable(folder, key);
+        const staticRoutes = staticTable.routes;
+        const railsBin = path.join(folder, 'bin', 'rails');
+
+        let routes = staticRoutes;
+        if (fs.existsSync(railsBin)) {
+            const output = await this.run(railsBin, folder);
+            if (output !== undefined) {
+                try {
+                    routes = parseRoutesOutput(output, folder, staticRoutes);
+                    this.log(`Read ${routes.length} routes from bin/rails routes in ${folder}`);
+                } catch (error) {
+                    this.log(`Could not read bin/rails routes output in ${folder}: ${error}`);
+                }
+            }
+        }
+
+        const table: RouteTable = { ...staticTable, routes, ran: true, complete: routes !== staticRoutes || staticTable.complete };
+        // A newer table may have been stored while this one ran
+        if (this.tables.get(folder)?.key === key) {
+            this.tables.set(folder, table);
+            if (routes !== staticRoutes) {
+                this.listeners.forEach(listener => listener(folder));
+            }
+        }
+        return table;
+    }
+
+    private run(railsBin: string, folder: string): Promise<string | undefined> {
+        const args = ['routes', '--expanded'];
+        const [command, commandArgs] = process.platform === 'win32'
+            ? [this.options.rubyPath?.() || 'ruby', [railsBin, ...args]]
+            : [railsBin, args];
+
+        return new Promise(resolve => {
+            const child = execFile(command, commandArgs, {
+                cwd: folder,
+                // Spring's server would outlive the command
+                env: { ...process.env, DISABLE_SPRING: '1' },
+                timeout: this.options.timeout ?? RAILS_ROUTES_TIMEOUT_MS,
+                maxBuffer: 32 * 1024 * 1024
+            }, (error, stdout, stderr) => {
+                this.children.delete(child);
+                if (error) {
+                    this.log(`bin/rails routes failed in ${folder}, using the routes files: ${String(stderr).trim() || error.message}`);
+                    resolve(undefined);
+                } else {
+                    resolve(String(stdout));
+                }
+            });
+            this.children.add(child);
+        });
+    }
+
+    private staticTable(folder: string, key: string): RouteTable {
+        const table = this.tables.get(folder);
+        if (table?.key === key) {
+            return table;
+        }
+
+        const routesFile = path.join(folder, 'config', 'routes.rb');
+        const staticTable: RouteTable = { key, routes: [], ran: false, complete: false, directs: [] };
+        try {
+            const parsed = readRoutesFile(routesFile, file => fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined);
+            staticTable.routes = parsed.routes;
+            staticTable.complete = parsed.unexpanded.length === 0;
+            staticTable.directs = parsed.directs;
+        } catch (error) {
+            this.log(`Failed to parse ${routesFile}: ${error}`);
+        }
+        this.tables.set(folder, staticTable);
+        return staticTable;
+    }
+
+    private log(message: string): void {
+        this.options.log?.(message);
+    }
+}
+
+/**
+ * Modification times of config/routes.rb and config/routes/**, undefined
+ * without config/routes.rb
+ */
+export function routesKey(folder: string): string | undefined {
+    const config = path.join(folder, 'config');
+    const stamps: string[] = [];
+
+    const stamp = (file: string): boolean => {
+        try {
+            stamps.push(`${path.relative(config, file)}:${fs.statSync(file).mtimeMs}`);
+            return true;
+        } catch {
+            return false;
+        }
+    };
+    const walk = (directory: string) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(directory, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                walk(entryPath);
+            } else if (entry.name.endsWith('.rb')) {
+                stamp(entryPath);
+            }
+        }
+    };
+
+    if (!stamp(path.join(config, 'routes.rb'))) {
+        return undefined;
+    }
+    walk(path.join(config, 'routes'));
+    return stamps.join('\n');
+}
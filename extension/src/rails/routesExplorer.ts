@@ -0,0 +1,237 @@
+import { RailsRoute } from './routesParser';
+
+/**
+ * Routes grouped for the Rails Routes view, checked against the controllers
+ *
+ * Routes are grouped by namespace (or mounted engine) and controller. A route
+ * is flagged when its controller is in app/controllers but has no public
+ * method for the action and no template for it in app/views/<controller>,
+ * which Rails renders without a method. A public controller method is flagged
+ * when no route reaches it. Methods inherited from parent controllers or
+ * concerns aren't seen.
+ */
+
+export interface ControllerAction {
+    name: string;
+    // 0-based line of the `def`
+    line: number;
+}
+
+export interface AppController {
+    // app/controllers/admin/users_controller.rb
+    file: string;
+    actions: ControllerAction[];
+    // Actions with a template in app/views/admin/users
+    templates: string[];
+}
+
+export interface RoutedAction {
+    route: RailsRoute;
+    // The controller is in the app but neither defines the action nor has its template
+    missingAction: boolean;
+    // No method for the action, but a template Rails renders implicitly
+    implicitAction: boolean;
+}
+
+export interface ControllerRoutes {
+    // admin/users, or undefined for mounted apps and redirects
+    controller?: string;
+    routes: RoutedAction[];
+    // Public methods of the controller no route reaches
+    unrouted: ControllerAction[];
+    appController?: AppController;
+}
+
+export interface RouteGroup {
+    // admin, api/v1; empty for routes outside any namespace
+    namespace: string;
+    // Mounted engine whose routes the group holds
+    engine?: string;
+    controllers: ControllerRoutes[];
+}
+
+export interface RouteFilter {
+    text: string;
+    verbs: string[];
+}
+
+const VERBS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+
+/**
+ * `get users` or `POST admin`: HTTP verbs among the words filter by verb,
+ * the other words by path, helper, controller or action
+ */
+export function parseRouteFilter(input: string): RouteFilter {
+    const words = input.trim().split(/\s+/).filter(word => word.length > 0);
+    return {
+        text: words.filter(word => !VERBS.has(word.toUpperCase())).join(' ').toLowerCase(),
+        verbs: words.filter(word => VERBS.has(word.toUpperCase())).map(word => word.toUpperCase())
+    };
+}
+
+export function matchesRouteFilter(route: RailsRoute, filter: RouteFilter): boolean {
+    if (filter.verbs.length > 0 && !route.verb.split('|').some(verb => filter.verbs.includes(verb))) {
+        return false;
+    }
+    if (!filter.text) {
+        return true;
+    }
+
+    const haystack = [
+        route.path,
+        routeHelper(route),
+        route.controller && `${route.controller}#${route.action}`,
+        route.endpoint
+    ].filter(Boolean).join(' ').toLowerCase();
+    return filter.text.split(' ').every(word => haystack.includes(word));
+}
+
+/**
+ * Path helper of a named route: `users_path`, `blog.posts_path`
+ */
+export function routeHelper(route: RailsRoute): string | undefined {
+    if (!route.name) {
+        return undefined;
+    }
+    return route.engine ? `${route.engine}.${route.name}_path` : `${route.name}_path`;
+}
+
+/**
+ * Public instance methods a controller defines, the actions routes can reach
+ */
+export function controllerActions(source: string): ControllerAction[] {
+    const actions: ControllerAction[] = [];
+    const hidden = new Set<string>();
+    let visible = true;
+
+    source.split('\n').forEach((text, line) => {
+        const code = text.replace(/#.*$/, '').trim();
+
+        if (/^(?:private|protected)$/.test(code)) {
+            visible = false;
+            return;
+        }
+        if (code === 'public') {
+            visible = true;
+            return;
+        }
+
+        // private :secret, :other
+        const hiding = code.match(/^(?:private|protected)\s+(:\w+(?:\s*,\s*:\w+)*)$/);
+        if (hiding) {
+            hiding[1].split(',').forEach(name => hidden.add(name.trim().slice(1)));
+            return;
+        }
+
+        const definition = code.match(/^def\s+([a-z_]\w*)\b(?!\s*\.)/);
+        if (definition && visible) {
+            actions.push({ name: definition[1], line });
+        }
+    });
+
+    return actions.filter(action => !hidden.has(action.name));
+}
+
+/**
+ * Actions a controller's view files render: `show.html.erb` -> show; partials are left out
+ */
+export function templateActions(files: string[]): string[] {
+    return [...new Set(files
+        .filter(file => !file.startsWith('_') && file.includes('.'))
+        .map(file => file.slice(0, file.indexOf('.'))))];
+}
+
+/**
+ * Routes grouped by namespace and controller, with the app's controllers
+ * keyed by controller path (`admin/users`)
+ */
+export function groupRoutes(routes: RailsRoute[], controllers: Map<string, AppController>, filter?: RouteFilter): RouteGroup[] {
+    const groups = new Map<string, RouteGroup>();
+    const groupFor = (namespace: string, engine?: string): RouteGroup => {
+        const key = `${engine ?? ''}\n${namespace}`;
+        let group = groups.get(key);
+        if (!group) {
+            group = { namespace, engine, controllers: [] };
+            groups.set(key, group);
+        }
+        return group;
+    };
+    const controllerIn = (group: RouteGroup, controller: string | undefined): ControllerRoutes => {
+        let entry = group.controllers.find(candidate => candidate.controller === controller);
+        if (!entry) {
+            entry = {
+                controller,
+                routes: [],
+                unrouted: [],
+                appController: controller && group.engine === undefined ? controllers.get(controller) : undefined
+            };
+            group.controllers.push(entry);
+        }
+        return entry;
+    };
+
+    const routed = new Set<string>();
+    for (const route of routes) {
+        if (route.controller && route.engine === undefined) {
+            routed.add(`${route.controller}#${route.action}`);
+        }
+    }
+
+    for (const route of routes) {
+        if (filter && !matchesRouteFilter(route, filter)) {
+            continue;
+        }
+        const entry = controllerIn(groupFor(namespaceOf(route.controller), route.engine), route.controller);
+        const undefinedAction = !!entry.appController && !entry.appController.actions.some(action => action.name === route.action);
+        const template = !!entry.appController?.templates.some(action => action === route.action);
+        entry.routes.push({ route, missingAction: undefinedAction && !template, implicitAction: undefinedAction && template });
+    }
+
+    // Actions no route reaches, also in controllers without any route
+    for (const [controller, appController] of controllers) {
+        const unrouted = appController.actions.filter(action =>
+            !routed.has(`${controller}#${action.name}`) && matchesUnrouted(controller, action, filter));
+        if (unrouted.length > 0) {
+            controllerIn(groupFor(namespaceOf(controller)), controller).unrouted.push(...unrouted);
+        }
+    }
+
+    const sorted = [...groups.values()].sort((a, b) =>
+        Number(a.engine !== undefined) - Number(b.engine !== undefined)
+        || (a.engine ?? '').localeCompare(b.engine ?? '')
+        || a.namespace.localeCompare(b.namespace));
+    for (const group of sorted) {
+        // Mounted apps and redirects last
+        group.controllers.sort((a, b) =>
+            Number(a.controller === undefined) - Number(b.controller === undefined)
+            || (a.controller ?? '').localeCompare(b.controller ?? ''));
+    }
+    return sorted;
+}
+
+/**
+ * Controller path of a controller file, `admin/users` for
+ * app/controllers/admin/users_controller.rb; ApplicationController and
+ * concerns are never routed to
+ */
+export function controllerPath(relativeFile: string): string | undefined {
+    const match = relativeFile.replace(/\\/g, '/').match(/^app\/controllers\/(.+)_controller\.rb$/);
+    return match && match[1] !== 'application' && !match[1].startsWith('concerns/') ? match[1] : undefined;
+}
+
+function namespaceOf(controller: string | undefined): string {
+    const slash = controller?.lastIndexOf('/') ?? -1;
+    return slash > 0 ? controller!.slice(0, slash) : '';
+}
+
+function matchesUnrouted(controller: string, action: ControllerAction, filter: RouteFilter | undefined): boolean {
+    if (!filter) {
+        return true;
+    }
+    // Unrouted actions have no verb to match
+    if (filter.verbs.length > 0) {
+        return false;
+    }
+    const haystack = `${controller}#${action.name}`.toLowerCase();
+    return filter.text.split(' ').every(word => haystack.includes(word));
+}
@@ -0,0 +1,295 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { RouteSource } from './routeSource';
+import {
+    AppController,
+    controllerActions,
+    ControllerAction,
+    controllerPath,
+    ControllerRoutes,
+    groupRoutes,
+    parseRouteFilter,
+    RouteGroup,
+    RoutedAction,
+    routeHelper,
+    templateActions
+} from './routesExplorer';
+
+export const RAILS_ROUTES_VIEW = 'rubymate.railsRoutes';
+
+type RoutesNode =
+    | { kind: 'group'; group: RouteGroup }
+    | { kind: 'controller'; entry: ControllerRoutes; label: string }
+    | { kind: 'route'; routed: RoutedAction; appController?: AppController }
+    | { kind: 'unrouted'; action: ControllerAction; controller: string; appController: AppController };
+
+/**
+ * "Rails Routes" view in the Explorer sidebar
+ *
+ * Lists the routes of the first workspace folder by namespace and controller.
+ * Selecting a route opens its controller action, or its definition when the
+ * controller isn't in the app; both are also offered on each route. Routes to
+ * actions without a method are flagged unless app/views has their template.
+ */
+export class RoutesExplorerProvider implements vscode.TreeDataProvider<RoutesNode>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<RoutesNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private view: vscode.TreeView<RoutesNode>;
+    private disposables: vscode.Disposable[] = [];
+    private groups: RouteGroup[] = [];
+    private filterText = '';
+    private stale = true;
+
+    constructor(private routeSource: RouteSource, private outputChannel: vscode.OutputChannel) {
+        this.view = vscode.window.createTreeView(RAILS_ROUTES_VIEW, { treeDataProvider: this, showCollapseAll: true });
+
+        // Routes and controllers are read again once the view shows after a change
+        const markStale = () => {
+            this.stale = true;
+            if (this.view.visible) {
+                this.refresh();
+            }
+        };
+        const watcher = vscode.workspace.createFileSystemWatcher('**/{config/routes.rb,config/routes/**/*.rb,app/controllers/**/*_controller.rb}');
+        watcher.onDidChange(markStale);
+        watcher.onDidCreate(markStale);
+        watcher.onDidDelete(markStale);
+        const routesChanged = this.routeSource.onDidChange(markStale);
+
+        this.disposables.push(
+            this.view,
+            this.changeEmitter,
+            watcher,
+            routesChanged,
+            this.view.onDidChangeVisibility(event => {
+                if (event.visible && this.stale) {
+                    this.refresh();
+                }
+            }),
+            vscode.commands.registerCommand('rubymate.rails.refreshRoutes', () => this.refresh()),
+            vscode.commands.registerCommand('rubymate.rails.filterRoutes', () => this.promptFilter()),
+            vscode.commands.registerCommand('rubymate.rails.clearRoutesFilter', () => this.setFilter('')),
+            vscode.commands.registerCommand('rubymate.rails.openRouteDefinition', (node: RoutesNode) => this.openDefinition(node)),
+            vscode.commands.registerCommand('rubymate.rails.openRouteAction', (node: RoutesNode) => this.openAction(node))
+        );
+
+        if (this.view.visible) {
+            this.refresh();
+        }
+    }
+
+    async reveal(): Promise<void> {
+        await vscode.commands.executeCommand(`${RAILS_ROUTES_VIEW}.focus`);
+    }
+
+    async refresh(): Promise<void> {
+        this.stale = false;
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!folder) {
+            this.show([], 'Open a Rails application to see its routes');
+            return;
+        }
+
+        try {
+            const routes = this.routeSource.routes(folder);
+            const controllers = await readControllers(folder);
+            const filter = this.filterText ? parseRouteFilter(this.filterText) : undefined;
+            const groups = groupRoutes(routes, controllers, filter);
+            this.show(groups, routes.length === 0 ? 'No routes found in config/routes.rb'
+                : groups.length === 0 ? `No routes match "${this.filterText}"`
+                : undefined);
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to list routes: ${error}`);
+            this.show([], `Could not list routes: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    getTreeItem(node: RoutesNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'group': {
+                const { group } = node;
+                const label = group.engine !== undefined ? group.engine : group.namespace || '/';
+                const item = new vscode.TreeItem(label, this.filterText
+                    ? vscode.TreeItemCollapsibleState.Expanded
+                    : vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = group.engine !== undefined ? 'engine' : undefined;
+                item.iconPath = new vscode.ThemeIcon(group.engine !== undefined ? 'package' : 'folder');
+                return item;
+            }
+            case 'controller': {
+                const { entry } = node;
+                const flagged = entry.unrouted.length + entry.routes.filter(routed => routed.missingAction).length;
+                const item = new vscode.TreeItem(node.label, this.filterText
+                    ? vscode.TreeItemCollapsibleState.Expanded
+                    : vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = `${entry.routes.length} route${entry.routes.length === 1 ? '' : 's'}${flagged > 0 ? `, ${flagged} to check` : ''}`;
+                item.iconPath = new vscode.ThemeIcon(entry.controller ? 'symbol-class' : 'link-external');
+                return item;
+            }
+            case 'route': {
+                const { route, missingAction } = node.routed;
+                const item = new vscode.TreeItem(`${route.verb || 'ANY'} ${route.path}`, vscode.TreeItemCollapsibleState.None);
+                item.description = routeHelper(route);
+                item.tooltip = routeTooltip(node.routed);
+                item.iconPath = missingAction
+                    ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+                    : new vscode.ThemeIcon('symbol-method');
+                item.contextValue = node.appController ? 'railsRouteWithAction' : 'railsRoute';
+                item.command = node.appController
+                    ? { command: 'rubymate.rails.openRouteAction', title: 'Open Controller Action', arguments: [node] }
+                    : { command: 'rubymate.rails.openRouteDefinition', title: 'Open Route Definition', arguments: [node] };
+                return item;
+            }
+            case 'unrouted': {
+                const item = new vscode.TreeItem(node.action.name, vscode.TreeItemCollapsibleState.None);
+                item.description = 'no route';
+                item.tooltip = `No route reaches ${node.controller}#${node.action.name}`;
+                item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+                item.command = { command: 'rubymate.rails.openRouteAction', title: 'Open Controller Action', arguments: [node] };
+                return item;
+            }
+        }
+    }
+
+    getChildren(node?: RoutesNode): RoutesNode[] {
+        if (!node) {
+            // Routes outside any namespace sit at the top
+            return this.groups.flatMap(group => !group.namespace && group.engine === undefined
+                ? this.controllerNodes(group)
+                : [{ kind: 'group', group } as RoutesNode]);
+        }
+        switch (node.kind) {
+            case 'group':
+                return this.controllerNodes(node.group);
+            case 'controller':
+                return [
+                    ...node.entry.routes.map(routed => ({ kind: 'route', routed, appController: node.entry.appController } as RoutesNode)),
+                    ...node.entry.unrouted.map(action => ({
+                        kind: 'unrouted',
+                        action,
+                        controller: node.entry.controller!,
+                        appController: node.entry.appController!
+                    } as RoutesNode))
+                ];
+            default:
+                return [];
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private controllerNodes(group: RouteGroup): RoutesNode[] {
+        return group.controllers.map(entry => ({
+            kind: 'controller',
+            entry,
+            label: entry.controller === undefined ? 'Mounted apps and redirects'
+                : group.namespace ? entry.controller.slice(group.namespace.length + 1)
+                : entry.controller
+        }));
+    }
+
+    private show(groups: RouteGroup[], message: string | undefined): void {
+        this.groups = groups;
+        this.view.message = message;
+        this.changeEmitter.fire(undefined);
+    }
+
+    private async promptFilter(): Promise<void> {
+        const input = await vscode.window.showInputBox({
+            prompt: 'Filter routes by path, helper, controller or action; HTTP verbs filter by verb',
+            placeHolder: 'get users',
+            value: this.filterText
+        });
+        if (input !== undefined) {
+            await this.setFilter(input.trim());
+        }
+    }
+
+    private async setFilter(text: string): Promise<void> {
+        this.filterText = text;
+        this.view.description = text ? `Filter: ${text}` : undefined;
+        await vscode.commands.executeCommand('setContext', 'rubymate.railsRoutesFiltered', !!text);
+        await this.refresh();
+    }
+
+    private async openDefinition(node: RoutesNode): Promise<void> {
+        if (node?.kind !== 'route') {
+            return;
+        }
+        const { route } = node.routed;
+        await openAt(route.file, route.line);
+    }
+
+    private async openAction(node: RoutesNode): Promise<void> {
+        if (node?.kind === 'unrouted') {
+            await openAt(node.appController.file, node.action.line);
+            return;
+        }
+        if (node?.kind !== 'route') {
+            return;
+        }
+
+        const { route } = node.routed;
+        if (!node.appController) {
+            vscode.window.showWarningMessage(`${route.controller ?? route.endpoint} is not a controller in app/controllers`);
+            return;
+        }
+        const action = node.appController.actions.find(candidate => candidate.name === route.action);
+        await openAt(node.appController.file, action?.line ?? 0);
+    }
+}
+
+/**
+ * Controllers under app/controllers by controller path, with their public methods
+ */
+async function readControllers(folder: string): Promise<Map<string, AppController>> {
+    const controllers = new Map<string, AppController>();
+    const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folder, 'app/controllers/**/*_controller.rb'),
+        '**/node_modules/**'
+    );
+
+    for (const uri of files) {
+        const controller = controllerPath(path.relative(folder, uri.fsPath));
+        if (!controller) {
+            continue;
+        }
+        try {
+            const source = await fs.promises.readFile(uri.fsPath, 'utf8');
+            const views = await fs.promises.readdir(path.join(folder, 'app', 'views', controller)).catch(() => [] as string[]);
+            controllers.set(controller, { file: uri.fsPath, actions: controllerActions(source), templates: templateActions(views) });
+        } catch {
+            // Deleted since it was found
+        }
+    }
+
+    return controllers;
+}
+
+function routeTooltip({ route, missingAction, implicitAction }: RoutedAction): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${route.verb || 'ANY'}** \`${route.path}\`\n\n`);
+    const helper = routeHelper(route);
+    if (helper) {
+        tooltip.appendMarkdown(`Helper: \`${helper}\`, \`${helper.replace(/_path$/, '_url')}\`\n\n`);
+    }
+    tooltip.appendMarkdown(route.controller ? `Action: \`${route.controller}#${route.action}\`\n\n` : `Endpoint: \`${route.endpoint ?? ''}\`\n\n`);
+    if (missingAction) {
+        tooltip.appendMarkdown(`$(warning) The controller has no \`${route.action}\` method and app/views/${route.controller} no \`${route.action}\` template\n\n`);
+    } else if (implicitAction) {
+        tooltip.appendMarkdown(`No \`${route.action}\` method: Rails renders the template in app/views/${route.controller}\n\n`);
+    }
+    tooltip.appendMarkdown(`Defined in ${vscode.workspace.asRelativePath(route.file)}:${route.line + 1}`);
+    tooltip.supportThemeIcons = true;
+    return tooltip;
+}
+
+async function openAt(file: string, line: number): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(file);
+    const position = new vscode.Position(line, 0);
+    await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+}
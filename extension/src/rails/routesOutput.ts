@@ -0,0 +1,130 @@
+import * as path from 'path';
+import { RailsRoute } from './routesParser';
+
+/**
+ * Route table printed by `bin/rails routes`
+ *
+ * Reads the `--expanded` listing, one `--[ Route 1 ]--` record per route with
+ * each mounted engine's routes in their own `[ Routes for Blog::Engine ]`
+ * section, or a JSON array of the same fields. Engine routes get the path
+ * they are mounted at. Routes without a source location in the app (older
+ * Rails, routes defined by gems) take the line of the matching route in the
+ * routes files, or of the `mount` of their engine.
+ */
+
+interface RouteRecord {
+    name?: string;
+    verb: string;
+    path: string;
+    // `users#index`, `Blog::Engine` or `redirect(301, /new)`, maybe with constraints
+    reqs: string;
+    sourceLocation?: string;
+    // Engine whose section lists the route
+    section?: string;
+}
+
+const EXPANDED_FIELDS: { [label: string]: keyof RouteRecord } = {
+    'Prefix': 'name',
+    'Verb': 'verb',
+    'URI': 'path',
+    'Controller#Action': 'reqs',
+    'Source Location': 'sourceLocation'
+};
+
+/**
+ * Routes in `bin/rails routes` output of the app in `folder`; `staticRoutes`
+ * are the routes parsed from its routes files, for source lines
+ */
+export function parseRoutesOutput(output: string, folder: string, staticRoutes: RailsRoute[]): RailsRoute[] {
+    const records = output.trimStart().startsWith('[') ? jsonRecords(output) : expandedRecords(output);
+    const mainRecords = records.filter(record => !record.section);
+
+    return records.map(record => {
+        const mount = record.section ? mainRecords.find(candidate => candidate.reqs === record.section) : undefined;
+        const route: RailsRoute = {
+            name: record.name || undefined,
+            verb: record.verb,
+            path: mount ? mountedPath(mount.path, record.path) : record.path,
+            file: path.join(folder, 'config', 'routes.rb'),
+            line: 0
+        };
+
+        const controllerAction = record.reqs.match(/^([\w/]+)#(\w+)(?:\s|$)/);
+        if (controllerAction) {
+            route.controller = controllerAction[1];
+            route.action = controllerAction[2];
+        } else if (record.reqs) {
+            route.endpoint = record.reqs;
+        }
+        if (record.section) {
+            route.engine = mount?.name || undefined;
+        }
+
+        // Engine route names are only unique within the engine
+        const site = sourceSite(record.sourceLocation, folder)
+            ?? staticSite(record.section ? { ...route, name: undefined } : route, staticRoutes)
+            ?? (mount && staticSite({ verb: mount.verb, path: mount.path, name: mount.name || undefined }, staticRoutes));
+        return site ? { ...route, ...site } : route;
+    });
+}
+
+function expandedRecords(output: string): RouteRecord[] {
+    const records: RouteRecord[] = [];
+    let section: string | undefined;
+    let record: RouteRecord | undefined;
+
+    for (const line of output.split(/\r?\n/)) {
+        const title = line.match(/^\[?\s*Routes for (\S+?)\s*\]?:?\s*$/);
+        if (title) {
+            section = title[1];
+            record = undefined;
+            continue;
+        }
+        if (/^--\[ Route \d+ \]/.test(line)) {
+            record = { verb: '', path: '', reqs: '', section };
+            records.push(record);
+            continue;
+        }
+
+        const field = line.match(/^([^|]+?)\s*\|\s?(.*)$/);
+        const key = field && EXPANDED_FIELDS[field[1]];
+        if (record && key) {
+            record[key] = field![2].trim();
+        }
+    }
+
+    return records;
+}
+
+function jsonRecords(output: string): RouteRecord[] {
+    const entries: any[] = JSON.parse(output);
+    return entries.filter(entry => entry && typeof entry === 'object').map(entry => ({
+        name: typeof entry.name === 'string' ? entry.name : undefined,
+        verb: typeof entry.verb === 'string' ? entry.verb : '',
+        path: typeof entry.path === 'string' ? entry.path : '',
+        reqs: typeof entry.reqs === 'string' ? entry.reqs : '',
+        sourceLocation: typeof entry.source_location === 'string' ? entry.source_location : undefined,
+        section: typeof entry.engine === 'string' ? entry.engine : undefined
+    }));
+}
+
+// `/blog` and `/posts(.:format)` -> `/blog/posts(.:format)`
+function mountedPath(mountPath: string, routePath: string): string {
+    const base = mountPath.replace(/\/$/, '');
+    return routePath === '/' ? base || '/' : `${base}${routePath}`;
+}
+
+// `config/routes.rb:12`; gem frames such as `devise (4.9.3) lib/...:242` aren't files
+function sourceSite(location: string | undefined, folder: string): { file: string; line: number } | undefined {
+    const match = location?.match(/^(.+):(\d+)$/);
+    if (!match || /\s\(/.test(match[1])) {
+        return undefined;
+    }
+    return { file: path.resolve(folder, match[1]), line: Math.max(Number(match[2]) - 1, 0) };
+}
+
+function staticSite(route: Pick<RailsRoute, 'name' | 'verb' | 'path'>, staticRoutes: RailsRoute[]): { file: string; line: number } | undefined {
+    const match = (route.name && staticRoutes.find(candidate => candidate.name === route.name))
+        || staticRoutes.find(candidate => candidate.verb === route.verb && candidate.path === route.path);
+    return match ? { file: match.file, line: match.line } : undefined;
+}
@@ -0,0 +1,722 @@
+import * as path from 'path';
+import { pluralize, singularize } from '../utils/inflection';
+import {
+    isFalse,
+    isTrue,
+    option,
+    parseRouteCalls,
+    RouteCall,
+    RubyOption,
+    RubyValue,
+    valueList,
+    valueText
+} from './routesSyntax';
+
+/**
+ * Route table of a Rails application, read from config/routes.rb
+ *
+ * Follows ActionDispatch::Routing::Mapper: scopes, namespaces, singular and
+ * plural resources with their nesting, shallow routes, member/collection/new
+ * blocks, concerns and `draw`n route files, so the verbs, paths, route names
+ * and controller actions match what `rails routes` prints. Routes built from
+ * values only known at runtime (interpolated strings, loops over constants)
+ * are left out.
+ */
+
+export interface RailsRoute {
+    // Route name, the `users` of `users_path`
+    name?: string;
+    // GET, POST, GET|POST; empty for mounted apps and `via: :all`
+    verb: string;
+    // Path pattern as `rails routes` prints it: /users/:id(.:format)
+    path: string;
+    // admin/users
+    controller?: string;
+    action?: string;
+    // Redirect or mounted Rack app that handles the route instead of a controller
+    endpoint?: string;
+    // Name of the mounted engine the route belongs to, whose helpers are `blog.posts_path`
+    engine?: string;
+    // File and 0-based line of the call that defines the route
+    file: string;
+    line: number;
+}
+
+export type ReadFile = (file: string) => string | undefined;
+
+export interface ParsedRoutes {
+    routes: RailsRoute[];
+    // Calls that may define routes the parser can't see, such as `devise_for`
+    unexpanded: string[];
+    // Custom URL helpers defined with `direct`, which have no route
+    directs: string[];
+}
+
+type ScopeLevel = 'scope' | 'resources' | 'resource' | 'nested' | 'member' | 'collection' | 'new';
+
+interface Resource {
+    singular: boolean;
+    // URL segment, `photos` or the `path:` option
+    path: string;
+    collectionName: string;
+    memberName: string;
+    controller: string;
+    param: string;
+    nestedParam: string;
+}
+
+interface Scope {
+    path: string;
+    as?: string;
+    module?: string;
+    controller?: string;
+    action?: string;
+    level: ScopeLevel;
+    resource?: Resource;
+    shallow: boolean;
+    shallowPath: string;
+    shallowPrefix?: string;
+    shallowDepth: number;
+    pathNames: { [action: string]: string };
+    format?: RubyValue;
+}
+
+const HTTP_VERBS = new Set(['get', 'post', 'put', 'patch', 'delete', 'options']);
+
+// Actions whose routes take no name prefix in resource scopes
+const CANONICAL_ACTIONS = new Set(['index', 'create', 'new', 'show', 'update', 'destroy']);
+
+const RESOURCES_ACTIONS = ['index', 'create', 'new', 'show', 'update', 'destroy', 'edit'];
+
+// Block methods that only add constraints, defaults or authentication around routes
+const PASSTHROUGH_METHODS = new Set(['constraints', 'defaults', 'devise_scope', 'authenticate', 'authenticated', 'unauthenticated']);
+
+// Calls known to add no routes
+const NON_ROUTE_METHODS = new Set(['resolve', 'require', 'require_relative', 'extend', 'include', 'puts']);
+
+const TOP_SCOPE: Scope = { path: '', level: 'scope', shallow: false, shallowPath: '', shallowDepth: 0, pathNames: {} };
+
+/**
+ * Routes defined by a routes file and the files it draws from config/routes/
+ */
+export function parseRoutesFile(file: string, readFile: ReadFile): RailsRoute[] {
+    return readRoutesFile(file, readFile).routes;
+}
+
+/**
+ * Routes of a routes file, with what the parser couldn't expand
+ */
+export function readRoutesFile(file: string, readFile: ReadFile): ParsedRoutes {
+    const text = readFile(file);
+    if (text === undefined) {
+        return { routes: [], unexpanded: [], directs: [] };
+    }
+    const mapper = new RouteMapper(path.join(path.dirname(file), 'routes'), readFile);
+    mapper.evaluateFile(text, file, TOP_SCOPE);
+    return { routes: mapper.routes, unexpanded: mapper.unexpanded, directs: mapper.directs };
+}
+
+/**
+ * Routes defined by the text of a routes file
+ */
+export function parseRoutes(text: string, file: string, readFile: ReadFile = () => undefined): RailsRoute[] {
+    const mapper = new RouteMapper(path.join(path.dirname(file), 'routes'), readFile);
+    mapper.evaluateFile(text, file, TOP_SCOPE);
+    return mapper.routes;
+}
+
+class RouteMapper {
+    readonly routes: RailsRoute[] = [];
+    readonly unexpanded: string[] = [];
+    readonly directs: string[] = [];
+    private names = new Set<string>();
+    private concerns = new Map<string, { calls: RouteCall[]; file: string }>();
+    // Files being drawn, so a file drawing itself doesn't recurse
+    private drawing = new Set<string>();
+
+    constructor(private drawDirectory: string, private readFile: ReadFile) {}
+
+    evaluateFile(text: string, file: string, scope: Scope): void {
+        this.drawing.add(file);
+        this.evaluate(parseRouteCalls(text), scope, file);
+        this.drawing.delete(file);
+    }
+
+    private evaluate(calls: RouteCall[], scope: Scope, file: string): void {
+        for (const call of calls) {
+            this.evaluateCall(call, scope, file);
+        }
+    }
+
+    private evaluateCall(call: RouteCall, scope: Scope, file: string): void {
+        const block = call.block;
+        if (call.transparent || !call.method) {
+            if (block) {
+                this.evaluate(block, scope, file);
+            }
+            return;
+        }
+        if (call.receiver) {
+            // Rails.application.routes.draw do ... end
+            if (block && ['draw', 'prepend', 'append'].includes(call.method)) {
+                this.evaluate(block, scope, file);
+            } else if (block) {
+                // %w[a b].each do |name| ... end
+                this.unexpanded.push(call.method);
+            }
+            return;
+        }
+
+        const method = call.method;
+        const site = { file, line: call.line };
+
+        if (HTTP_VERBS.has(method)) {
+            this.match(call, [method.toUpperCase()], scope, site);
+        } else if (method === 'match') {
+            const via = valueList(option(call.options, 'via'));
+            this.match(call, via.includes('all') ? [] : via.map(verb => verb.toUpperCase()), scope, site);
+        } else if (method === 'root') {
+            this.root(call, scope, site);
+        } else if (method === 'resources' || method === 'resource') {
+            this.resources(call, method === 'resource', scope, file);
+        } else if (method === 'namespace') {
+            this.namespace(call, scope, file);
+        } else if (method === 'scope') {
+            const scopePath = call.args.map(valueText).filter((part): part is string => part !== undefined).join('/');
+            this.withBlock(call, this.scoped(scope, call.options, scopePath || undefined), file);
+        } else if (method === 'controller') {
+            const controller = valueText(call.args[0]);
+            this.withBlock(call, controller ? this.scoped(scope, [...call.options, symbolOption('controller', controller)]) : scope, file);
+        } else if (method === 'shallow') {
+            this.withBlock(call, { ...scope, shallow: true }, file);
+        } else if (method === 'member' || method === 'collection' || method === 'new') {
+            this.withBlock(call, this.levelScope(scope, method) || scope, file);
+        } else if (method === 'nested') {
+            this.withBlock(call, scope.resource ? this.nestedScope(scope) : scope, file);
+        } else if (method === 'concern') {
+            const name = valueText(call.args[0]);
+            if (name && block) {
+                this.concerns.set(name, { calls: block, file });
+            }
+        } else if (method === 'concerns') {
+            this.applyConcerns(call.args.flatMap(valueList), scope);
+        } else if (method === 'draw') {
+            this.draw(valueText(call.args[0]), scope);
+        } else if (method === 'mount') {
+            this.mount(call, scope, site);
+        } else if (method === 'direct') {
+            const name = valueText(call.args[0]);
+            if (name) {
+                this.directs.push(name);
+            }
+        } else if (block && PASSTHROUGH_METHODS.has(method)) {
+            this.evaluate(block, scope, file);
+        } else if (!NON_ROUTE_METHODS.has(method)) {
+            this.unexpanded.push(method);
+        }
+    }
+
+    private withBlock(call: RouteCall, scope: Scope, file: string): void {
+        if (call.block) {
+            this.evaluate(call.block, scope, file);
+        }
+    }
+
+    // Scopes and routes
+
+    /**
+     * `scope`, with ActionDispatch's merging of each option into the parent scope
+     */
+    private scoped(scope: Scope, options: RubyOption[], scopePath?: string): Scope {
+        const child: Scope = { ...scope };
+        const pathOption = scopePath ?? valueText(option(options, 'path'));
+        if (pathOption !== undefined) {
+            child.path = joinPath(scope.path, pathOption);
+        }
+
+        const moduleOption = valueText(option(options, 'module'));
+        if (moduleOption) {
+            child.module = scope.module ? `${scope.module}/${moduleOption}` : moduleOption;
+        }
+        const as = valueText(option(options, 'as'));
+        if (as) {
+            child.as = mergeName(scope.as, as);
+        }
+        const controller = valueText(option(options, 'controller'));
+        if (controller) {
+            child.controller = controller;
+        }
+        const action = valueText(option(options, 'action'));
+        if (action) {
+            child.action = action;
+        }
+
+        const shallowPath = valueText(option(options, 'shallow_path'));
+        if (shallowPath !== undefined) {
+            child.shallowPath = joinPath(scope.shallowPath, shallowPath);
+        }
+        const shallowPrefix = valueText(option(options, 'shallow_prefix'));
+        if (shallowPrefix) {
+            child.shallowPrefix = mergeName(scope.shallowPrefix, shallowPrefix);
+        }
+        if (isTrue(option(options, 'shallow'))) {
+            child.shallow = true;
+        }
+
+        const pathNames = option(options, 'path_names');
+        if (pathNames?.kind === 'hash') {
+            child.pathNames = { ...scope.pathNames };
+            for (const entry of pathNames.options) {
+                const [key, value] = [valueText(entry.key), valueText(entry.value)];
+                if (key && value) {
+                    child.pathNames[key] = value;
+                }
+            }
+        }
+        const format = option(options, 'format');
+        if (format) {
+            child.format = format;
+        }
+        return child;
+    }
+
+    private namespace(call: RouteCall, scope: Scope, file: string): void {
+        const name = valueText(call.args[0]);
+        if (!name) {
+            return;
+        }
+        // A namespace inside a resource is nested under its member
+        const parent = this.isResourceScope(scope) ? this.nestedScope(scope) : scope;
+
+        const namespacePath = valueText(option(call.options, 'path')) ?? name;
+        const as = valueText(option(call.options, 'as')) ?? name;
+        const options = call.options.filter(entry => !['path', 'as', 'module'].includes(valueText(entry.key) || ''));
+        const child = this.scoped(parent, [
+            ...options,
+            symbolOption('module', valueText(option(call.options, 'module')) ?? name),
+            symbolOption('as', as),
+            symbolOption('shallow_path', valueText(option(call.options, 'shallow_path')) ?? namespacePath),
+            symbolOption('shallow_prefix', valueText(option(call.options, 'shallow_prefix')) ?? as)
+        ], namespacePath);
+        this.withBlock(call, child, file);
+    }
+
+    private root(call: RouteCall, scope: Scope, site: { file: string; line: number }): void {
+        const options = [...call.options];
+        const to = valueText(call.args[0]);
+        if (to && !option(options, 'to')) {
+            options.push(symbolOption('to', to));
+        }
+        const as = option(options, 'as') ?? { kind: 'symbol', value: 'root' };
+        this.addRoute(['GET'], '/', undefined, options, as, { ...scope, level: 'scope' }, site);
+    }
+
+    private mount(call: RouteCall, scope: Scope, site: { file: string; line: number }): void {
+        // mount Sidekiq::Web => '/sidekiq' or mount Sidekiq::Web, at: '/sidekiq'
+        const arrow = call.options.find(entry => entry.key.kind === 'const' || entry.key.kind === 'literal');
+        const app = arrow?.key ?? call.args[0];
+        const appName = app?.kind === 'const' || app?.kind === 'literal' ? app.value : undefined;
+        const at = valueText(arrow?.value) ?? valueText(option(call.options, 'at')) ??
+            (app?.kind === 'const' ? `/${underscore(app.value)}` : undefined);
+        if (!at) {
+            return;
+        }
+
+        // Engines are named after the engine (`blorgh`), other apps after their class (`sidekiq_web`)
+        const asOption = option(call.options, 'as');
+        const as = asOption ? valueText(asOption)
+            : app?.kind === 'const' ? underscore(app.value.replace(/::Engine$/, '')).replace(/\//g, '_')
+            : undefined;
+        const name = as ? this.nameFor(scope, as, undefined) : undefined;
+        this.push({
+            name,
+            verb: '',
+            path: normalizePath(joinPath(scope.path, at)),
+            endpoint: appName,
+            ...site
+        }, name);
+    }
+
+    /**
+     * `get`, `post`, ... and `match`: each path or action becomes a route in the current scope
+     */
+    private match(call: RouteCall, verbs: string[], scope: Scope, site: { file: string; line: number }): void {
+        const options = call.options.filter(entry => entry.key.kind === 'symbol');
+        // get 'photos/:id' => 'photos#show'
+        const shorthand = call.options.find(entry => entry.key.kind === 'string');
+        if (shorthand) {
+            options.push({ key: { kind: 'symbol', value: 'to' }, value: shorthand.value });
+        }
+
+        const targets: Array<{ path?: string; action?: string }> = [];
+        for (const arg of shorthand ? [shorthand.key, ...call.args] : call.args) {
+            if (arg.kind === 'symbol' && !arg.dynamic) {
+                targets.push({ action: arg.value });
+            } else if (arg.kind === 'string' && !arg.dynamic) {
+                targets.push({ path: arg.value });
+            }
+        }
+        if (targets.length === 0 && call.args.length > 0) {
+            return;
+        }
+
+        let routeScope = scope;
+        const on = valueText(option(options, 'on'));
+        if (on) {
+            const onScope = on === 'member' || on === 'collection' || on === 'new' ? this.levelScope(scope, on) : undefined;
+            if (!onScope) {
+                return;
+            }
+            routeScope = onScope;
+        } else if (scope.level === 'resources') {
+            routeScope = this.nestedScope(scope);
+        } else if (scope.level === 'resource') {
+            routeScope = this.levelScope(scope, 'member') || scope;
+        }
+
+        const asOption = option(options, 'as');
+        for (const target of targets) {
+            this.addRoute(verbs, target.path, target.action, options, asOption, routeScope, site);
+        }
+    }
+
+    /**
+     * One route, named and pathed the way Mapper#add_route does it
+     *
+     * @param routePath String path given to the verb (`get 'photos/search'`)
+     * @param symbolAction Symbol given to the verb (`get :search`)
+     */
+    private addRoute(
+        verbs: string[],
+        routePath: string | undefined,
+        symbolAction: string | undefined,
+        options: RubyOption[],
+        asOption: RubyValue | undefined,
+        scope: Scope,
+        site: { file: string; line: number }
+    ): void {
+        const to = option(options, 'to');
+        let controller = valueText(option(options, 'controller')) ?? scope.controller;
+        let action = valueText(option(options, 'action')) ?? scope.action;
+        let endpoint: string | undefined;
+
+        // `get 'photos/search'` is short for `to: 'photos#search'`
+        const toText = valueText(to) ?? (!to && !option(options, 'action') && routePath ? matchShorthand(routePath) : undefined);
+        if (toText?.includes('#')) {
+            const [toController, toAction] = toText.split('#');
+            controller = toController || controller;
+            action = toAction || action;
+        } else if (to?.kind === 'call' && to.name === 'redirect') {
+            // As `rails routes` prints it: redirect(301, /new)
+            const status = option(to.options, 'status');
+            const code = status?.kind === 'literal' && /^\d+$/.test(status.value) ? status.value : '301';
+            const target = valueText(to.args[0]);
+            endpoint = target !== undefined ? `redirect(${code}, ${target})` : 'redirect';
+        } else if (to?.kind === 'call') {
+            endpoint = to.name;
+        } else if (to?.kind === 'const' || to?.kind === 'literal') {
+            endpoint = to.value;
+        }
+
+        // The string or symbol given names the route and, without `to:`, the action
+        const nameSource = symbolAction ?? routePath;
+        const validAction = nameSource !== undefined && /^[\w\-/]+$/.test(nameSource) ? nameSource : undefined;
+        if (!action && validAction && !validAction.includes('/')) {
+            action = validAction.replace(/-/g, '_');
+        }
+
+        const explicitPath = routePath ?? valueText(option(options, 'path'));
+        const fullPath = explicitPath !== undefined ? joinPath(scope.path, explicitPath)
+            : this.isCanonical(scope, symbolAction) ? scope.path
+            : joinPath(scope.path, scope.pathNames[symbolAction || ''] || symbolAction || '');
+
+        const name = isFalse(asOption) ? undefined : this.nameFor(scope, valueText(asOption), validAction);
+        const format = option(options, 'format') ?? scope.format;
+        this.push({
+            name,
+            verb: verbs.join('|'),
+            path: formatPath(normalizePath(fullPath), format),
+            controller: controller && !endpoint ? moduleController(scope.module, controller) : undefined,
+            action: endpoint ? undefined : action,
+            endpoint,
+            ...site
+        }, name);
+    }
+
+    private push(route: RailsRoute, name: string | undefined): void {
+        if (name) {
+            this.names.add(name);
+        }
+        this.routes.push(route);
+    }
+
+    /**
+     * Mapper#name_for_action: the route name from the scope and the action or `as:`
+     */
+    private nameFor(scope: Scope, as: string | undefined, action: string | undefined): string | undefined {
+        let prefix: string | undefined;
+        if (as) {
+            prefix = as;
+        } else if (action && !this.isCanonical(scope, action)) {
+            prefix = action;
+        }
+        if (prefix !== undefined) {
+            prefix = prefix.replace(/-/g, '_').replace(/^\/+|\/+$/g, '').replace(/\/+/g, '_') || undefined;
+        }
+
+        const resource = scope.resource;
+        if (resource && !as && !action) {
+            return undefined;
+        }
+        const memberName = resource?.memberName;
+        const collectionName = resource?.collectionName;
+
+        let parts: Array<string | undefined>;
+        switch (scope.level) {
+            case 'nested':
+                parts = [scope.as, prefix];
+                break;
+            case 'collection':
+                parts = [prefix, scope.as, collectionName];
+                break;
+            case 'new':
+                parts = [prefix, 'new', scope.as, memberName];
+                break;
+            case 'member':
+                parts = [prefix, scope.as, memberName];
+                break;
+            default:
+                parts = [scope.as, memberName, prefix];
+        }
+
+        const candidate = parts.filter(part => part).join('_');
+        if (!candidate) {
+            return undefined;
+        }
+        if (as) {
+            return candidate;
+        }
+        return /^[_a-z]\w*$/i.test(candidate) && !this.names.has(candidate) ? candidate : undefined;
+    }
+
+    private isCanonical(scope: Scope, action: string | undefined): boolean {
+        return !!action && ['collection', 'member', 'new'].includes(scope.level) && CANONICAL_ACTIONS.has(action);
+    }
+
+    // Resources
+
+    private resources(call: RouteCall, singular: boolean, scope: Scope, file: string): void {
+        const names = call.args.map(valueText).filter((name): name is string => name !== undefined);
+        const shallow = isTrue(option(call.options, 'shallow'));
+
+        for (const name of names) {
+            // Resources inside a resource are nested under its member
+            let parent = this.isResourceScope(scope) ? this.nestedScope(scope) : scope;
+            if (shallow) {
+                parent = { ...parent, shallow: true };
+            }
+            parent = this.scoped(parent, call.options.filter(entry =>
+                ['module', 'path_names', 'format', 'shallow_path', 'shallow_prefix'].includes(valueText(entry.key) || '')));
+
+            const resource = makeResource(name, call.options, singular);
+            const resourceScope: Scope = {
+                ...parent,
+                level: singular ? 'resource' : 'resources',
+                resource,
+                controller: resource.controller,
+                action: undefined
+            };
+
+            if (call.block) {
+                this.evaluate(call.block, resourceScope, file);
+            }
+            this.applyConcerns(valueList(option(call.options, 'concerns')), resourceScope);
+            this.defaultRoutes(resourceScope, resourceActions(call.options, singular), { file, line: call.line });
+        }
+    }
+
+    private defaultRoutes(scope: Scope, actions: Set<string>, site: { file: string; line: number }): void {
+        const route = (verb: string, action: string, level: 'member' | 'collection' | 'new') => {
+            if (actions.has(action)) {
+                this.addRoute([verb], undefined, action, [], undefined, this.levelScope(scope, level)!, site);
+            }
+        };
+
+        if (scope.resource?.singular) {
+            route('GET', 'new', 'new');
+            route('GET', 'edit', 'member');
+            route('GET', 'show', 'member');
+            route('PATCH', 'update', 'member');
+            route('PUT', 'update', 'member');
+            route('DELETE', 'destroy', 'member');
+            route('POST', 'create', 'collection');
+        } else {
+            route('GET', 'index', 'collection');
+            route('POST', 'create', 'collection');
+            route('GET', 'new', 'new');
+            route('GET', 'edit', 'member');
+            route('GET', 'show', 'member');
+            route('PATCH', 'update', 'member');
+            route('PUT', 'update', 'member');
+            route('DELETE', 'destroy', 'member');
+        }
+    }
+
+    private isResourceScope(scope: Scope): boolean {
+        return scope.level === 'resources' || scope.level === 'resource';
+    }
+
+    /**
+     * Scope of `member`, `collection` and `new` blocks; undefined outside a resource
+     */
+    private levelScope(scope: Scope, level: 'member' | 'collection' | 'new'): Scope | undefined {
+        const resource = scope.resource;
+        if (!resource || !this.isResourceScope(scope)) {
+            return undefined;
+        }
+
+        if (level === 'collection') {
+            return { ...scope, level, path: joinPath(scope.path, resource.path) };
+        }
+        if (level === 'new') {
+            return { ...scope, level, path: joinPath(scope.path, `${resource.path}/${scope.pathNames.new || 'new'}`) };
+        }
+
+        const memberPath = resource.singular ? resource.path : `${resource.path}/:${resource.param}`;
+        // Shallow members drop the resources they are nested in
+        if (scope.shallow && !resource.singular) {
+            return { ...scope, level, path: joinPath(scope.shallowPath, memberPath), as: scope.shallowPrefix };
+        }
+        return { ...scope, level, path: joinPath(scope.path, memberPath) };
+    }
+
+    private nestedScope(scope: Scope): Scope {
+        const resource = scope.resource!;
+        const base = scope.shallow && scope.shallowDepth >= 1 ? { path: scope.shallowPath, as: scope.shallowPrefix } : scope;
+        const nestedPath = resource.singular ? resource.path : `${resource.path}/:${resource.nestedParam}`;
+        return {
+            ...scope,
+            level: 'nested',
+            path: joinPath(base.path, nestedPath),
+            as: mergeName(base.as, resource.memberName),
+            shallowDepth: scope.shallow ? scope.shallowDepth + 1 : scope.shallowDepth
+        };
+    }
+
+    private applyConcerns(names: string[], scope: Scope): void {
+        for (const name of names) {
+            const concern = this.concerns.get(name);
+            if (concern) {
+                this.evaluate(concern.calls, scope, concern.file);
+            }
+        }
+    }
+
+    private draw(name: string | undefined, scope: Scope): void {
+        if (!name) {
+            return;
+        }
+        const file = path.join(this.drawDirectory, `${name}.rb`);
+        const text = this.drawing.has(file) ? undefined : this.readFile(file);
+        if (text !== undefined) {
+            this.evaluateFile(text, file, scope);
+        }
+    }
+}
+
+function makeResource(name: string, options: RubyOption[], singular: boolean): Resource {
+    const as = valueText(option(options, 'as'));
+    const param = valueText(option(options, 'param')) || 'id';
+    const resourcePath = valueText(option(options, 'path')) ?? name;
+    const controller = valueText(option(options, 'controller'));
+
+    if (singular) {
+        const memberName = as || name;
+        return {
+            singular,
+            path: resourcePath,
+            collectionName: memberName,
+            memberName,
+            controller: controller || pluralize(name),
+            param,
+            nestedParam: `${memberName}_${param}`
+        };
+    }
+
+    const plural = as || name;
+    const memberName = singularize(plural);
+    return {
+        singular,
+        path: resourcePath,
+        collectionName: memberName === plural ? `${plural}_index` : plural,
+        memberName,
+        controller: controller || name,
+        param,
+        nestedParam: `${memberName}_${param}`
+    };
+}
+
+function resourceActions(options: RubyOption[], singular: boolean): Set<string> {
+    const defaults = singular ? RESOURCES_ACTIONS.filter(action => action !== 'index') : RESOURCES_ACTIONS;
+    const only = option(options, 'only');
+    const except = option(options, 'except');
+    if (only) {
+        const allowed = new Set(valueList(only));
+        return new Set(defaults.filter(action => allowed.has(action)));
+    }
+    const excluded = new Set(valueList(except));
+    return new Set(defaults.filter(action => !excluded.has(action)));
+}
+
+function symbolOption(name: string, value: string): RubyOption {
+    return { key: { kind: 'symbol', value: name }, value: { kind: 'string', value } };
+}
+
+// Mapper#get_to_from_path: `photos/search` -> `photos#search`
+function matchShorthand(routePath: string): string | undefined {
+    const withoutFormat = routePath.replace(/\(\.:format\)$/, '');
+    if (!/^\/?[-\w]+\/[-\w/]+$/.test(withoutFormat)) {
+        return undefined;
+    }
+    return withoutFormat.replace(/^\//, '').replace(/\/([^/]*)$/, '#$1').replace(/-/g, '_');
+}
+
+function moduleController(module: string | undefined, controller: string): string {
+    if (controller.startsWith('/')) {
+        return controller.slice(1);
+    }
+    return module ? `${module}/${controller}` : controller;
+}
+
+function mergeName(parent: string | undefined, child: string): string {
+    return parent ? `${parent}_${child}` : child;
+}
+
+function joinPath(parent: string, child: string): string {
+    return `${parent}/${child}`;
+}
+
+// Journey::Router::Utils.normalize_path
+function normalizePath(routePath: string): string {
+    const normalized = `/${routePath}`.replace(/\/{2,}/g, '/');
+    return normalized === '/' ? normalized : normalized.replace(/\/$/, '');
+}
+
+function formatPath(routePath: string, format: RubyValue | undefined): string {
+    if (isTrue(format)) {
+        return `${routePath}.:format`;
+    }
+    if (isFalse(format) || /(?:\(\.:format\)+|\.:format|\/)$/.test(routePath)) {
+        return routePath;
+    }
+    return `${routePath}(.:format)`;
+}
+
+// Sidekiq::Web -> sidekiq/web
+function underscore(name: string): string {
+    return name
+        .replace(/::/g, '/')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+        .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+        .toLowerCase();
+}
@@ -0,0 +1,645 @@
+/**
+ * Just enough Ruby syntax to read a routes file
+ *
+ * Routes files are method calls with literal arguments and `do ... end`
+ * blocks, so they are read as a tree of calls. Control flow (`if`, `case`,
+ * `begin`) is kept as transparent blocks; method, class and module bodies are
+ * dropped. Arguments are literals (strings, symbols, arrays, hashes,
+ * constants) or calls such as `redirect('/x')`; anything else stays opaque.
+ */
+
+export interface RouteCall {
+    // Method name; undefined for statements that aren't calls
+    method?: string;
+    // Called on an explicit receiver: `Rails.application.routes.draw`
+    receiver: boolean;
+    args: RubyValue[];
+    options: RubyOption[];
+    // 0-based line the call starts on
+    line: number;
+    block?: RouteCall[];
+    // `if`/`unless`/`case`/`begin` bodies, whose calls all count
+    transparent?: boolean;
+}
+
+export type RubyValue =
+    | { kind: 'string' | 'symbol'; value: string; dynamic?: boolean }
+    | { kind: 'array'; items: RubyValue[] }
+    | { kind: 'hash'; options: RubyOption[] }
+    | { kind: 'const'; value: string }
+    | { kind: 'call'; name: string; args: RubyValue[]; options: RubyOption[] }
+    // Numbers, true/false/nil, regexps, lambdas and expressions
+    | { kind: 'literal'; value: string };
+
+export interface RubyOption {
+    // Labels (`to:`) and `:to =>` keys are symbols; `'photos' => 'photos#index'` has a string key
+    key: RubyValue;
+    value: RubyValue;
+}
+
+interface Token {
+    type: 'ident' | 'const' | 'label' | 'symbol' | 'string' | 'number' | 'regex' | 'words' | 'punct' | 'newline';
+    value: string;
+    line: number;
+    // Interpolated string or symbol
+    dynamic?: boolean;
+    // %w[] / %i[] items
+    items?: string[];
+    // `{` opening a block rather than a hash
+    block?: boolean;
+}
+
+const TRANSPARENT_KEYWORDS = new Set(['if', 'unless', 'case', 'while', 'until', 'begin', 'for']);
+const DROPPED_KEYWORDS = new Set(['def', 'class', 'module']);
+const CLAUSE_KEYWORDS = new Set(['else', 'elsif', 'when', 'in', 'rescue', 'ensure', 'then']);
+const MODIFIER_KEYWORDS = new Set(['if', 'unless', 'while', 'until', 'rescue']);
+
+// Tokens after which a newline doesn't end the statement
+const CONTINUATION_TOKENS = new Set([',', '\\', '=>', '.', '&.', '&&', '||', '+', '-', '*', '=', '(', '[', '{', '|']);
+
+const PUNCTUATION = ['=>', '->', '&.', '::', '**', '==', '!=', '||', '&&', '<=', '>=', '..', '(', ')', '[', ']', '{', '}', ',', '.', ';', '|', '=', '&', '*', '+', '-', '!', '?', '<', '>', '%', '^', '~', ':', '/'];
+
+const PAIRS: { [open: string]: string } = { '(': ')', '[': ']', '{': '}', '<': '>' };
+
+/**
+ * Calls in a routes file, with their arguments and blocks
+ */
+export function parseRouteCalls(text: string): RouteCall[] {
+    const parser = new CallParser(tokenize(text));
+    return parser.parseBody(undefined);
+}
+
+export function valueText(value: RubyValue | undefined): string | undefined {
+    return value && (value.kind === 'string' || value.kind === 'symbol') && !value.dynamic ? value.value : undefined;
+}
+
+export function valueList(value: RubyValue | undefined): string[] {
+    if (value?.kind === 'array') {
+        return value.items.map(valueText).filter((item): item is string => item !== undefined);
+    }
+    const text = valueText(value);
+    return text !== undefined ? [text] : [];
+}
+
+export function option(options: RubyOption[], name: string): RubyValue | undefined {
+    return options.find(candidate => candidate.key.kind === 'symbol' && candidate.key.value === name)?.value;
+}
+
+export function isFalse(value: RubyValue | undefined): boolean {
+    return value?.kind === 'literal' && (value.value === 'false' || value.value === 'nil');
+}
+
+export function isTrue(value: RubyValue | undefined): boolean {
+    return value?.kind === 'literal' && value.value === 'true';
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const heredocs: Array<{ id: string; indented: boolean }> = [];
+    let line = 0;
+    let i = 0;
+
+    const previous = () => tokens[tokens.length - 1];
+    const push = (token: Omit<Token, 'line'>, startLine = line) => tokens.push({ ...token, line: startLine });
+    // Whether a value can start here, which tells `/` and `<<` apart from operators
+    const valueExpected = () => {
+        const last = previous();
+        return !last || last.type === 'newline' || last.type === 'label' ||
+            (last.type === 'punct' && ![')', ']', '}'].includes(last.value)) ||
+            (last.type === 'ident' && !/^(end|self|true|false|nil)$/.test(last.value));
+    };
+
+    // Reads a delimited literal body starting after its opening delimiter
+    const readDelimited = (close: string, open: string | undefined): { body: string; dynamic: boolean } => {
+        let body = '';
+        let depth = 0;
+        let dynamic = false;
+        while (i < text.length) {
+            const char = text[i];
+            if (char === '\\') {
+                body += text.slice(i, i + 2);
+                i += 2;
+                continue;
+            }
+            if (char === '\n') {
+                line++;
+            }
+            if (char === '#' && text[i + 1] === '{') {
+                dynamic = true;
+            }
+            if (open && char === open) {
+                depth++;
+            } else if (char === close) {
+                if (depth === 0) {
+                    i++;
+                    break;
+                }
+                depth--;
+            }
+            body += char;
+            i++;
+        }
+        return { body, dynamic };
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+        const atLineStart = i === 0 || text[i - 1] === '\n';
+
+        if (char === '\n') {
+            push({ type: 'newline', value: '\n' });
+            i++;
+            line++;
+            // Heredoc bodies start on the next line
+            while (heredocs.length > 0) {
+                const heredoc = heredocs.shift()!;
+                while (i < text.length) {
+                    const end = text.indexOf('\n', i);
+                    const current = text.slice(i, end === -1 ? text.length : end);
+                    i = end === -1 ? text.length : end + 1;
+                    line++;
+                    if ((heredoc.indented ? current.trim() : current) === heredoc.id) {
+                        break;
+                    }
+                }
+            }
+            continue;
+        }
+        if (char === ' ' || char === '\t' || char === '\r') {
+            i++;
+            continue;
+        }
+        if (char === '\\' && text[i + 1] === '\n') {
+            i += 2;
+            line++;
+            continue;
+        }
+        if (char === '#') {
+            while (i < text.length && text[i] !== '\n') {
+                i++;
+            }
+            continue;
+        }
+        if (atLineStart && text.startsWith('=begin', i)) {
+            const end = text.indexOf('\n=end', i);
+            const skipped = text.slice(i, end === -1 ? text.length : end + 5);
+            line += (skipped.match(/\n/g) || []).length;
+            i += skipped.length;
+            continue;
+        }
+        if (atLineStart && text.startsWith('__END__', i)) {
+            break;
+        }
+
+        const startLine = line;
+
+        if (char === '"' || char === '\'' || char === '`') {
+            i++;
+            const { body, dynamic } = readDelimited(char, undefined);
+            // `"key": value` is a label
+            if (text[i] === ':' && text[i + 1] !== ':') {
+                i++;
+                push({ type: 'label', value: unescape(body) }, startLine);
+            } else {
+                push({ type: 'string', value: unescape(body), dynamic: char !== '\'' && dynamic }, startLine);
+            }
+            continue;
+        }
+
+        const percent = char === '%' && valueExpected() ? text.slice(i).match(/^%([qQwWiIr]?)([^\w\s])/) : null;
+        if (percent) {
+            i += percent[0].length;
+            const open = percent[2];
+            const { body, dynamic } = readDelimited(PAIRS[open] || open, PAIRS[open] ? open : undefined);
+            const kind = percent[1];
+            if (/[wWiI]/.test(kind)) {
+                push({ type: 'words', value: kind.toLowerCase(), items: body.trim().split(/\s+/).filter(Boolean) }, startLine);
+            } else if (kind === 'r') {
+                push({ type: 'regex', value: body }, startLine);
+            } else {
+                push({ type: 'string', value: body, dynamic: kind !== 'q' && dynamic }, startLine);
+            }
+            continue;
+        }
+
+        const heredoc = char === '<' && valueExpected() ? text.slice(i).match(/^<<([~-]?)(["'`]?)([A-Za-z_]\w*)\2/) : null;
+        if (heredoc) {
+            i += heredoc[0].length;
+            heredocs.push({ id: heredoc[3], indented: heredoc[1] !== '' });
+            push({ type: 'string', value: '', dynamic: true }, startLine);
+            continue;
+        }
+
+        if (char === '/' && valueExpected()) {
+            i++;
+            const { body } = readDelimited('/', undefined);
+            while (/[a-z]/.test(text[i] || '')) {
+                i++;
+            }
+            push({ type: 'regex', value: body }, startLine);
+            continue;
+        }
+
+        if (char === ':' && text[i + 1] === '"') {
+            i += 2;
+            const { body, dynamic } = readDelimited('"', undefined);
+            push({ type: 'symbol', value: unescape(body), dynamic }, startLine);
+            continue;
+        }
+        const symbol = char === ':' ? text.slice(i).match(/^:([A-Za-z_]\w*[?!=]?|\[\]=?|[+\-*\/%<>=!~^&|]+)/) : null;
+        if (symbol && text[i + 1] !== ':') {
+            i += symbol[0].length;
+            push({ type: 'symbol', value: symbol[1] }, startLine);
+            continue;
+        }
+
+        const word = text.slice(i).match(/^[A-Za-z_]\w*[?!]?/);
+        if (word) {
+            i += word[0].length;
+            // `to:` but not `Foo::Bar` or the `a ? b : c` ternary
+            if (text[i] === ':' && text[i + 1] !== ':' && !word[0].endsWith('?')) {
+                i++;
+                push({ type: 'label', value: word[0] }, startLine);
+            } else {
+                push({ type: /^[A-Z]/.test(word[0]) ? 'const' : 'ident', value: word[0] }, startLine);
+            }
+            continue;
+        }
+
+        const number = text.slice(i).match(/^\d[\d_]*(?:\.\d+)?/);
+        if (number) {
+            i += number[0].length;
+            push({ type: 'number', value: number[0] }, startLine);
+            continue;
+        }
+
+        const punct = PUNCTUATION.find(candidate => text.startsWith(candidate, i)) || char;
+        i += punct.length;
+        const last = previous();
+        // `member {`, `constraints(x) {`: a block; `to: {`, `, {`, `=> {`: a hash
+        const block = punct === '{' && !!last && (last.value === ')' || last.type === 'ident') &&
+            !['lambda', 'proc'].includes(last.value) && !lambdaPending(tokens);
+        push({ type: 'punct', value: punct, block: block || undefined }, startLine);
+    }
+
+    return tokens;
+}
+
+// `->(request) {` and `->{`: the brace is the lambda's body, not a block
+function lambdaPending(tokens: Token[]): boolean {
+    let index = tokens.length - 1;
+    if (tokens[index]?.value === ')') {
+        let depth = 0;
+        for (; index >= 0; index--) {
+            if (tokens[index].value === ')') {
+                depth++;
+            } else if (tokens[index].value === '(' && --depth === 0) {
+                break;
+            }
+        }
+        index--;
+    }
+    return tokens[index]?.value === '->';
+}
+
+function unescape(text: string): string {
+    return text.replace(/\\(.)/g, (_, escaped: string) => ({ n: '\n', t: '\t' } as { [key: string]: string })[escaped] ?? escaped);
+}
+
+class CallParser {
+    private position = 0;
+
+    constructor(private tokens: Token[]) {}
+
+    /**
+     * Calls up to the `end` or `}` closing a block, or to the end of the file
+     */
+    parseBody(closer: 'end' | '}' | undefined): RouteCall[] {
+        const calls: RouteCall[] = [];
+
+        while (this.position < this.tokens.length) {
+            const token = this.tokens[this.position];
+            if (token.type === 'newline' || token.value === ';') {
+                this.position++;
+                continue;
+            }
+            if (this.closes(token, closer)) {
+                this.position++;
+                return calls;
+            }
+            if (token.type === 'ident' && CLAUSE_KEYWORDS.has(token.value)) {
+                this.position++;
+                this.collectStatement();
+                continue;
+            }
+            // An `end` or `}` without an opener, e.g. after a construct that wasn't recognised
+            if ((token.type === 'ident' && token.value === 'end') || (token.type === 'punct' && token.value === '}')) {
+                this.position++;
+                continue;
+            }
+
+            const call = this.parseStatement();
+            if (call) {
+                calls.push(call);
+            }
+        }
+
+        return calls;
+    }
+
+    private closes(token: Token, closer: 'end' | '}' | undefined): boolean {
+        if (closer === 'end') {
+            return token.type === 'ident' && token.value === 'end';
+        }
+        return closer === '}' && token.type === 'punct' && token.value === '}';
+    }
+
+    private parseStatement(): RouteCall | undefined {
+        const first = this.tokens[this.position];
+
+        if (first.type === 'ident' && (TRANSPARENT_KEYWORDS.has(first.value) || DROPPED_KEYWORDS.has(first.value))) {
+            this.position++;
+            this.collectStatement();
+            const block = this.parseBody('end');
+            return DROPPED_KEYWORDS.has(first.value) ? undefined : { receiver: false, args: [], options: [], line: first.line, block, transparent: true };
+        }
+
+        const { tokens, opener } = this.collectStatement();
+        const call = describeCall(tokens, first.line);
+
+        if (opener) {
+            this.skipBlockParameters();
+            const block = this.parseBody(opener === 'do' ? 'end' : '}');
+            if (call) {
+                call.block = block;
+            }
+        }
+        return call;
+    }
+
+    /**
+     * Tokens of one statement, stopping before a `do` or `{` block it opens
+     */
+    private collectStatement(): { tokens: Token[]; opener?: 'do' | '{' } {
+        const collected: Token[] = [];
+        let depth = 0;
+
+        while (this.position < this.tokens.length) {
+            const token = this.tokens[this.position];
+
+            if (depth === 0) {
+                if (token.type === 'newline') {
+                    const last = collected[collected.length - 1];
+                    const next = this.nextSignificant(this.position);
+                    const continues = (last && CONTINUATION_TOKENS.has(last.value) && last.type === 'punct') ||
+                        (next && next.type === 'punct' && (next.value === '.' || next.value === '&.'));
+                    if (!continues) {
+                        break;
+                    }
+                    this.position++;
+                    continue;
+                }
+                if (token.value === ';' || (token.type === 'punct' && token.value === '}') ||
+                    (token.type === 'ident' && token.value === 'end')) {
+                    break;
+                }
+                if (token.type === 'ident' && token.value === 'do') {
+                    this.position++;
+                    return { tokens: collected, opener: 'do' };
+                }
+                if (token.block) {
+                    this.position++;
+                    return { tokens: collected, opener: '{' };
+                }
+            }
+
+            if (token.type === 'punct' && ['(', '[', '{'].includes(token.value)) {
+                depth++;
+            } else if (token.type === 'punct' && [')', ']', '}'].includes(token.value)) {
+                depth--;
+            }
+            // Blocks inside arguments (`redirect { ... }`, `-> do ... end`) are part of the argument
+            if (depth > 0 && token.type === 'ident' && token.value === 'do') {
+                depth++;
+            } else if (depth > 0 && token.type === 'ident' && token.value === 'end') {
+                depth--;
+            }
+            collected.push(token);
+            this.position++;
+        }
+
+        return { tokens: collected };
+    }
+
+    private nextSignificant(from: number): Token | undefined {
+        for (let index = from; index < this.tokens.length; index++) {
+            if (this.tokens[index].type !== 'newline') {
+                return this.tokens[index];
+            }
+        }
+        return undefined;
+    }
+
+    private skipBlockParameters(): void {
+        while (this.tokens[this.position]?.type === 'newline') {
+            this.position++;
+        }
+        if (this.tokens[this.position]?.value !== '|') {
+            return;
+        }
+        this.position++;
+        while (this.position < this.tokens.length && this.tokens[this.position].value !== '|') {
+            this.position++;
+        }
+        this.position++;
+    }
+}
+
+/**
+ * `get 'path', to: 'c#a'`, `scope(path: 'x')` or `Rails.application.routes.draw`
+ */
+function describeCall(tokens: Token[], line: number): RouteCall | undefined {
+    if (tokens.length === 0 || (tokens[0].type !== 'ident' && tokens[0].type !== 'const')) {
+        return tokens.length > 0 ? { receiver: false, args: [], options: [], line } : undefined;
+    }
+
+    // Walk a receiver chain: Rails.application.routes.draw
+    let index = 0;
+    let receiver = false;
+    while (tokens[index + 1]?.type === 'punct' && ['.', '&.', '::'].includes(tokens[index + 1].value) &&
+        tokens[index + 2] && (tokens[index + 2].type === 'ident' || tokens[index + 2].type === 'const')) {
+        receiver = true;
+        index += 2;
+    }
+    const name = tokens[index];
+    if (name.type !== 'ident') {
+        return { receiver: true, args: [], options: [], line };
+    }
+
+    let argTokens = tokens.slice(index + 1);
+    if (argTokens[0]?.value === '(' && matchingClose(argTokens, 0) === argTokens.length - 1) {
+        argTokens = argTokens.slice(1, -1);
+    }
+
+    const { args, options } = parseArguments(argTokens);
+    return { method: name.value, receiver, args, options, line };
+}
+
+function parseArguments(tokens: Token[]): { args: RubyValue[]; options: RubyOption[] } {
+    const args: RubyValue[] = [];
+    const options: RubyOption[] = [];
+
+    for (const part of splitTopLevel(stripModifier(tokens), ',')) {
+        if (part.length === 0) {
+            continue;
+        }
+        const parsed = parseOption(part);
+        if (parsed) {
+            options.push(parsed);
+            continue;
+        }
+        const value = parseValue(part);
+        if (value.kind === 'hash') {
+            options.push(...value.options);
+        } else {
+            args.push(value);
+        }
+    }
+
+    return { args, options };
+}
+
+function parseOption(tokens: Token[]): RubyOption | undefined {
+    if (tokens[0].type === 'label') {
+        return { key: { kind: 'symbol', value: tokens[0].value }, value: parseValue(tokens.slice(1)) };
+    }
+    const arrow = topLevelIndex(tokens, '=>');
+    if (arrow > 0) {
+        return { key: parseValue(tokens.slice(0, arrow)), value: parseValue(tokens.slice(arrow + 1)) };
+    }
+    return undefined;
+}
+
+function parseValue(tokens: Token[]): RubyValue {
+    const raw = (): RubyValue => ({
+        kind: 'literal',
+        value: tokens.map(token => token.value).join(' ').replace(/ ?(\.|::|&\.) ?/g, '$1')
+    });
+    if (tokens.length === 0) {
+        return { kind: 'literal', value: 'nil' };
+    }
+
+    const [first] = tokens;
+    if (tokens.length === 1) {
+        switch (first.type) {
+            case 'string':
+                return { kind: 'string', value: first.value, dynamic: first.dynamic };
+            case 'symbol':
+                return { kind: 'symbol', value: first.value, dynamic: first.dynamic };
+            case 'const':
+                return { kind: 'const', value: first.value };
+            case 'words':
+                return { kind: 'array', items: (first.items || []).map(item => ({ kind: first.value === 'i' ? 'symbol' : 'string', value: item })) };
+            case 'regex':
+                return { kind: 'literal', value: `/${first.value}/` };
+            case 'ident':
+                return /^(true|false|nil)$/.test(first.value)
+                    ? { kind: 'literal', value: first.value }
+                    : { kind: 'call', name: first.value, args: [], options: [] };
+            default:
+                return raw();
+        }
+    }
+
+    if (first.type === 'const' && tokens.every((token, index) => index % 2 === 0 ? token.type === 'const' : token.value === '::')) {
+        return { kind: 'const', value: tokens.map(token => token.value).join('') };
+    }
+    // `Sidekiq::Web.new`, `Api::Constraint.new(version: 1)`
+    if (first.type === 'const') {
+        return raw();
+    }
+
+    if (first.value === '[' && matchingClose(tokens, 0) === tokens.length - 1) {
+        return { kind: 'array', items: splitTopLevel(tokens.slice(1, -1), ',').filter(part => part.length > 0).map(parseValue) };
+    }
+    if (first.value === '{' && matchingClose(tokens, 0) === tokens.length - 1) {
+        return { kind: 'hash', options: parseArguments(tokens.slice(1, -1)).options };
+    }
+    if (first.type === 'ident') {
+        // redirect('/x'), redirect { |params| ... }, redirect '/x'
+        const rest = tokens.slice(1);
+        const { args, options } = rest[0]?.value === '(' && matchingClose(rest, 0) === rest.length - 1
+            ? parseArguments(rest.slice(1, -1))
+            : rest[0]?.block ? { args: [], options: [] } : parseArguments(rest);
+        return { kind: 'call', name: first.value, args, options };
+    }
+    return raw();
+}
+
+function stripModifier(tokens: Token[]): Token[] {
+    let depth = 0;
+    for (let index = 0; index < tokens.length; index++) {
+        const token = tokens[index];
+        if (token.type === 'punct' && ['(', '[', '{'].includes(token.value)) {
+            depth++;
+        } else if (token.type === 'punct' && [')', ']', '}'].includes(token.value)) {
+            depth--;
+        } else if (depth === 0 && index > 0 && token.type === 'ident' && MODIFIER_KEYWORDS.has(token.value)) {
+            return tokens.slice(0, index);
+        }
+    }
+    return tokens;
+}
+
+function splitTopLevel(tokens: Token[], separator: string): Token[][] {
+    const parts: Token[][] = [[]];
+    let depth = 0;
+    for (const token of tokens) {
+        if (token.type === 'punct' && ['(', '[', '{'].includes(token.value)) {
+            depth++;
+        } else if (token.type === 'punct' && [')', ']', '}'].includes(token.value)) {
+            depth--;
+        } else if (token.type === 'ident' && token.value === 'do') {
+            depth++;
+        } else if (token.type === 'ident' && token.value === 'end') {
+            depth--;
+        }
+        if (depth === 0 && token.type === 'punct' && token.value === separator) {
+            parts.push([]);
+        } else if (token.type !== 'newline') {
+            parts[parts.length - 1].push(token);
+        }
+    }
+    return parts;
+}
+
+function topLevelIndex(tokens: Token[], value: string): number {
+    let depth = 0;
+    for (let index = 0; index < tokens.length; index++) {
+        const token = tokens[index];
+        if (token.type === 'punct' && ['(', '[', '{'].includes(token.value)) {
+            depth++;
+        } else if (token.type === 'punct' && [')', ']', '}'].includes(token.value)) {
+            depth--;
+        } else if (depth === 0 && token.type === 'punct' && token.value === value) {
+            return index;
+        }
+    }
+    return -1;
+}
+
+function matchingClose(tokens: Token[], openIndex: number): number {
+    let depth = 0;
+    for (let index = openIndex; index < tokens.length; index++) {
+        const token = tokens[index];
+        if (token.type !== 'punct') {
+            continue;
+        }
+        if (['(', '[', '{'].includes(token.value)) {
+            depth++;
+        } else if ([')', ']', '}'].includes(token.value) && --depth === 0) {
+            return index;
+        }
+    }
+    return -1;
+}
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import {
+    breakpointProblem,
+    parseHitCondition,
+    rdbgBreakpointCondition,
+    rubyLogMessage,
+    syntaxErrorMessage
+} from '../../debug/breakpointConditions';
+
+suite('Breakpoint Condition Tests', () => {
+    test('Parses hit counts', () => {
+        assert.deepStrictEqual(parseHitCondition('5'), { operator: '==', count: 5 });
+        assert.deepStrictEqual(parseHitCondition(' >= 10 '), { operator: '>=', count: 10 });
+        assert.deepStrictEqual(parseHitCondition('%3'), { operator: '%', count: 3 });
+        assert.strictEqual(parseHitCondition('after 5'), undefined);
+    });
+
+    test('Folds conditions, hit counts and log messages into one rdbg condition', () => {
+        assert.strictEqual(rdbgBreakpointCondition({ line: 4 }, 'key'), undefined);
+        assert.strictEqual(
+            rdbgBreakpointCondition({ line: 4, condition: 'user.admin?', hitCondition: '> 2' }, 'a.rb:4'),
+            '(user.admin?) && ((($__rubymate_hits ||= Hash.new(0))["a.rb:4"] += 1) > 2)'
+        );
+        assert.strictEqual(
+            rdbgBreakpointCondition({ line: 4, logMessage: 'id={user.id}' }, 'a.rb:4'),
+            '($stderr.puts("id=#{(user.id)}"); false)'
+        );
+    });
+
+    test('Escapes logpoint text outside the braces', () => {
+        assert.strictEqual(rubyLogMessage('"#@name" \\ {name}'), '"\\"\\#@name\\" \\\\ #{(name)}"');
+    });
+
+    test('Reports invalid conditions, hit counts and log expressions', () => {
+        const syntaxError = (expression: string) => expression.endsWith('==') ? "syntax error, unexpected ')'" : undefined;
+
+        assert.strictEqual(breakpointProblem({ line: 1, condition: 'x ==' }, syntaxError), "Invalid condition: syntax error, unexpected ')'");
+        assert.match(breakpointProblem({ line: 1, hitCondition: 'often' }, syntaxError) || '', /^Invalid hit count/);
+        assert.strictEqual(
+            breakpointProblem({ line: 1, logMessage: 'x={x ==}' }, syntaxError),
+            "Invalid log message expression {x ==}: syntax error, unexpected ')'"
+        );
+        assert.strictEqual(breakpointProblem({ line: 1, condition: 'x == 1', logMessage: 'x={x}' }, syntaxError), undefined);
+    });
+
+    test('Extracts the reason from ruby -c output', () => {
+        assert.strictEqual(
+            syntaxErrorMessage("-:3: syntax error, unexpected ')'\n-: compile error (SyntaxError)\n"),
+            "syntax error, unexpected ')'"
+        );
+        assert.strictEqual(
+            syntaxErrorMessage("-: -:3: syntax errors found (SyntaxError)\n  2 | x ==\n> 3 | )\n    | ^ unexpected ')'; expected an expression\n"),
+            "unexpected ')'; expected an expression"
+        );
+    });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { spawnSync } from 'child_process';
+import {
+    containerBridgeCommand,
+    containerRdbgCommand,
+    ContainerLaunch,
+    defaultComposeExecCommand,
+    publishedPort
+} from '../../debug/containerLaunch';
+import { ComposeService } from '../../debug/containerMappings';
+
+suite('Container Launch Tests', () => {
+    const launch: ContainerLaunch = {
+        execCommand: defaultComposeExecCommand('web'),
+        cwd: '/rails',
+        env: { RAILS_ENV: 'development' },
+        useBundler: true,
+        port: 12345,
+        host: '0.0.0.0',
+        stopOnEntry: false,
+        program: '/rails/bin/rails',
+        commandMode: false,
+        args: ['server', '-b', '0.0.0.0']
+    };
+
+    test('Starts rdbg through docker compose exec in the mapped directory', () => {
+        assert.deepStrictEqual(containerRdbgCommand(launch), [
+            'docker', 'compose', 'exec', '-T', 'web',
+            'sh', '-c', 'cd "$1" && shift && exec "$@"', 'sh', '/rails',
+            'env', 'RAILS_ENV=development',
+            'bundle', 'exec', 'rdbg', '--open', '--host=0.0.0.0', '--port=12345',
+            '--', '/rails/bin/rails', 'server', '-b', '0.0.0.0'
+        ]);
+
+        assert.deepStrictEqual(
+            containerRdbgCommand({ ...launch, cwd: undefined, env: {}, useBundler: false, port: 0, program: 'sidekiq', commandMode: true, args: [] }),
+            ['docker', 'compose', 'exec', '-T', 'web', 'rdbg', '--open', '--host=0.0.0.0', '--port=0', '-c', '--', 'sidekiq']
+        );
+    });
+
+    test('Connects through the published port or the exec command', () => {
+        const service: ComposeService = {
+            name: 'web',
+            mounts: [],
+            ports: [{ published: 3000, target: 3000 }, { published: 23456, target: 12345 }, { target: 4000 }],
+            environment: {}
+        };
+
+        assert.strictEqual(publishedPort(service, 12345), 23456);
+        assert.strictEqual(publishedPort(service, 4000), undefined);
+        assert.strictEqual(publishedPort(service, 0), undefined);
+        assert.strictEqual(publishedPort(undefined, 12345), undefined);
+
+        const bridge = containerBridgeCommand(['docker', 'compose', 'exec', '-T', 'web'], 12345);
+        assert.deepStrictEqual(bridge.slice(0, 8), ['docker', 'compose', 'exec', '-T', 'web', 'ruby', '-rsocket', '-e']);
+        assert.strictEqual(bridge[9], '12345');
+    });
+
+    test('Runs through a local stand-in for the exec command', function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rubymate-container-'));
+        try {
+            const bin = path.join(dir, 'bin');
+            const app = path.join(dir, 'app');
+            fs.mkdirSync(bin);
+            fs.mkdirSync(app);
+            // Stands in for rdbg: reports where and how it ran
+            fs.writeFileSync(path.join(bin, 'rdbg'), '#!/bin/sh\necho "cwd=$(pwd -P) env=$RAILS_ENV args=$*"\n', { mode: 0o755 });
+
+            const command = containerRdbgCommand({
+                ...launch,
+                execCommand: ['sh', '-c', 'exec "$@"', 'stand-in'],
+                cwd: app,
+                useBundler: false
+            });
+            const result = spawnSync(command[0], command.slice(1), {
+                env: { ...process.env, PATH: `${bin}${path.delimiter}${process.env.PATH}` },
+                encoding: 'utf8',
+                timeout: 10000
+            });
+
+            assert.strictEqual(
+                result.stdout.trim(),
+                `cwd=${fs.realpathSync(app)} env=development args=--open --host=0.0.0.0 --port=12345 -- /rails/bin/rails server -b 0.0.0.0`
+            );
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+    composeServiceDebugPort,
+    inferPathMappings,
+    parseComposeServices,
+    readDevcontainer
+} from '../../debug/containerMappings';
+
+suite('Container Path Mapping Tests', () => {
+    const project = path.resolve('/work/shop');
+
+    const compose = [
+        'x-app: &app',
+        '  image: shop:dev',
+        '  volumes:',
+        '    - .:/rails:cached',
+        '    - bundle:/usr/local/bundle',
+        '',
+        'services:',
+        '  web:',
+        '    <<: *app',
+        '    command: bin/rails server -b 0.0.0.0',
+        '    ports:',
+        '      - "3000:3000"',
+        '  worker:',
+        '    <<: *app',
+        '    command: ["bundle", "exec", "rdbg", "--open", "--port=12345", "-c", "--", "sidekiq"]',
+        '    environment:',
+        '      RUBY_DEBUG_HOST: 0.0.0.0  # listen on every interface',
+        '    ports:',
+        '      - target: 12345',
+        '        published: 22345',
+        '  db:',
+        '    image: postgres:16',
+        '    volumes:',
+        '      - type: bind',
+        '        source: ./tmp/db',
+        '        target: /var/lib/postgresql/data',
+        ''
+    ].join('\n');
+
+    test('Reads bind mounts, ports and commands from compose services', () => {
+        const services = parseComposeServices(compose, project);
+
+        assert.deepStrictEqual(services.map(service => service.name), ['web', 'worker', 'db']);
+        assert.deepStrictEqual(services[0].mounts, [{ source: project, target: '/rails' }]);
+        assert.strictEqual(services[0].image, 'shop:dev');
+        assert.deepStrictEqual(services[0].ports, [{ published: 3000, target: 3000 }]);
+        assert.deepStrictEqual(services[2].mounts, [{ source: path.join(project, 'tmp', 'db'), target: '/var/lib/postgresql/data' }]);
+        assert.deepStrictEqual(composeServiceDebugPort(services[1]), { target: 12345, published: 22345 });
+        assert.strictEqual(services[1].environment.RUBY_DEBUG_HOST, '0.0.0.0');
+    });
+
+    test('Infers mappings from the compose service publishing the debug port', () => {
+        const files: { [file: string]: string } = { [path.join(project, 'docker-compose.yml')]: compose };
+        const inferred = inferPathMappings(project, file => files[file], 22345);
+
+        assert.deepStrictEqual(inferred, { pathMappings: { [project]: '/rails' }, origin: 'docker-compose.yml (service worker)' });
+    });
+
+    test('Prefers the dev container workspace mount', () => {
+        const files: { [file: string]: string } = {
+            [path.join(project, '.devcontainer', 'devcontainer.json')]: [
+                '{',
+                '  // Generated by the Ruby dev container template',
+                '  "image": "mcr.microsoft.com/devcontainers/ruby:3.3",',
+                '  "workspaceMount": "source=${localWorkspaceFolder},target=/src/${localWorkspaceFolderBasename},type=bind",',
+                '  "forwardPorts": [3000, 12345],',
+                '  "postCreateCommand": "echo a,]",',
+                '}'
+            ].join('\n'),
+            [path.join(project, 'docker-compose.yml')]: compose
+        };
+
+        assert.deepStrictEqual(inferPathMappings(project, file => files[file], 12345), {
+            pathMappings: { [project]: '/src/shop' },
+            origin: path.join('.devcontainer', 'devcontainer.json')
+        });
+
+        const devcontainer = path.join(project, '.devcontainer.json');
+        const setup = readDevcontainer(devcontainer, project, file => ({
+            [devcontainer]: '{ "workspaceFolder": "/srv/shop,]", "appPort": ["22345:12345"], "forwardPorts": ["db:5432", "localhost:3000",], }'
+        })[file]);
+        assert.deepStrictEqual(setup, { pathMappings: { [project]: '/srv/shop,]' }, ports: [22345, 3000] });
+
+        // A process on the host, in a project that also has a dev container
+        assert.strictEqual(inferPathMappings(project, file => files[file], 4000), undefined);
+    });
+
+    test('Leaves local attaches alone when no service is set up for debugging', () => {
+        const files: { [file: string]: string } = {
+            [path.join(project, 'compose.yaml')]: 'services:\n  web:\n    volumes:\n    - ./:/app\n'
+        };
+
+        assert.strictEqual(inferPathMappings(project, file => files[file], 12345), undefined);
+
+        // worker configures rdbg's port but publishes it elsewhere
+        assert.strictEqual(inferPathMappings(project, file => ({ [path.join(project, 'docker-compose.yml')]: compose })[file], 12345), undefined);
+    });
+});
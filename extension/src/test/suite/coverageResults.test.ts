@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseSimpleCovResults, remapCoveragePath } from '../../testing/coverageResults';
+
+suite('Coverage Results Tests', () => {
+    const resultset = {
+        RSpec: {
+            coverage: {
+                '/ci/app/models/user.rb': {
+                    lines: [null, 1, 0, null],
+                    branches: {
+                        '[:if, 0, 2, 4, 4, 7]': {
+                            '[:then, 1, 3, 6, 3, 15]': 0,
+                            '[:else, 2, 2, 4, 4, 7]': 1
+                        }
+                    }
+                }
+            },
+            timestamp: 1700000100
+        },
+        Minitest: {
+            coverage: {
+                '/ci/app/models/user.rb': { lines: [null, 2, 1, null] }
+            },
+            timestamp: 1700000000
+        }
+    };
+
+    test('Merges line hits across command names', () => {
+        const [file] = parseSimpleCovResults(JSON.stringify(resultset));
+        assert.strictEqual(file.file, '/ci/app/models/user.rb');
+        assert.deepStrictEqual(file.lines, [null, 3, 1, null]);
+    });
+
+    test('Parses resultset branch keys', () => {
+        const [file] = parseSimpleCovResults(JSON.stringify(resultset));
+        assert.deepStrictEqual(file.branches, [
+            { line: 2, branchLine: 3, hits: 0, label: 'then' },
+            { line: 2, branchLine: 2, hits: 1, label: 'else' }
+        ]);
+    });
+
+    test('Drops results older than the run', () => {
+        const [file] = parseSimpleCovResults(JSON.stringify(resultset), 1700000050);
+        assert.deepStrictEqual(file.lines, [null, 1, 0, null]);
+    });
+
+    test('Parses JSON formatter output', () => {
+        const formatted = {
+            meta: { simplecov_version: '0.22.0' },
+            coverage: {
+                '/app/lib/parser.rb': {
+                    lines: [1, 'ignored', 0],
+                    branches: [{ type: 'then', start_line: 3, end_line: 3, coverage: 0, report_line: 2 }]
+                }
+            }
+        };
+        const [file] = parseSimpleCovResults(JSON.stringify(formatted));
+        assert.deepStrictEqual(file.lines, [1, null, 0]);
+        assert.deepStrictEqual(file.branches, [{ line: 2, branchLine: 3, hits: 0, label: 'then' }]);
+    });
+
+    test('Maps CI paths into the workspace', () => {
+        const root = path.resolve('/workspace/shop');
+        const existing = new Set([path.join(root, 'app', 'models', 'user.rb')]);
+        const exists = (candidate: string) => existing.has(candidate);
+
+        assert.strictEqual(
+            remapCoveragePath('/home/runner/work/shop/shop/app/models/user.rb', root, exists),
+            path.join(root, 'app', 'models', 'user.rb')
+        );
+        assert.strictEqual(remapCoveragePath('/home/runner/work/shop/shop/app/models/order.rb', root, exists), undefined);
+    });
+});
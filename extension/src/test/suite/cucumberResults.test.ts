@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { parseCucumberJson } from '../../testing/cucumberResults';
+
+suite('Cucumber Results Tests', () => {
+    const passed = { status: 'passed', duration: 2000000 };
+
+    const report = [
+        {
+            uri: 'features/invoices.feature',
+            elements: [
+                {
+                    type: 'background',
+                    line: 4,
+                    steps: [{ keyword: 'Given ', name: 'I am signed in', line: 5, result: passed }]
+                },
+                {
+                    type: 'scenario',
+                    name: 'Creating an invoice',
+                    line: 8,
+                    steps: [
+                        { keyword: 'When ', name: 'I create an invoice', line: 9, result: passed },
+                        {
+                            keyword: 'Then ',
+                            name: 'I see "Invoice created"',
+                            line: 10,
+                            result: { status: 'failed', duration: 1000000, error_message: 'expected to find text "Invoice created"' }
+                        }
+                    ]
+                },
+                {
+                    type: 'background',
+                    line: 4,
+                    steps: [{ keyword: 'Given ', name: 'I am signed in', line: 5, result: passed }]
+                },
+                {
+                    type: 'scenario',
+                    name: 'Totals',
+                    line: 18,
+                    steps: [
+                        { keyword: 'Given ', name: 'an invoice with 1 items', line: 13, result: { status: 'undefined' } },
+                        { keyword: 'Then ', name: 'the total is 10', line: 14, result: { status: 'skipped' } }
+                    ]
+                }
+            ]
+        }
+    ];
+
+    test('Reports one result per scenario with background steps folded in', () => {
+        const results = parseCucumberJson(JSON.stringify(report))!;
+
+        assert.deepStrictEqual(results.map(result => [result.line, result.status, result.duration]), [
+            [8, 'failed', 5],
+            [18, 'undefined', 2]
+        ]);
+    });
+
+    test('Keeps the first failing step and its error', () => {
+        const [failed, undefinedStep] = parseCucumberJson(JSON.stringify(report))!;
+
+        assert.deepStrictEqual(failed.failedStep, { keyword: 'Then', name: 'I see "Invoice created"', line: 10 });
+        assert.strictEqual(failed.errorMessage, 'expected to find text "Invoice created"');
+        assert.strictEqual(undefinedStep.failedStep?.line, 13);
+    });
+
+    test('Rejects output that is not a JSON report', () => {
+        assert.strictEqual(parseCucumberJson('Using the default profile...'), undefined);
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import {
+    catchBreakpointNumbers,
+    caughtExceptionClasses,
+    exceptionBreakpointFilters,
+    isExceptionClassName,
+    postmortemCommand,
+    rdbgExceptionFilters,
+    CLASSES_FILTER,
+    RAISED_FILTER,
+    UNRESCUED_FILTER
+} from '../../debug/exceptionBreakpoints';
+
+suite('Exception Breakpoints Tests', () => {
+    const classes = ['ActiveRecord::RecordNotFound', 'ArgumentError'];
+
+    test('Shows the stored classes on the class filter', () => {
+        const filters = exceptionBreakpointFilters(classes);
+
+        assert.deepStrictEqual(filters.map(filter => filter.filter), [RAISED_FILTER, UNRESCUED_FILTER, CLASSES_FILTER]);
+        assert.strictEqual(filters[2].description, 'ActiveRecord::RecordNotFound, ArgumentError');
+    });
+
+    test('Translates filters into rdbg filters and commands', () => {
+        assert.deepStrictEqual(rdbgExceptionFilters([RAISED_FILTER]), ['any']);
+        assert.deepStrictEqual(rdbgExceptionFilters([CLASSES_FILTER]), []);
+
+        assert.deepStrictEqual(caughtExceptionClasses([CLASSES_FILTER, UNRESCUED_FILTER], classes), classes);
+        assert.deepStrictEqual(caughtExceptionClasses([RAISED_FILTER, CLASSES_FILTER], classes), []);
+        assert.strictEqual(postmortemCommand([CLASSES_FILTER, UNRESCUED_FILTER]), 'config set postmortem true');
+        assert.strictEqual(postmortemCommand([RAISED_FILTER]), 'config set postmortem false');
+    });
+
+    test('Finds catch breakpoints to delete in the breakpoint list', () => {
+        const listing = [
+            '#0  BP - Line  /app/models/user.rb:12 (line)',
+            '#1  BP - Catch  "ActiveRecord::RecordNotFound"',
+            '#2  BP - Catch  "ArgumentError"',
+            '#3  BP - Catch  "KeyError"'
+        ].join('\n');
+
+        assert.deepStrictEqual(catchBreakpointNumbers(listing, classes), [2, 1]);
+        assert.deepStrictEqual(catchBreakpointNumbers('', classes), []);
+    });
+
+    test('Validates exception class names', () => {
+        assert.ok(isExceptionClassName('ActiveRecord::RecordNotFound'));
+        assert.ok(isExceptionClassName('::StandardError'));
+        assert.ok(!isExceptionClassName('standard_error'));
+        assert.ok(!isExceptionClassName('Foo::'));
+    });
+});
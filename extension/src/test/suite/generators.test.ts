@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import {
+    createdFiles,
+    hasConflicts,
+    isFieldSpec,
+    isGeneratorName,
+    isGeneratorOption,
+    isUndoable,
+    parseGeneratorList,
+    parseGeneratorOutput,
+    parseGeneratorUsage
+} from '../../rails/generators';
+
+suite('Rails Generator Tests', () => {
+    test('Lists generators by group', () => {
+        const help = [
+            'Usage:',
+            '  bin/rails generate GENERATOR [args] [options]',
+            '',
+            'General options:',
+            '  -h, [--help]     # Print generator\'s options and usage',
+            '',
+            'Please choose a generator below.',
+            '',
+            'Rails:',
+            '  controller',
+            '  model',
+            '',
+            'ActiveRecord:',
+            '  active_record:multi_db',
+            '',
+            'Devise:',
+            '  devise',
+            '  devise:install',
+            ''
+        ].join('\n');
+
+        assert.deepStrictEqual(parseGeneratorList(help), [
+            { name: 'controller', group: 'Rails' },
+            { name: 'model', group: 'Rails' },
+            { name: 'active_record:multi_db', group: 'ActiveRecord' },
+            { name: 'devise', group: 'Devise' },
+            { name: 'devise:install', group: 'Devise' }
+        ]);
+    });
+
+    test('Reads the arguments a generator takes', () => {
+        const model = parseGeneratorUsage([
+            'Usage:',
+            '  bin/rails generate model NAME [field[:type][:index] field[:type][:index]] [options]',
+            '',
+            'Options:',
+            '  [--skip-namespace]  # Skip namespace (affects only isolated engines)',
+            '',
+            'Description:',
+            '    Generates a new model. Pass the model name, either CamelCased or',
+            '    under_scored, and an optional list of attribute pairs as arguments.',
+            '',
+            '    Attribute pairs are field:type arguments specifying the model\'s attributes.'
+        ].join('\n'));
+        assert.deepStrictEqual(model, {
+            takesName: true,
+            takesFields: true,
+            listArgument: undefined,
+            description: 'Generates a new model. Pass the model name, either CamelCased or under_scored, and an optional list of attribute pairs as arguments.'
+        });
+
+        const controller = parseGeneratorUsage('Usage:\n  bin/rails generate controller NAME [action action] [options]\n');
+        assert.strictEqual(controller.listArgument, 'action');
+        assert.strictEqual(controller.takesFields, false);
+        assert.strictEqual(parseGeneratorUsage('Usage:\n  bin/rails generate devise:install [options]\n').takesName, false);
+    });
+
+    test('Reads generated files and validates arguments', () => {
+        const output = [
+            '      invoke  active_record',
+            '      create    db/migrate/20240101000000_create_posts.rb',
+            '      create    app/models/post.rb',
+            '      invoke    test_unit',
+            '    conflict      test/models/post_test.rb',
+            '      invoke  resource_route',
+            '       route    resources :posts'
+        ].join('\n');
+        const actions = parseGeneratorOutput(output);
+
+        assert.deepStrictEqual(actions.map(action => action.action), ['create', 'create', 'conflict', 'route']);
+        assert.deepStrictEqual(createdFiles(actions), ['db/migrate/20240101000000_create_posts.rb', 'app/models/post.rb']);
+        assert.strictEqual(hasConflicts(actions), true);
+        assert.strictEqual(isUndoable(actions), false);
+        assert.strictEqual(isUndoable(parseGeneratorOutput('      create    app/models/post.rb\n       route    resources :posts')), true);
+        assert.strictEqual(isUndoable(parseGeneratorOutput('       force    app/models/post.rb')), false);
+
+        assert.ok(isGeneratorName('Admin::User') && isGeneratorName('admin/users') && !isGeneratorName('Post; rm -rf'));
+        assert.ok(isFieldSpec('price:decimal{10,2}') && isFieldSpec('user:references:index') && !isFieldSpec('Title:string'));
+        assert.ok(isGeneratorOption('--parent=Admin::Base') && !isGeneratorOption('&& echo'));
+    });
+});
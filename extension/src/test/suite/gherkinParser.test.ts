@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { parseFeature, findScenarioAt } from '../../testing/gherkinParser';
+
+suite('Gherkin Parser Tests', () => {
+    const feature = [
+        '@billing',
+        'Feature: Invoices',
+        '',
+        '  Background:',
+        '    Given I am signed in',
+        '',
+        '  @smoke',
+        '  Scenario: Creating an invoice',
+        '    When I create an invoice',
+        '    Then I see "Invoice created"',
+        '',
+        '  Scenario Outline: Totals',
+        '    Given an invoice with <items> items',
+        '    Then the total is <total>',
+        '',
+        '    Examples:',
+        '      | items | total |',
+        '      | 1     | 10    |',
+        '      | 3     | 30    |',
+        '',
+        '  Rule: Refunds',
+        '    Scenario: Refunding an invoice',
+        '      When I refund it',
+        '      """',
+        '      Scenario: not a scenario',
+        '      """'
+    ].join('\n');
+
+    test('Builds the feature tree with 0-based ranges', () => {
+        const parsed = parseFeature(feature)!;
+
+        assert.strictEqual(parsed.name, 'Invoices');
+        assert.deepStrictEqual(parsed.children.map(child => [child.type, child.name, child.line, child.endLine]), [
+            ['scenario', 'Creating an invoice', 7, 9],
+            ['outline', 'Totals', 11, 18],
+            ['rule', 'Refunds', 20, 25]
+        ]);
+        assert.deepStrictEqual(parsed.children[2].children.map(child => [child.name, child.line, child.endLine]), [
+            ['Refunding an invoice', 21, 25]
+        ]);
+    });
+
+    test('Turns Examples rows into children with their values', () => {
+        const outline = parseFeature(feature)!.children[1];
+
+        assert.deepStrictEqual(outline.children.map(row => [row.name, row.line]), [['1 | 10', 17], ['3 | 30', 18]]);
+        assert.deepStrictEqual(outline.children[1].values, { items: '3', total: '30' });
+        assert.deepStrictEqual(outline.steps.map(step => step.text), ['an invoice with <items> items', 'the total is <total>']);
+    });
+
+    test('Inherits tags and ignores the background', () => {
+        const parsed = parseFeature(feature)!;
+
+        assert.deepStrictEqual(parsed.children[0].tags, ['@billing', '@smoke']);
+        assert.deepStrictEqual(parsed.children[1].children[0].tags, ['@billing']);
+        assert.ok(!parsed.children.some(child => child.keyword === 'Background'));
+    });
+
+    test('Finds the scenario containing a line, inside rules too', () => {
+        const parsed = parseFeature(feature)!;
+
+        assert.strictEqual(findScenarioAt(parsed, 12)?.name, 'Totals');
+        assert.strictEqual(findScenarioAt(parsed, 22)?.name, 'Refunding an invoice');
+        assert.strictEqual(findScenarioAt(parsed, 2), undefined);
+    });
+});
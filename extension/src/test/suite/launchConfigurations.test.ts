@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import {
+    dynamicDebugConfigurations,
+    isRailsApplication,
+    lockedGems,
+    parseRakeTasks
+} from '../../debug/launchConfigurations';
+
+suite('Launch Configuration Tests', () => {
+    test('Parses rake -T output', () => {
+        const tasks = parseRakeTasks([
+            'rake about                              # List versions of all Rails frameworks and the environment',
+            'rake db:migrate                         # Migrate the database (options: VERSION=x, VERBOSE=false, SCOPE=blog)',
+            'rake import:users[file,dry_run]         # Import users from a CSV',
+            '(in /work/shop)'
+        ].join('\n'));
+
+        assert.deepStrictEqual(tasks.map(task => task.name), ['about', 'db:migrate', 'import:users']);
+        assert.strictEqual(tasks[2].description, 'Import users from a CSV');
+    });
+
+    test('Detects Rails from config/application.rb or an engine\'s bin/rails, not from a Gemfile', () => {
+        const lockfile = 'GEM\n  remote: https://rubygems.org/\n  specs:\n    railties (7.1.3)\n      rake (>= 12.2)\n    sidekiq (7.2.0)\n';
+        const gems = lockedGems(lockfile);
+
+        assert.ok(gems.has('railties') && gems.has('sidekiq'));
+        assert.ok(!gems.has('rake'));
+        assert.ok(isRailsApplication(true, false, new Set()));
+        assert.ok(isRailsApplication(false, true, gems));
+        // A gem or engine without a dummy app to boot
+        assert.ok(!isRailsApplication(false, false, gems));
+        assert.ok(!isRailsApplication(false, true, lockedGems('GEM\n  specs:\n    rack (3.0.8)\n')));
+    });
+
+    test('Builds configurations from binstubs, workers, rake tasks and the current test', () => {
+        const configurations = dynamicDebugConfigurations({
+            rails: true,
+            binstubs: ['rails', 'rdbg', 'sidekiq', 'thor'],
+            rakeTasks: [{ name: 'db:seed', description: 'Load the seed data' }],
+            gems: new Set(['sidekiq', 'good_job']),
+            currentMinitest: { file: 'test/models/user_test.rb', name: 'test_validates_email' }
+        });
+
+        assert.deepStrictEqual(configurations.map(config => config.name), [
+            'Debug Minitest: test_validates_email',
+            'Debug Sidekiq',
+            'Debug GoodJob',
+            'Debug Rails Server',
+            'Debug Rails Console',
+            'Debug bin/thor',
+            'Rake: db:seed'
+        ]);
+        assert.deepStrictEqual(configurations[0].args, ['test', '${workspaceFolder}/test/models/user_test.rb', '--name', 'test_validates_email']);
+        assert.strictEqual(configurations[1].program, '${workspaceFolder}/bin/sidekiq');
+        assert.strictEqual(configurations[2].program, 'good_job');
+        assert.deepStrictEqual(configurations[6].args, ['db:seed']);
+        assert.strictEqual(configurations[6].program, 'rake');
+    });
+});
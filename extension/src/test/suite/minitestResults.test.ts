@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { parseMinitestReport, extractMinitestExpectedActual } from '../../testing/minitestResults';
+
+suite('Minitest Results Tests', () => {
+    test('Parses one result per line and skips other output', () => {
+        const report = [
+            '{"class":"UserTest","name":"test_valid","file":"test/models/user_test.rb","line":4,"status":"pass","time":0.01,"failures":[]}',
+            'Run options: --seed 1234',
+            '{"class":"UserTest","name":"test_email","file":"test/models/user_test.rb","line":8,"status":"fail","time":0.02,"failures":[{"type":"Minitest::Assertion","message":"Expected: 1\\n  Actual: 2","location":"test/models/user_test.rb:9","backtrace":["test/models/user_test.rb:9:in `test_email\'"]}]}',
+            '{"class":"UserTest","name":"test_trunc'
+        ].join('\n');
+
+        const results = parseMinitestReport(report);
+        assert.strictEqual(results.length, 2);
+        assert.strictEqual(results[0].status, 'pass');
+        assert.strictEqual(results[1].failures[0].location, 'test/models/user_test.rb:9');
+    });
+
+    test('Extracts expected and actual values', () => {
+        assert.deepStrictEqual(
+            extractMinitestExpectedActual('Expected: "Alice"\n  Actual: "Bob"'),
+            { expected: '"Alice"', actual: '"Bob"' }
+        );
+    });
+
+    test('Extracts expected and actual values from a diff', () => {
+        const message = 'Wrong name.\n--- expected\n+++ actual\n@@ -1,2 +1,2 @@\n-"Alice\n+"Bob\n Smith"\n';
+        assert.deepStrictEqual(
+            extractMinitestExpectedActual(message),
+            { expected: '"Alice\nSmith"', actual: '"Bob\nSmith"' }
+        );
+    });
+
+    test('Ignores messages without a comparison', () => {
+        assert.strictEqual(extractMinitestExpectedActual('Expected false to be truthy.'), undefined);
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { minitestTestAt } from '../../testing/minitestTests';
+
+suite('Minitest Test Lookup Tests', () => {
+    const content = [
+        'require "test_helper"',
+        '',
+        'class UserTest < ActiveSupport::TestCase',
+        '  test "validates email format" do',
+        '    assert_not User.new(email: "nope").valid?',
+        '  end',
+        '',
+        '  def test_full_name',
+        '    assert_equal "A B", User.new(first: "A", last: "B").full_name',
+        '  end',
+        'end'
+    ].join('\n');
+
+    test('Finds the test block or method around a line', () => {
+        assert.deepStrictEqual(minitestTestAt(content, 4), { name: 'test_validates_email_format', className: 'UserTest', line: 3 });
+        assert.deepStrictEqual(minitestTestAt(content, 8), { name: 'test_full_name', className: 'UserTest', line: 7 });
+    });
+
+    test('Finds nothing outside a test', () => {
+        assert.strictEqual(minitestTestAt(content, 2), undefined);
+        assert.strictEqual(minitestTestAt(content, 6), undefined);
+        assert.strictEqual(minitestTestAt(content, 10), undefined);
+    });
+
+    test('Includes the end of the test', () => {
+        assert.strictEqual(minitestTestAt(content, 5)?.name, 'test_validates_email_format');
+        assert.strictEqual(minitestTestAt(content, 9)?.name, 'test_full_name');
+    });
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { PathMapper, mapSourcePaths } from '../../debug/pathMappings';
+
+suite('Path Mapping Tests', () => {
+    const mapper = new PathMapper({ '/home/dev/shop': '/app', '/home/dev/shop/vendor/engine': '/engine' }, '/home/dev/shop');
+
+    test('Maps paths both ways with the longest prefix', () => {
+        assert.strictEqual(mapper.toRemote('/home/dev/shop/app/models/user.rb'), '/app/app/models/user.rb');
+        assert.strictEqual(mapper.toRemote('/home/dev/shop/vendor/engine/lib/engine.rb'), '/engine/lib/engine.rb');
+        assert.strictEqual(mapper.toLocal('/app/app/models/user.rb'), '/home/dev/shop/app/models/user.rb');
+        assert.strictEqual(mapper.toLocal('/engine/lib/engine.rb'), '/home/dev/shop/vendor/engine/lib/engine.rb');
+    });
+
+    test('Leaves paths outside the mappings and partial directory names alone', () => {
+        assert.strictEqual(mapper.toRemote('/home/dev/shopping/a.rb'), '/home/dev/shopping/a.rb');
+        assert.strictEqual(mapper.toLocal('/usr/local/bundle/gems/rack-3.0.8/lib/rack.rb'), '/usr/local/bundle/gems/rack-3.0.8/lib/rack.rb');
+        assert.strictEqual(mapper.toLocal('/application/x.rb'), '/application/x.rb');
+    });
+
+    test('Resolves relative local paths against the base directory', () => {
+        const relative = new PathMapper({ '.': '/app/' }, '/home/dev/shop');
+        assert.strictEqual(relative.toRemote('/home/dev/shop/config/routes.rb'), '/app/config/routes.rb');
+        assert.ok(new PathMapper({}, '/').isEmpty);
+    });
+
+    test('Rewrites source paths in requests, responses and events', () => {
+        const request = { seq: 1, type: 'request', command: 'setBreakpoints', arguments: { source: { path: '/home/dev/shop/app/a.rb' }, lines: [3] } };
+        mapSourcePaths(request, filePath => mapper.toRemote(filePath));
+        assert.strictEqual(request.arguments.source.path, '/app/app/a.rb');
+
+        const response = {
+            seq: 2,
+            type: 'response',
+            command: 'stackTrace',
+            body: { stackFrames: [{ id: 1, name: 'index', line: 4, source: { name: 'a.rb', path: '/app/app/a.rb' } }] }
+        };
+        mapSourcePaths(response, filePath => mapper.toLocal(filePath));
+        assert.strictEqual(response.body.stackFrames[0].source.path, '/home/dev/shop/app/a.rb');
+
+        const loaded = { seq: 3, type: 'response', command: 'loadedSources', body: { sources: [{ path: '/engine/lib/engine.rb' }] } };
+        mapSourcePaths(loaded, filePath => mapper.toLocal(filePath));
+        assert.strictEqual(loaded.body.sources[0].path, '/home/dev/shop/vendor/engine/lib/engine.rb');
+    });
+});
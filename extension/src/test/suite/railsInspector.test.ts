@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { isTruncatedResult, parseInspectorSnapshot, parseRubyStringLiteral } from '../../debug/railsInspector';
+
+suite('Rails Inspector Tests', () => {
+    test('Reads Ruby string literals from inspect and dump', () => {
+        assert.strictEqual(parseRubyStringLiteral('"{\\"a\\":\\"\\\\u00e9 \\#{x}\\"}"'), '{"a":"\\u00e9 #{x}"}');
+        assert.strictEqual(parseRubyStringLiteral('"tab\\tnew\\nline \\u{1F600}"'), 'tab\tnew\nline \u{1F600}');
+        assert.strictEqual(parseRubyStringLiteral('#<NameError: undefined local variable>'), undefined);
+        assert.ok(isTruncatedResult('"{\\"records\\":[{\\"variable\\":\\"user\\"..."...'));
+    });
+
+    test('Parses records, relations and queries', () => {
+        const json = JSON.stringify({
+            records: [{
+                variable: '@user',
+                className: 'User',
+                id: '5',
+                newRecord: false,
+                destroyed: false,
+                attributes: { id: '5', email: '"a@example.com"' },
+                changes: { email: ['"old@example.com"', '"a@example.com"'] },
+                errors: [],
+                associations: [{ name: 'posts', macro: 'has_many', records: ['Post#1'], count: 1 }]
+            }],
+            relations: [{ variable: 'admins', className: 'User', sql: 'SELECT "users".* FROM "users"' }],
+            queries: [{ sql: 'SELECT 1', name: 'User Load', durationMs: 0.4, cached: false, binds: ['5'] }],
+            recordingStarted: false
+        });
+        const literal = `"${json.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+        const snapshot = parseInspectorSnapshot(literal);
+        assert.strictEqual(snapshot.error, undefined);
+        assert.strictEqual(snapshot.records[0].changes.email[0], '"old@example.com"');
+        assert.strictEqual(snapshot.relations[0].sql, 'SELECT "users".* FROM "users"');
+        assert.strictEqual(snapshot.queries[0].name, 'User Load');
+    });
+
+    test('Reports errors from the debuggee', () => {
+        assert.strictEqual(
+            parseInspectorSnapshot('"{\\"error\\":\\"ActiveRecord is not loaded in this process\\"}"').error,
+            'ActiveRecord is not loaded in this process'
+        );
+        assert.strictEqual(parseInspectorSnapshot('#<SyntaxError: unexpected end>').error, '#<SyntaxError: unexpected end>');
+    });
+});
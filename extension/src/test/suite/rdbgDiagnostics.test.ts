@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { diagnoseRdbgOutput, parseRdbgListening } from '../../debug/rdbgDiagnostics';
+
+suite('rdbg Diagnostics Tests', () => {
+    test('Reads the address rdbg listens on', () => {
+        assert.deepStrictEqual(
+            parseRdbgListening('DEBUGGER: Debugger can attach via TCP/IP (127.0.0.1:34493)\n'),
+            { host: '127.0.0.1', port: 34493 }
+        );
+        assert.strictEqual(parseRdbgListening('DEBUGGER: wait for debugger connection...'), undefined);
+    });
+
+    test('Recognises a debug gem missing from the bundle', () => {
+        const output = "bundler: failed to load command: rdbg (/usr/local/bin/rdbg)\n" +
+            "rubygems_integration.rb:236:in `block in replace_bin_path': can't find executable rdbg for gem debug. " +
+            'debug is not currently included in the bundle, perhaps you meant to add it to your Gemfile? (Gem::Exception)';
+        assert.deepStrictEqual(diagnoseRdbgOutput(output), { kind: 'missingDebugGem' });
+        assert.deepStrictEqual(diagnoseRdbgOutput('bundler: command not found: rdbg'), { kind: 'missingDebugGem' });
+    });
+
+    test('Recognises a port in use', () => {
+        const output = "socket.rb:205:in `bind': Address already in use - bind(2) for 127.0.0.1:12345 (Errno::EADDRINUSE)";
+        assert.deepStrictEqual(diagnoseRdbgOutput(output), { kind: 'portInUse', port: 12345 });
+    });
+
+    test('Recognises a Ruby too old for the debug gem', () => {
+        const output = 'debug-1.9.1 requires ruby version >= 2.7.0, which is incompatible with the current version, ruby 2.6.10p210';
+        assert.deepStrictEqual(diagnoseRdbgOutput(output), { kind: 'rubyTooOld', requiredVersion: '2.7.0', rubyVersion: '2.6.10' });
+    });
+
+    test('Leaves unrelated failures undiagnosed', () => {
+        assert.strictEqual(diagnoseRdbgOutput("app.rb:3:in `<main>': undefined method `foo' (NoMethodError)"), undefined);
+    });
+});
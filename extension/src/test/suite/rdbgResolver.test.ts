@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { resolveRdbg, parseRdbgVersion, RdbgProbes } from '../../debug/rdbgResolver';
+
+suite('rdbg Resolver Tests', () => {
+    const project = path.resolve('/work/app');
+    const gemBinDir = path.resolve('/rubies/3.3/bin');
+    const systemBin = path.resolve('/usr/bin');
+
+    // Fake file system and commands: files maps path -> content, versions maps rdbg path -> version
+    function probes(files: { [file: string]: string }, versions: { [rdbg: string]: string }): RdbgProbes {
+        return {
+            exists: file => file in files,
+            readFile: file => files[file],
+            run: async (command, args) => {
+                if (args[0] === '-e') {
+                    return gemBinDir;
+                }
+                const rdbg = args.length > 1 ? args[0] : command;
+                return versions[rdbg] ? `rdbg ${versions[rdbg]}\n` : undefined;
+            },
+            pathDirectories: [systemBin],
+            executableName: 'rdbg'
+        };
+    }
+
+    test('Prefers the project binstub', async () => {
+        const binstub = path.join(project, 'bin', 'rdbg');
+        const lookup = await resolveRdbg(project, 'ruby', probes({ [binstub]: '' }, { [binstub]: '1.9.1' }));
+
+        assert.strictEqual(lookup.resolution?.source, 'binstub');
+        assert.deepStrictEqual(lookup.resolution?.args, [binstub]);
+    });
+
+    test('Uses the bundle when Gemfile.lock has the debug gem', async () => {
+        const files = {
+            [path.join(project, 'Gemfile')]: "gem 'debug'",
+            [path.join(project, 'Gemfile.lock')]: 'GEM\n  specs:\n    debug (1.8.0)\n      irb (~> 1.5)\n'
+        };
+        const lookup = await resolveRdbg(project, 'ruby', probes(files, {}));
+
+        assert.strictEqual(lookup.bundled, true);
+        assert.strictEqual(lookup.resolution?.source, 'bundler');
+        assert.strictEqual(lookup.resolution?.version, '1.8.0');
+        assert.deepStrictEqual(lookup.resolution?.args, ['-S', 'bundle', 'exec', 'rdbg']);
+    });
+
+    test('Falls back to the gem bin directory, then PATH, skipping versions without DAP', async () => {
+        const gemRdbg = path.join(gemBinDir, 'rdbg');
+        const pathRdbg = path.join(systemBin, 'rdbg');
+        const files = { [gemRdbg]: '', [pathRdbg]: '' };
+
+        const fromGemBinDir = await resolveRdbg(project, 'ruby', probes(files, { [gemRdbg]: '1.9.1', [pathRdbg]: '1.9.1' }));
+        assert.strictEqual(fromGemBinDir.resolution?.source, 'gemBinDir');
+
+        const fromPath = await resolveRdbg(project, 'ruby', probes(files, { [gemRdbg]: '0.9.0', [pathRdbg]: '1.9.1' }));
+        assert.strictEqual(fromPath.resolution?.source, 'path');
+        assert.strictEqual(fromPath.resolution?.command, pathRdbg);
+        assert.deepStrictEqual(fromPath.outdated, [{ source: 'gemBinDir', version: '0.9.0' }]);
+    });
+
+    test('Reports nothing found', async () => {
+        const lookup = await resolveRdbg(project, 'ruby', probes({}, {}));
+
+        assert.strictEqual(lookup.resolution, undefined);
+        assert.strictEqual(lookup.bundled, false);
+        assert.strictEqual(parseRdbgVersion('rdbg 1.9.1\n'), '1.9.1');
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { parseRdbgSocketList } from '../../debug/rdbgSockets';
+
+suite('rdbg Socket Tests', () => {
+    test('Reads PID, program and session name from the verbose listing', () => {
+        const sockets = parseRdbgSocketList([
+            '/tmp/rdbg-1000/rdbg-8769-web',
+            'PID: 8769, $0: puma 6.4.2 (tcp://localhost:3000) [app], session_name: web',
+            '/tmp/rdbg-1000/rdbg-8801',
+            'PID: 8801, $0: sidekiq 7.2.0 app [0 of 5 busy], session_name:',
+            ''
+        ].join('\n'));
+
+        assert.deepStrictEqual(sockets, [
+            { path: '/tmp/rdbg-1000/rdbg-8769-web', pid: 8769, programName: 'puma 6.4.2 (tcp://localhost:3000) [app]', sessionName: 'web' },
+            { path: '/tmp/rdbg-1000/rdbg-8801', pid: 8801, programName: 'sidekiq 7.2.0 app [0 of 5 busy]', sessionName: undefined }
+        ]);
+    });
+
+    test('Takes the PID and session name from the socket path in the plain listing', () => {
+        const sockets = parseRdbgSocketList('/run/user/1000/rdbg-42-worker\n/run/user/1000/rdbg-43\n');
+
+        assert.deepStrictEqual(sockets.map(socket => [socket.pid, socket.sessionName]), [[42, 'worker'], [43, undefined]]);
+    });
+
+    test('Ignores output that is not a socket', () => {
+        assert.deepStrictEqual(parseRdbgSocketList('Warning: something\n'), []);
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import {
+    checkHelperCalls,
+    findHelperCalls,
+    helperCallAt,
+    helperSignatures,
+    maskRubyCode,
+    routeSegments,
+    signatureLabel
+} from '../../rails/routeHelpers';
+import { RailsRoute } from '../../rails/routesParser';
+
+suite('Route Helper Tests', () => {
+    const route = (name: string, verb: string, path: string, extra: Partial<RailsRoute> = {}): RailsRoute =>
+        ({ name, verb, path, controller: 'app', action: 'index', file: '/app/config/routes.rb', line: 0, ...extra });
+
+    const signatures = helperSignatures([
+        route('users', 'GET', '/users(.:format)'),
+        route('user', 'GET', '/users/:id(.:format)'),
+        route('user', 'PATCH', '/users/:id(.:format)'),
+        route('edit_post_comment', 'GET', '/posts/:post_id/comments/:id/edit(.:format)'),
+        route('posts', 'GET', '/blog/posts(.:format)', { engine: 'blog' })
+    ]);
+
+    const problems = (text: string, languageId = 'ruby', complete = true) =>
+        checkHelperCalls(maskRubyCode(text, languageId), signatures, {
+            complete,
+            directs: ['homepage'],
+            isMethodDefined: name => name === 'gravatar_url'
+        })
+            .map(problem => `${text.slice(problem.start, problem.end)}: ${problem.message}`);
+
+    test('Reads required and optional segments into a signature', () => {
+        assert.deepStrictEqual(routeSegments('/files/*path(/:locale)(.:format)'), { required: ['path'], optional: ['locale', 'format'] });
+
+        const signature = signatures.get('edit_post_comment_url')!;
+        assert.deepStrictEqual(signature.required, ['post_id', 'id']);
+        assert.strictEqual(signatureLabel(signature).label, 'edit_post_comment_url(post_id, id, format = nil, **options)');
+        assert.strictEqual(signatures.get('user_path')!.routes.length, 2);
+        assert.ok(signatures.has('blog.posts_path'));
+
+        const code = maskRubyCode('<%= link_to "Edit", edit_post_comment_path(@post, id: ', 'erb');
+        assert.deepStrictEqual(helperCallAt(code, code.length), { helper: 'edit_post_comment_path', index: 1, key: 'id' });
+    });
+
+    test('Finds helper calls only in Ruby code', () => {
+        const erb = [
+            '<p>users_path</p>',
+            '<%# user_path(1, 2) %>',
+            '<%= link_to "users_path(1)", user_path(@user, format: :json) %>',
+            '<%= link_to "#{blog.posts_url}", main_app.users_path %>'
+        ].join('\n');
+        const calls = findHelperCalls(maskRubyCode(erb, 'erb')).map(call => `${call.helper}:${call.args?.positional.length}`);
+        assert.deepStrictEqual(calls, ['user_path:1', 'blog.posts_url:0', 'users_path:0']);
+
+        const ruby = [
+            'redirect_to @user.avatar_url # users_path(1)',
+            'profile_path = "/me"',
+            'cache_key = :sitemap_path',
+            'redirect_to user_path @user'
+        ].join('\n');
+        assert.deepStrictEqual(findHelperCalls(maskRubyCode(ruby, 'ruby')).map(call => [call.helper, call.args]), [['user_path', undefined]]);
+    });
+
+    test('Warns about unknown helpers and wrong argument counts', () => {
+        assert.deepStrictEqual(problems([
+            'redirect_to user_path(@user)',
+            'redirect_to edit_post_comment_path(@post, @comment, anchor: "c")',
+            'redirect_to edit_post_comment_path(@comment, post_id: 1)',
+            'redirect_to user_path(id, options)',
+            'redirect_to users_path(:csv)',
+            'redirect_to homepage_url, image_path("a.png")',
+            'redirect_to rails_blob_path(@file)'
+        ].join('\n')), []);
+
+        assert.deepStrictEqual(problems([
+            '<%= link_to "Edit", edit_post_comment_path(@comment) %>',
+            '<%= link_to "All", users_path(@user) %>',
+            '<%= link_to "Me", profile_path %>',
+            '<%= link_to "Blog", blog.post_path(1) %>'
+        ].join('\n'), 'erb'), [
+            'edit_post_comment_path: edit_post_comment_path expects 2 arguments (post_id, id), got 1',
+            'users_path: users_path expects 0 arguments and optional format, got 1',
+            'profile_path: No route defines profile_path'
+        ]);
+
+        // Routes the parser couldn't expand may define it
+        assert.deepStrictEqual(problems('= link_to "Me", profile_path', 'haml', false), []);
+        assert.deepStrictEqual(problems('def profile_path\n  "/me"\nend\nredirect_to profile_path'), []);
+        // Defined in app/helpers
+        assert.deepStrictEqual(problems('<%= image_tag gravatar_url(@user) %>', 'erb'), []);
+    });
+});
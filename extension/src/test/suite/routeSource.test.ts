@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { RouteSource } from '../../rails/routeSource';
+import { parseRoutesOutput } from '../../rails/routesOutput';
+import { parseRoutes } from '../../rails/routesParser';
+
+suite('Route Source Tests', () => {
+    const routesRb = [
+        'Rails.application.routes.draw do',
+        '  devise_for :users',
+        '  resources :users, only: :index',
+        '  mount Blog::Engine, at: "/blog"',
+        'end'
+    ].join('\n');
+
+    const expanded = [
+        '--[ Route 1 ]------------------------------------------------',
+        'Prefix            | new_user_session',
+        'Verb              | GET',
+        'URI               | /users/sign_in(.:format)',
+        'Controller#Action | devise/sessions#new',
+        'Source Location   | devise (4.9.3) lib/devise/rails/routes.rb:242',
+        '--[ Route 2 ]------------------------------------------------',
+        'Prefix            | users',
+        'Verb              | GET',
+        'URI               | /users(.:format)',
+        'Controller#Action | users#index {format: :json}',
+        'Source Location   | config/routes.rb:3',
+        '--[ Route 3 ]------------------------------------------------',
+        'Prefix            | blog',
+        'Verb              | ',
+        'URI               | /blog',
+        'Controller#Action | Blog::Engine',
+        'Source Location   | config/routes.rb:4',
+        '',
+        '[ Routes for Blog::Engine ]',
+        '--[ Route 1 ]------------------------------------------------',
+        'Prefix            | posts',
+        'Verb              | GET',
+        'URI               | /posts(.:format)',
+        'Controller#Action | blog/posts#index',
+        'Source Location   | ',
+        ''
+    ].join('\n');
+
+    test('Reads the expanded listing with engine sections', () => {
+        const folder = path.join('/app');
+        const file = path.join(folder, 'config', 'routes.rb');
+        const routes = parseRoutesOutput(expanded, folder, parseRoutes(routesRb, file));
+
+        assert.deepStrictEqual(routes, [
+            { name: 'new_user_session', verb: 'GET', path: '/users/sign_in(.:format)', controller: 'devise/sessions', action: 'new', file, line: 0 },
+            { name: 'users', verb: 'GET', path: '/users(.:format)', controller: 'users', action: 'index', file, line: 2 },
+            { name: 'blog', verb: '', path: '/blog', endpoint: 'Blog::Engine', file, line: 3 },
+            { name: 'posts', verb: 'GET', path: '/blog/posts(.:format)', controller: 'blog/posts', action: 'index', engine: 'blog', file, line: 3 }
+        ]);
+    });
+
+    test('Reads JSON output', () => {
+        const folder = path.join('/app');
+        const output = JSON.stringify([
+            { name: 'root', verb: 'GET', path: '/', reqs: 'home#index', source_location: 'config/routes/pages.rb:2' },
+            { name: '', verb: 'GET', path: '/old(.:format)', reqs: 'redirect(301, /new)' }
+        ]);
+
+        assert.deepStrictEqual(parseRoutesOutput(output, folder, []), [
+            { name: 'root', verb: 'GET', path: '/', controller: 'home', action: 'index', file: path.join(folder, 'config', 'routes', 'pages.rb'), line: 1 },
+            { name: undefined, verb: 'GET', path: '/old(.:format)', endpoint: 'redirect(301, /new)', file: path.join(folder, 'config', 'routes.rb'), line: 0 }
+        ]);
+    });
+
+    test('Runs bin/rails routes once per change to the routes files', async function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+
+        const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'rubymate-routes-'));
+        const source = new RouteSource();
+        try {
+            fs.mkdirSync(path.join(folder, 'bin'));
+            fs.mkdirSync(path.join(folder, 'config'));
+            fs.writeFileSync(path.join(folder, 'config', 'routes.rb'), routesRb);
+            fs.writeFileSync(path.join(folder, 'routes.txt'), expanded);
+            // Stands in for bin/rails: counts its runs and prints the fixture
+            fs.writeFileSync(path.join(folder, 'bin', 'rails'), [
+                '#!/bin/sh',
+                'cd "$(dirname "$0")/.."',
+                'echo "$*" >> runs',
+                'cat routes.txt'
+            ].join('\n'), { mode: 0o755 });
+            const runs = () => fs.readFileSync(path.join(folder, 'runs'), 'utf8').trim().split('\n');
+
+            const changes: string[] = [];
+            source.onDidChange(changed => changes.push(changed));
+
+            // The parsed routes file while bin/rails runs, then its table
+            assert.deepStrictEqual(source.routes(folder).map(route => route.name), ['users', 'blog']);
+            const routes = await source.load(folder);
+            assert.deepStrictEqual(routes.map(route => route.name), ['new_user_session', 'users', 'blog', 'posts']);
+            assert.deepStrictEqual(source.routes(folder), routes);
+            assert.deepStrictEqual(runs(), ['routes --expanded']);
+            assert.deepStrictEqual(changes, [folder]);
+
+            const later = new Date(Date.now() + 10000);
+            fs.mkdirSync(path.join(folder, 'config', 'routes'));
+            fs.writeFileSync(path.join(folder, 'config', 'routes', 'admin.rb'), '');
+            fs.utimesSync(path.join(folder, 'config', 'routes', 'admin.rb'), later, later);
+            await source.load(folder);
+            assert.strictEqual(runs().length, 2);
+
+            // Falls back to the routes files when the app doesn't boot
+            fs.writeFileSync(path.join(folder, 'bin', 'rails'), '#!/bin/sh\necho "boom" >&2\nexit 1\n', { mode: 0o755 });
+            fs.utimesSync(path.join(folder, 'config', 'routes.rb'), later, later);
+            assert.deepStrictEqual((await source.load(folder)).map(route => route.name), ['users', 'blog']);
+        } finally {
+            source.dispose();
+            fs.rmSync(folder, { recursive: true, force: true });
+        }
+    });
+});
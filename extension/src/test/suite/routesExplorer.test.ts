@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import {
+    AppController,
+    controllerActions,
+    controllerPath,
+    groupRoutes,
+    parseRouteFilter,
+    routeHelper,
+    templateActions
+} from '../../rails/routesExplorer';
+import { RailsRoute } from '../../rails/routesParser';
+
+suite('Routes Explorer Tests', () => {
+    const route = (name: string | undefined, verb: string, path: string, target: string, extra: Partial<RailsRoute> = {}): RailsRoute => {
+        const [controller, action] = target.split('#');
+        return action
+            ? { name, verb, path, controller, action, file: '/app/config/routes.rb', line: 0, ...extra }
+            : { name, verb, path, endpoint: target, file: '/app/config/routes.rb', line: 0, ...extra };
+    };
+
+    const routes = [
+        route('users', 'GET', '/users(.:format)', 'users#index'),
+        route('user', 'GET', '/users/:id(.:format)', 'users#show'),
+        route('admin_reports', 'GET', '/admin/reports(.:format)', 'admin/reports#index'),
+        route(undefined, 'POST', '/admin/reports(.:format)', 'admin/reports#create'),
+        route('sidekiq_web', '', '/sidekiq', 'Sidekiq::Web'),
+        route('posts', 'GET', '/blog/posts(.:format)', 'blog/posts#index', { engine: 'blog' }),
+        route('about', 'GET', '/about(.:format)', 'pages#about')
+    ];
+
+    const controllers = new Map<string, AppController>([
+        ['users', { file: '/app/app/controllers/users_controller.rb', actions: [{ name: 'index', line: 1 }, { name: 'export', line: 4 }], templates: ['index'] }],
+        ['admin/reports', { file: '/app/app/controllers/admin/reports_controller.rb', actions: [{ name: 'index', line: 1 }, { name: 'create', line: 3 }], templates: [] }],
+        ['legacy', { file: '/app/app/controllers/legacy_controller.rb', actions: [{ name: 'home', line: 1 }], templates: [] }],
+        ['pages', { file: '/app/app/controllers/pages_controller.rb', actions: [], templates: ['about'] }]
+    ]);
+
+    test('Finds the public actions of a controller', () => {
+        const source = [
+            'class UsersController < ApplicationController',
+            '  def index; end',
+            '  def self.policy; end',
+            '  def export # CSV',
+            '  end',
+            '  def preview; end',
+            '  private :preview',
+            '',
+            '  private',
+            '',
+            '  def set_user; end',
+            'end'
+        ].join('\n');
+
+        assert.deepStrictEqual(controllerActions(source), [{ name: 'index', line: 1 }, { name: 'export', line: 3 }]);
+        assert.strictEqual(controllerPath('app/controllers/admin/reports_controller.rb'), 'admin/reports');
+        assert.strictEqual(controllerPath('app/controllers/application_controller.rb'), undefined);
+        assert.strictEqual(controllerPath('app/controllers/concerns/paging_controller.rb'), undefined);
+        assert.deepStrictEqual(templateActions(['about.html.erb', 'about.text.erb', '_team.html.erb', 'faq.html+phone.haml', 'shared']), ['about', 'faq']);
+    });
+
+    test('Groups routes by namespace and controller and flags mismatches', () => {
+        const groups = groupRoutes(routes, controllers);
+        const summary = groups.map(group => ({
+            namespace: group.namespace,
+            engine: group.engine,
+            controllers: group.controllers.map(entry => ({
+                controller: entry.controller,
+                routes: entry.routes.map(routed => `${routed.route.verb} ${routed.route.path}${routed.missingAction ? ' (no action)' : ''}${routed.implicitAction ? ' (template)' : ''}`),
+                unrouted: entry.unrouted.map(action => action.name)
+            }))
+        }));
+
+        assert.deepStrictEqual(summary, [
+            {
+                namespace: '',
+                engine: undefined,
+                controllers: [
+                    { controller: 'legacy', routes: [], unrouted: ['home'] },
+                    { controller: 'pages', routes: ['GET /about(.:format) (template)'], unrouted: [] },
+                    { controller: 'users', routes: ['GET /users(.:format)', 'GET /users/:id(.:format) (no action)'], unrouted: ['export'] },
+                    { controller: undefined, routes: [' /sidekiq'], unrouted: [] }
+                ]
+            },
+            {
+                namespace: 'admin',
+                engine: undefined,
+                controllers: [
+                    { controller: 'admin/reports', routes: ['GET /admin/reports(.:format)', 'POST /admin/reports(.:format)'], unrouted: [] }
+                ]
+            },
+            {
+                namespace: 'blog',
+                engine: 'blog',
+                controllers: [{ controller: 'blog/posts', routes: ['GET /blog/posts(.:format)'], unrouted: [] }]
+            }
+        ]);
+        assert.strictEqual(routeHelper(routes[5]), 'blog.posts_path');
+    });
+
+    test('Filters by text and verb', () => {
+        const shown = (input: string) => groupRoutes(routes, controllers, parseRouteFilter(input))
+            .flatMap(group => group.controllers)
+            .flatMap(entry => [
+                ...entry.routes.map(routed => `${routed.route.verb} ${routed.route.path}`),
+                ...entry.unrouted.map(action => `${entry.controller}#${action.name}`)
+            ]);
+
+        assert.deepStrictEqual(shown('post'), ['POST /admin/reports(.:format)']);
+        assert.deepStrictEqual(shown('reports'), ['GET /admin/reports(.:format)', 'POST /admin/reports(.:format)']);
+        assert.deepStrictEqual(shown('blog.posts_path'), ['GET /blog/posts(.:format)']);
+        assert.deepStrictEqual(shown('export'), ['users#export']);
+        assert.deepStrictEqual(shown('GET users'), ['GET /users(.:format)', 'GET /users/:id(.:format)']);
+    });
+});
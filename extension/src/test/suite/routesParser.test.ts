@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseRoutes, parseRoutesFile, RailsRoute } from '../../rails/routesParser';
+import { pluralize, singularize } from '../../utils/inflection';
+
+suite('Routes Parser Tests', () => {
+    const file = path.join('/app', 'config', 'routes.rb');
+
+    // `rails routes` columns: name, verb, path, controller#action
+    function table(routes: RailsRoute[]): string[] {
+        return routes.map(route => [
+            route.name || '',
+            route.verb,
+            route.path,
+            route.controller ? `${route.controller}#${route.action}` : route.endpoint
+        ].join(' '));
+    }
+
+    test('Expands resources with nesting, member and collection routes', () => {
+        const routes = parseRoutes([
+            'Rails.application.routes.draw do',
+            '  resources :posts, only: [:index, :show] do',
+            '    resources :comments, only: :create',
+            '    get :preview, on: :member',
+            '    collection do',
+            '      get :search',
+            '    end',
+            '  end',
+            '  resource :profile, except: [:new, :create, :destroy]',
+            '  resources :photos, only: [:show, :destroy], shallow: true do',
+            '    resources :tags, only: [:index, :show]',
+            '  end',
+            'end'
+        ].join('\n'), file);
+
+        assert.deepStrictEqual(table(routes), [
+            'post_comments POST /posts/:post_id/comments(.:format) comments#create',
+            'preview_post GET /posts/:id/preview(.:format) posts#preview',
+            'search_posts GET /posts/search(.:format) posts#search',
+            'posts GET /posts(.:format) posts#index',
+            'post GET /posts/:id(.:format) posts#show',
+            'edit_profile GET /profile/edit(.:format) profiles#edit',
+            'profile GET /profile(.:format) profiles#show',
+            ' PATCH /profile(.:format) profiles#update',
+            ' PUT /profile(.:format) profiles#update',
+            'photo_tags GET /photos/:photo_id/tags(.:format) tags#index',
+            'tag GET /tags/:id(.:format) tags#show',
+            'photo GET /photos/:id(.:format) photos#show',
+            ' DELETE /photos/:id(.:format) photos#destroy'
+        ]);
+        assert.deepStrictEqual(routes.map(route => route.line), [2, 3, 5, 1, 1, 8, 8, 8, 8, 10, 10, 9, 9]);
+    });
+
+    test('Applies namespaces, scopes, root, redirects and mounts', () => {
+        const routes = parseRoutes([
+            'Rails.application.routes.draw do',
+            '  root "home#index"',
+            '  namespace :admin do',
+            '    resources :users, only: :index',
+            '    get "stats", to: "dashboard#stats", as: :stats',
+            '  end',
+            '  scope "/:locale", module: :public do',
+            '    get "about" => "pages#about"',
+            '  end',
+            '  get "/old", to: redirect("/new")',
+            '  get "/older", to: redirect("/new", status: 302)',
+            '  mount Sidekiq::Web => "/sidekiq"',
+            '  mount Blog::Engine, at: "/blog"',
+            '  if Rails.env.development?',
+            '    match "status", to: "health#show", via: [:get, :head]',
+            '  end',
+            'end'
+        ].join('\n'), file);
+
+        assert.deepStrictEqual(table(routes), [
+            'root GET / home#index',
+            'admin_users GET /admin/users(.:format) admin/users#index',
+            'admin_stats GET /admin/stats(.:format) admin/dashboard#stats',
+            'about GET /:locale/about(.:format) public/pages#about',
+            'old GET /old(.:format) redirect(301, /new)',
+            'older GET /older(.:format) redirect(302, /new)',
+            'sidekiq_web  /sidekiq Sidekiq::Web',
+            'blog  /blog Blog::Engine',
+            'status GET|HEAD /status(.:format) health#show'
+        ]);
+    });
+
+    test('Follows draw into config/routes and expands concerns', () => {
+        const files: { [file: string]: string } = {
+            [file]: [
+                'Rails.application.routes.draw do',
+                '  concern :commentable do',
+                '    resources :comments, only: :index',
+                '  end',
+                '  resources :articles, only: :show, concerns: :commentable',
+                '  draw :api',
+                'end'
+            ].join('\n'),
+            [path.join('/app', 'config', 'routes', 'api.rb')]: [
+                'namespace :api, defaults: { format: :json } do',
+                '  namespace :v1 do',
+                '    resources :events, only: :index',
+                '  end',
+                'end'
+            ].join('\n')
+        };
+
+        const routes = parseRoutesFile(file, name => files[name]);
+
+        assert.deepStrictEqual(table(routes), [
+            'article_comments GET /articles/:article_id/comments(.:format) comments#index',
+            'article GET /articles/:id(.:format) articles#show',
+            'api_v1_events GET /api/v1/events(.:format) api/v1/events#index'
+        ]);
+        assert.deepStrictEqual(
+            routes.map(route => `${path.basename(route.file)}:${route.line}`),
+            ['routes.rb:2', 'routes.rb:4', 'api.rb:2']
+        );
+    });
+
+    test('Inflects resource names', () => {
+        assert.strictEqual(singularize('categories'), 'category');
+        assert.strictEqual(singularize('line_items'), 'line_item');
+        assert.strictEqual(singularize('people'), 'person');
+        assert.strictEqual(singularize('statuses'), 'status');
+        assert.strictEqual(singularize('sheep'), 'sheep');
+        assert.strictEqual(pluralize('admin/box'), 'admin/boxes');
+        assert.strictEqual(pluralize('knife'), 'knives');
+        assert.strictEqual(pluralize('status'), 'statuses');
+    });
+});
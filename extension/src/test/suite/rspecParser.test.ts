@@ -0,0 +1,159 @@
+import * as assert from 'assert';
+import { parseRSpec, resolveSharedExamples, RSpecNode } from '../../testing/rspecParser';
+
+function labels(nodes: RSpecNode[]): string[] {
+    return nodes.map(node => node.label);
+}
+
+suite('RSpec Parser Tests', () => {
+    test('Nests groups by block, not indentation', () => {
+        const spec = [
+            "RSpec.describe User, type: :model do",
+            "describe '#name' do",
+            "  it 'returns the name' do",
+            "    expect(user.name).to eq('do end')",
+            "  end",
+            "end",
+            "  context 'when blank' do",
+            "    it('is invalid') { expect(user).not_to be_valid }",
+            "  end",
+            "end"
+        ].join('\n');
+
+        const { groups } = parseRSpec(spec);
+        assert.strictEqual(groups.length, 1);
+        assert.strictEqual(groups[0].label, 'User');
+        assert.strictEqual(groups[0].endLine, 9);
+        assert.deepStrictEqual(labels(groups[0].children), ['#name', 'when blank']);
+        assert.deepStrictEqual(groups[0].children[0].children.map(n => [n.label, n.line, n.endLine]), [['returns the name', 2, 4]]);
+        assert.strictEqual(groups[0].children[1].children[0].label, 'is invalid');
+    });
+
+    test('Ignores block keywords in strings, comments and heredocs', () => {
+        const spec = [
+            "describe 'parsing' do",
+            "  # it 'is a comment' do",
+            "  let(:text) do",
+            "    <<~RUBY",
+            "      it 'is not an example' do",
+            "      end",
+            "    RUBY",
+            "  end",
+            "",
+            "  it 'handles \"#{quoted} do\" text' do",
+            "    value = if ready then 1 else 2 end",
+            "    other = %w[do end]",
+            "  end",
+            "end"
+        ].join('\n');
+
+        const { groups } = parseRSpec(spec);
+        assert.strictEqual(groups[0].endLine, 13);
+        assert.deepStrictEqual(labels(groups[0].children), ['handles "#{quoted} do" text']);
+        assert.strictEqual(groups[0].children[0].endLine, 12);
+    });
+
+    test('Describes examples without a description', () => {
+        const spec = [
+            "describe User do",
+            "  it { is_expected.to validate_presence_of(:name) }",
+            "  it { should be_valid }",
+            "  specify do",
+            "  end",
+            "end"
+        ].join('\n');
+
+        const { groups } = parseRSpec(spec);
+        assert.deepStrictEqual(labels(groups[0].children), [
+            'is expected to validate presence of',
+            'should be valid',
+            'example at line 4'
+        ]);
+    });
+
+    test('Marks skipped and focused examples', () => {
+        const spec = [
+            "describe 'flags' do",
+            "  xit 'is skipped' do",
+            "  end",
+            "  fit 'is focused' do",
+            "  end",
+            "  it 'is pending'",
+            "  it 'skips inside' do",
+            "    skip 'not yet'",
+            "  end",
+            "  xcontext 'skipped group' do",
+            "    it 'inherits' do",
+            "    end",
+            "  end",
+            "end"
+        ].join('\n');
+
+        const children = parseRSpec(spec).groups[0].children;
+        assert.deepStrictEqual(children.map(n => [n.label, n.skipped, n.focused]), [
+            ['is skipped', true, false],
+            ['is focused', false, true],
+            ['is pending', true, false],
+            ['skips inside', true, false],
+            ['skipped group', true, false]
+        ]);
+        assert.strictEqual(children[4].children[0].skipped, true);
+    });
+
+    test('Expands shared examples and assigns RSpec ids', () => {
+        const spec = [
+            "RSpec.shared_examples 'a collection' do",
+            "  it 'is enumerable' do",
+            "  end",
+            "  it 'has a size' do",
+            "  end",
+            "end",
+            "",
+            "RSpec.describe Array do",
+            "  it 'is first' do",
+            "  end",
+            "  it_behaves_like 'a collection'",
+            "  include_examples 'a collection'",
+            "  context 'nested' do",
+            "    it 'is last' do",
+            "    end",
+            "  end",
+            "end"
+        ].join('\n');
+
+        const file = parseRSpec(spec, '/app/spec/array_spec.rb');
+        resolveSharedExamples(file);
+
+        assert.strictEqual(file.groups.length, 1);
+        const children = file.groups[0].children;
+        assert.deepStrictEqual(labels(children), ['is first', 'behaves like a collection', 'includes a collection', 'nested']);
+        assert.deepStrictEqual(children.map(n => n.scopedId), ['1:1', '1:2', undefined, '1:5']);
+        assert.deepStrictEqual(children[1].children.map(n => n.scopedId), ['1:2:1', '1:2:2']);
+        assert.deepStrictEqual(children[2].children.map(n => n.scopedId), ['1:3', '1:4']);
+        assert.strictEqual(children[3].children[0].scopedId, '1:5:1');
+        assert.strictEqual(children[1].children[0].line, 1);
+    });
+
+    test('Stops predicting ids after examples built in a loop', () => {
+        const spec = [
+            "describe 'loop' do",
+            "  it 'is first' do",
+            "  end",
+            "  %w[a b].each do |name|",
+            "    it \"handles #{name}\" do",
+            "    end",
+            "  end",
+            "  it 'is after' do",
+            "  end",
+            "end"
+        ].join('\n');
+
+        const file = parseRSpec(spec);
+        resolveSharedExamples(file);
+        assert.deepStrictEqual(file.groups[0].children.map(n => [n.label, n.scopedId]), [
+            ['is first', '1:1'],
+            ['handles #{name}', undefined],
+            ['is after', undefined]
+        ]);
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseRSpecJson, extractExpectedActual } from '../../testing/rspecResults';
+import { findFailureLocation } from '../../testing/backtrace';
+
+suite('RSpec Results Tests', () => {
+    const report = {
+        version: '3.13.0',
+        examples: [
+            {
+                id: './spec/models/user_spec.rb[1:1]',
+                description: 'has a name',
+                full_description: 'User has a name',
+                status: 'failed',
+                file_path: './spec/models/user_spec.rb',
+                line_number: 4,
+                run_time: 0.012,
+                exception: {
+                    class: 'RSpec::Expectations::ExpectationNotMetError',
+                    message: '\nexpected: "Alice"\n     got: "Bob"\n\n(compared using ==)\n',
+                    backtrace: [
+                        '/gems/rspec-support/lib/rspec/support.rb:110:in `block in <module:Support>\'',
+                        './spec/models/user_spec.rb:5:in `block (2 levels) in <top (required)>\''
+                    ]
+                }
+            }
+        ],
+        summary: { duration: 0.02, example_count: 1, failure_count: 1, pending_count: 0, errors_outside_of_examples_count: 0 }
+    };
+
+    test('Parses a JSON report', () => {
+        const parsed = parseRSpecJson(JSON.stringify(report));
+        assert.ok(parsed);
+        assert.strictEqual(parsed!.examples.length, 1);
+        assert.strictEqual(parsed!.examples[0].status, 'failed');
+    });
+
+    test('Finds the JSON report after other output', () => {
+        const parsed = parseRSpecJson(`Run options: include {:locations=>{}}\n${JSON.stringify(report)}\n`);
+        assert.ok(parsed);
+        assert.strictEqual(parsed!.examples[0].line_number, 4);
+    });
+
+    test('Returns undefined for non-JSON output', () => {
+        assert.strictEqual(parseRSpecJson('An error occurred while loading ./spec/foo_spec.rb'), undefined);
+    });
+
+    test('Extracts expected and actual values', () => {
+        const diff = extractExpectedActual(report.examples[0].exception.message);
+        assert.deepStrictEqual(diff, { expected: '"Alice"', actual: '"Bob"' });
+    });
+
+    test('Ignores messages without expected/got', () => {
+        assert.strictEqual(extractExpectedActual('expected [1, 2] to include 3'), undefined);
+    });
+
+    test('Prefers the spec file frame in a backtrace', () => {
+        const cwd = path.resolve('/app');
+        const location = findFailureLocation(
+            report.examples[0].exception.backtrace,
+            cwd,
+            path.join(cwd, 'spec', 'models', 'user_spec.rb')
+        );
+        assert.deepStrictEqual(location, { file: path.join(cwd, 'spec', 'models', 'user_spec.rb'), line: 5 });
+    });
+});
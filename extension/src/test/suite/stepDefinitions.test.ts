@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { parseStepDefinitions, findMatchingSteps, cucumberExpressionToRegExp } from '../../testing/stepDefinitions';
+
+suite('Step Definitions Tests', () => {
+    const steps = [
+        'Given(/^I have (\\d+) cukes? in my (belly|stomach)$/) do |count, organ|',
+        'end',
+        '',
+        "When('I add {int} {string} to the basket') do |count, name|",
+        'end',
+        '',
+        'Then "I should see {word}" do |word|',
+        'end',
+        '',
+        'Given %r{^I am on the (.+) page$}i do |page|',
+        'end'
+    ].join('\n');
+
+    test('Parses regexp and Cucumber expression definitions', () => {
+        const definitions = parseStepDefinitions(steps);
+
+        assert.deepStrictEqual(definitions.map(definition => [definition.keyword, definition.line]), [
+            ['Given', 0], ['When', 3], ['Then', 6], ['Given', 9]
+        ]);
+    });
+
+    test('Matches step text against definitions', () => {
+        const definitions = parseStepDefinitions(steps);
+        const lineFor = (text: string) => findMatchingSteps(text, definitions).map(definition => definition.line);
+
+        assert.deepStrictEqual(lineFor('I have 3 cukes in my stomach'), [0]);
+        assert.deepStrictEqual(lineFor('I add 2 "apples" to the basket'), [3]);
+        assert.deepStrictEqual(lineFor('I should see success'), [6]);
+        assert.deepStrictEqual(lineFor('I AM ON THE HOME PAGE'), [9]);
+        assert.deepStrictEqual(lineFor('I add two "apples" to the basket'), []);
+    });
+
+    test('Converts optional text and alternatives in Cucumber expressions', () => {
+        const pattern = cucumberExpressionToRegExp('I have {int} cucumber(s) in my belly/stomach')!;
+
+        assert.ok(pattern.test('I have 1 cucumber in my belly'));
+        assert.ok(pattern.test('I have 42 cucumbers in my stomach'));
+        assert.ok(!pattern.test('I have 42 cucumbers in my head'));
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { TestHistory } from '../../testing/testHistory';
+
+suite('Test History Tests', () => {
+    const info = { label: 'has a name', file: '/app/spec/user_spec.rb', line: 4 };
+    let dir: string;
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rubymate-history-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('Flags tests that flip between pass and fail', () => {
+        const history = new TestHistory(path.join(dir, 'history.json'));
+        history.record('flaky', info, 'passed');
+        history.record('flaky', info, 'failed');
+        history.record('flaky', info, 'skipped');
+        history.record('flaky', info, 'passed');
+
+        history.record('broken', info, 'passed');
+        history.record('broken', info, 'failed');
+        history.record('broken', info, 'failed');
+
+        assert.strictEqual(history.isFlaky('flaky'), true);
+        assert.strictEqual(history.isFlaky('broken'), false);
+    });
+
+    test('Lists tests whose last completed run failed', () => {
+        const history = new TestHistory(path.join(dir, 'history.json'));
+        history.record('fixed', info, 'failed');
+        history.record('fixed', info, 'passed');
+        history.record('errored', info, 'errored');
+        history.record('failing', info, 'failed');
+        history.record('failing', info, 'skipped');
+
+        assert.deepStrictEqual(history.failedTests().sort(), ['errored', 'failing']);
+    });
+
+    test('Orders tests by average duration', () => {
+        const history = new TestHistory(path.join(dir, 'history.json'));
+        history.record('fast', info, 'passed', 10);
+        history.record('slow', info, 'passed', 900);
+        history.record('slow', info, 'failed', 1100);
+        history.record('untimed', info, 'skipped');
+
+        const slowest = history.slowest(5);
+        assert.deepStrictEqual(slowest.map(test => [test.id, test.averageDuration, test.timedRuns]), [
+            ['slow', 1000, 2],
+            ['fast', 10, 1]
+        ]);
+    });
+
+    test('Persists history across instances', async () => {
+        const filePath = path.join(dir, 'nested', 'history.json');
+        const history = new TestHistory(filePath);
+        history.record('failing', info, 'failed', 25);
+        await history.save();
+
+        const reloaded = new TestHistory(filePath);
+        await reloaded.load();
+        assert.deepStrictEqual(reloaded.failedTests(), ['failing']);
+        assert.strictEqual(reloaded.get('failing')?.line, 4);
+    });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { detectTestFrameworks, owningRoot } from '../../testing/testRoots';
+
+suite('Test Roots Tests', () => {
+    const noMarkers = { hasSpecDir: false, hasTestDir: false, hasRSpecConfig: false };
+
+    test('Detects RSpec from the lockfile', () => {
+        const gemfileLock = 'GEM\n  specs:\n    rspec-core (3.13.0)\n      rspec-support (~> 3.13.0)\n';
+        assert.deepStrictEqual(detectTestFrameworks({ ...noMarkers, gemfileLock }), ['rspec']);
+    });
+
+    test('Detects Minitest from a test directory, not from the lockfile', () => {
+        const gemfileLock = 'GEM\n  specs:\n    minitest (5.20.0)\n';
+        assert.deepStrictEqual(detectTestFrameworks({ ...noMarkers, gemfileLock, hasTestDir: true }), ['minitest']);
+    });
+
+    test('Detects both frameworks in one root', () => {
+        const gemfile = "source 'https://rubygems.org'\ngem 'rspec-rails'\n";
+        assert.deepStrictEqual(detectTestFrameworks({ ...noMarkers, gemfile, hasTestDir: true }), ['rspec', 'minitest']);
+    });
+
+    test('Detects Cucumber alongside RSpec only with a features directory', () => {
+        const gemfileLock = 'GEM\n  specs:\n    cucumber (9.2.0)\n    rspec-core (3.13.0)\n';
+        assert.deepStrictEqual(detectTestFrameworks({ ...noMarkers, gemfileLock, hasFeaturesDir: true }), ['rspec', 'cucumber']);
+        assert.deepStrictEqual(detectTestFrameworks({ ...noMarkers, gemfileLock, hasFeaturesDir: false }), ['rspec']);
+    });
+
+    test('Falls back to both frameworks without markers', () => {
+        assert.deepStrictEqual(detectTestFrameworks(noMarkers), ['rspec', 'minitest']);
+    });
+
+    test('Assigns files to the deepest root', () => {
+        const app = path.resolve('/work/app');
+        const engine = path.join(app, 'engines', 'billing');
+        const roots = [app, engine];
+
+        assert.strictEqual(owningRoot(path.join(engine, 'spec', 'invoice_spec.rb'), roots), engine);
+        assert.strictEqual(owningRoot(path.join(app, 'spec', 'user_spec.rb'), roots), app);
+        assert.strictEqual(owningRoot(path.resolve('/work/app-old/spec/user_spec.rb'), roots), undefined);
+    });
+});
@@ -1,53 +1,172 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as crypto from 'crypto';
 import { promisify } from 'util';
+import { parseRSpecJson, extractExpectedActual, RSpecExampleResult } from './testing/rspecResults';
+import { parseMinitestReport, extractMinitestExpectedActual, MinitestTestResult } from './testing/minitestResults';
+import { findFailureLocation } from './testing/backtrace';
+import { parseRSpec, resolveSharedExamples, RSpecNode } from './testing/rspecParser';
+import { runTestProcess } from './testing/testProcess';
+import { parseSimpleCovResults, remapCoveragePath } from './testing/coverageResults';
+import { TestHistory, TestOutcomeKind } from './testing/testHistory';
+import { detectTestFrameworks, owningRoot, TestFramework } from './testing/testRoots';
+import { parseFeature, GherkinNode } from './testing/gherkinParser';
+import { parseCucumberJson, CucumberScenarioResult } from './testing/cucumberResults';
+import { isTestFile, testFilesForSource } from './utils/specMapping';
 
 const readFile = promisify(fs.readFile);
+const unlink = promisify(fs.unlink);
 
-interface TestItem {
-    id: string;
-    label: string;
-    uri: vscode.Uri;
-    range?: vscode.Range;
+// Ruby helpers shipped with the extension (Minitest reporter plugin, etc.)
+const RUBY_SUPPORT_DIR = path.join(__dirname, '..', 'ruby');
+
+// Started instead of the project's own SimpleCov setup when it has none
+const COVERAGE_HELPER = path.join(RUBY_SUPPORT_DIR, 'simplecov', 'rubymate_coverage.rb');
+
+// Test helpers that usually start SimpleCov
+const COVERAGE_SETUP_FILES = ['.simplecov', 'spec/spec_helper.rb', 'spec/rails_helper.rb', 'test/test_helper.rb'];
+
+// Dependencies and build output never contain the project's own tests
+const TEST_SEARCH_EXCLUDE = '**/{node_modules,vendor,tmp}/**';
+
+// Number of tests listed by "Show Slowest Tests"
+const SLOWEST_TESTS_LIMIT = 20;
+
+const FLAKY_TAG = new vscode.TestTag('flaky');
+
+// Wait for a burst of saves (e.g. "Save All") to settle before rerunning tests
+const CONTINUOUS_RUN_DEBOUNCE_MS = 500;
+
+// Requires each test file named before `--` so one Ruby process runs them all
+const MINITEST_LOADER = 'while (file = ARGV.shift) && file != "--"; require File.expand_path(file); end';
+
+interface TestItemData {
     type: 'file' | 'suite' | 'test';
-    framework: 'rspec' | 'minitest';
+    framework: TestFramework;
+    // Minitest class name (suites) or test method name (tests)
+    name?: string;
+    // RSpec or Cucumber locations that run this item (`file:line` or `file[1:2:1]`)
+    locations?: string[];
+    // RSpec example id (`file[1:2:1]`), when it can be predicted from the source
+    rspecId?: string;
+}
+
+// A framework result, normalised so it can be matched back to a test item
+interface TestOutcome {
+    file: string;
+    line?: number;
+    name?: string;
+    // RSpec example id, resolved to an absolute file path
+    id?: string;
+    failed: boolean;
+    duration: number;
+    description: string;
+    report: (item: vscode.TestItem) => void;
+}
+
+// A directory tests run from: a workspace folder or a nested Gemfile root (engine, gem)
+interface TestRoot {
+    path: string;
+    folder: vscode.WorkspaceFolder;
+    frameworks: TestFramework[];
+    item: vscode.TestItem;
+}
+
+// Where and how one batch of tests runs
+interface TestExecution {
+    cwd: string;
+    token: vscode.CancellationToken;
+    excluded: Set<vscode.TestItem>;
+    env?: { [key: string]: string };
+    // Worker label for parallel runs, prefixed to output streamed to the output channel
+    label?: string;
+    // Ruby file to require before the tests (SimpleCov for coverage runs)
+    requireFile?: string;
+}
+
+function frameworkForFile(filePath: string): TestFramework {
+    if (filePath.endsWith('.feature')) {
+        return 'cucumber';
+    }
+    return filePath.endsWith('_spec.rb') ? 'rspec' : 'minitest';
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 export class RubyTestExplorer {
     private testController: vscode.TestController;
     private outputChannel: vscode.OutputChannel;
-    private watchers: vscode.FileSystemWatcher[] = [];
-    private testFramework: 'rspec' | 'minitest' | 'auto';
-
-    constructor(outputChannel: vscode.OutputChannel) {
+    private watchers: vscode.Disposable[] = [];
+    private roots = new Map<string, TestRoot>();
+    private testData = new WeakMap<vscode.TestItem, TestItemData>();
+    // Shared example groups defined in spec/support and similar, by name
+    private sharedExamples = new Map<string, RSpecNode>();
+    private coverageProfile: vscode.TestRunProfile | undefined;
+    private coverageDetails = new WeakMap<vscode.FileCoverage, vscode.FileCoverageDetail[]>();
+    private runProfile: vscode.TestRunProfile | undefined;
+    private history: TestHistory | undefined;
+    // Settles when the current discovery finishes
+    private discovery: Promise<void> = Promise.resolve();
+
+    constructor(outputChannel: vscode.OutputChannel, context: vscode.ExtensionContext) {
         this.outputChannel = outputChannel;
 
+        // Test history lives next to the index cache, one file per workspace
+        const workspaceUri = vscode.workspace.workspaceFile || vscode.workspace.workspaceFolders?.[0]?.uri;
+        if (workspaceUri) {
+            const workspaceKey = crypto.createHash('md5').update(workspaceUri.toString()).digest('hex');
+            this.history = new TestHistory(
+                path.join(context.globalStorageUri.fsPath, 'test-history', `${workspaceKey}.json`)
+            );
+        }
+
         // Create test controller
         this.testController = vscode.tests.createTestController(
             'rubymate-test-controller',
             'Ruby Tests'
         );
 
-        // Get configured test framework
-        const config = vscode.workspace.getConfiguration('rubymate');
-        this.testFramework = config.get<'rspec' | 'minitest' | 'auto'>('testFramework', 'auto');
-
         // Set up test item creation and discovery
         this.setupTestController();
 
-        // Initial discovery
-        this.discoverTests();
+        // Initial discovery, once the history is available for flaky decorations
+        this.discovery = (this.history?.load() || Promise.resolve()).then(() => this.discoverTests());
     }
 
     private setupTestController() {
         // Create run profile for running tests
-        this.testController.createRunProfile(
+        this.runProfile = this.testController.createRunProfile(
             'Run',
             vscode.TestRunProfileKind.Run,
-            (request, token) => this.runTests(request, false, token),
+            (request, token) => request.continuous
+                ? this.startContinuousRun(request, token)
+                : this.runTests(request, false, token),
+            true,
+            undefined,
+            true
+        );
+
+        // Create parallel profile that shards test files across worker processes
+        this.testController.createRunProfile(
+            'Run in Parallel',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runTests(request, false, token, true),
+            false
+        );
+
+        // Create coverage profile that runs tests with SimpleCov
+        this.coverageProfile = this.testController.createRunProfile(
+            'Run with Coverage',
+            vscode.TestRunProfileKind.Coverage,
+            (request, token) => this.runTests(request, false, token, false, true),
             true
         );
+        this.coverageProfile.loadDetailedCoverage = async (_run, fileCoverage) =>
+            this.coverageDetails.get(fileCoverage) || [];
 
         // Create debug profile for debugging tests
         this.testController.createRunProfile(
@@ -59,7 +178,7 @@ export class RubyTestExplorer {
 
         // Refresh handler
         this.testController.refreshHandler = () => {
-            this.discoverTests();
+            this.discovery = this.discoverTests();
         };
 
         // Watch for test file changes
@@ -67,83 +186,224 @@ export class RubyTestExplorer {
     }
 
     private setupFileWatchers() {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return;
-        }
-
-        // Watch RSpec files
-        const rspecWatcher = vscode.workspace.createFileSystemWatcher(
-            new vscode.RelativePattern(workspaceFolder, '**/*_spec.rb')
-        );
+        // Watch RSpec files in every workspace folder
+        const rspecWatcher = vscode.workspace.createFileSystemWatcher('**/*_spec.rb');
         rspecWatcher.onDidChange(uri => this.updateTestsForFile(uri));
         rspecWatcher.onDidCreate(uri => this.updateTestsForFile(uri));
         rspecWatcher.onDidDelete(uri => this.removeTestsForFile(uri));
         this.watchers.push(rspecWatcher);
 
-        // Watch Minitest files
-        const minitestWatcher = vscode.workspace.createFileSystemWatcher(
-            new vscode.RelativePattern(workspaceFolder, '**/*_test.rb')
-        );
+        // Watch Minitest files in every workspace folder
+        const minitestWatcher = vscode.workspace.createFileSystemWatcher('**/*_test.rb');
         minitestWatcher.onDidChange(uri => this.updateTestsForFile(uri));
         minitestWatcher.onDidCreate(uri => this.updateTestsForFile(uri));
         minitestWatcher.onDidDelete(uri => this.removeTestsForFile(uri));
         this.watchers.push(minitestWatcher);
+
+        // Watch Cucumber features in every workspace folder
+        const featureWatcher = vscode.workspace.createFileSystemWatcher('**/*.feature');
+        featureWatcher.onDidChange(uri => this.updateTestsForFile(uri));
+        featureWatcher.onDidCreate(uri => this.updateTestsForFile(uri));
+        featureWatcher.onDidDelete(uri => this.removeTestsForFile(uri));
+        this.watchers.push(featureWatcher);
+
+        // Folders added to or removed from the workspace change the roots
+        this.watchers.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            this.discovery = this.discoverTests();
+        }));
     }
 
     private async discoverTests() {
         this.outputChannel.appendLine('Discovering tests...');
 
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        const folders = vscode.workspace.workspaceFolders || [];
+        if (folders.length === 0) {
             this.outputChannel.appendLine('No workspace folder found');
             return;
         }
 
         // Clear existing tests
         this.testController.items.replace([]);
+        this.roots = await this.findTestRoots(folders);
+
+        const roots = Array.from(this.roots.values());
+        for (const root of roots) {
+            this.outputChannel.appendLine(`Test root ${root.path}: ${root.frameworks.join(', ')}`);
+        }
 
         // Discover RSpec tests
-        if (this.testFramework === 'auto' || this.testFramework === 'rspec') {
-            const rspecFiles = await vscode.workspace.findFiles('**/*_spec.rb', '**/node_modules/**');
+        if (roots.some(root => root.frameworks.includes('rspec'))) {
+            await this.loadSharedExamples();
+            const rspecFiles = await vscode.workspace.findFiles('**/*_spec.rb', TEST_SEARCH_EXCLUDE);
             for (const file of rspecFiles) {
-                await this.parseRSpecFile(file);
+                await this.addTestFile(file);
             }
         }
 
         // Discover Minitest tests
-        if (this.testFramework === 'auto' || this.testFramework === 'minitest') {
-            const minitestFiles = await vscode.workspace.findFiles('**/*_test.rb', '**/node_modules/**');
+        if (roots.some(root => root.frameworks.includes('minitest'))) {
+            const minitestFiles = await vscode.workspace.findFiles('**/*_test.rb', TEST_SEARCH_EXCLUDE);
             for (const file of minitestFiles) {
-                await this.parseMinitestFile(file);
+                await this.addTestFile(file);
             }
         }
 
+        // Discover Cucumber features
+        if (roots.some(root => root.frameworks.includes('cucumber'))) {
+            const featureFiles = await vscode.workspace.findFiles('**/*.feature', TEST_SEARCH_EXCLUDE);
+            for (const file of featureFiles) {
+                await this.addTestFile(file);
+            }
+        }
+
+        this.refreshFlakyDecorations();
         this.outputChannel.appendLine('Test discovery complete');
     }
 
+    /**
+     * Every workspace folder is a root, and so is every directory below it with its own Gemfile
+     */
+    private async findTestRoots(folders: readonly vscode.WorkspaceFolder[]): Promise<Map<string, TestRoot>> {
+        const roots = new Map<string, TestRoot>();
+
+        for (const folder of folders) {
+            const gemfiles = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(folder, '**/Gemfile'),
+                TEST_SEARCH_EXCLUDE
+            );
+            const directories = new Set([folder.uri.fsPath, ...gemfiles.map(gemfile => path.dirname(gemfile.fsPath))]);
+
+            for (const directory of directories) {
+                const relative = path.relative(folder.uri.fsPath, directory).split(path.sep).join('/');
+                const item = this.testController.createTestItem(
+                    `root:${vscode.Uri.file(directory).toString()}`,
+                    relative ? `${folder.name}/${relative}` : folder.name,
+                    vscode.Uri.file(directory)
+                );
+                const frameworks = await this.detectFrameworks(directory, folder);
+                item.description = frameworks.join(', ');
+
+                roots.set(directory, { path: directory, folder, frameworks, item });
+            }
+        }
+
+        return roots;
+    }
+
+    /**
+     * Frameworks for a root: the folder's `rubymate.testFramework` setting when
+     * it names one, otherwise detected from the root's Gemfile and layout.
+     * Cucumber is always detected, since it runs alongside either framework.
+     */
+    private async detectFrameworks(directory: string, folder: vscode.WorkspaceFolder): Promise<TestFramework[]> {
+        const configured = vscode.workspace
+            .getConfiguration('rubymate', folder.uri)
+            .get<'rspec' | 'minitest' | 'auto'>('testFramework', 'auto');
+
+        const readOptional = (file: string) => readFile(path.join(directory, file), 'utf8').catch(() => undefined);
+        const detected = detectTestFrameworks({
+            gemfile: await readOptional('Gemfile'),
+            gemfileLock: await readOptional('Gemfile.lock'),
+            hasSpecDir: fs.existsSync(path.join(directory, 'spec')),
+            hasTestDir: fs.existsSync(path.join(directory, 'test')),
+            hasRSpecConfig: fs.existsSync(path.join(directory, '.rspec')),
+            hasFeaturesDir: fs.existsSync(path.join(directory, 'features'))
+        });
+
+        if (configured === 'auto') {
+            return detected;
+        }
+        return detected.includes('cucumber') ? [configured, 'cucumber'] : [configured];
+    }
+
+    private rootFor(filePath: string): TestRoot | undefined {
+        const rootPath = owningRoot(filePath, Array.from(this.roots.keys()));
+        return rootPath ? this.roots.get(rootPath) : undefined;
+    }
+
+    /**
+     * The root a test item belongs to (its top-level ancestor)
+     */
+    private rootOf(item: vscode.TestItem): TestRoot | undefined {
+        let top = item;
+        while (top.parent) {
+            top = top.parent;
+        }
+        return top.uri ? this.roots.get(top.uri.fsPath) : undefined;
+    }
+
+    /**
+     * Parse a test file into its root, if the root uses that file's framework
+     */
+    private async addTestFile(uri: vscode.Uri) {
+        const root = this.rootFor(uri.fsPath);
+        const framework = frameworkForFile(uri.fsPath);
+        if (!root || !root.frameworks.includes(framework)) {
+            return;
+        }
+
+        // Roots only show up once they contain tests
+        if (!this.testController.items.get(root.item.id)) {
+            this.testController.items.add(root.item);
+        }
+
+        if (framework === 'rspec') {
+            await this.parseRSpecFile(uri, root.item);
+        } else if (framework === 'cucumber') {
+            await this.parseFeatureFile(uri, root.item);
+        } else {
+            await this.parseMinitestFile(uri, root.item);
+        }
+    }
+
     private async updateTestsForFile(uri: vscode.Uri) {
         // Remove old tests for this file
         this.removeTestsForFile(uri);
 
         // Re-parse the file
-        if (uri.fsPath.endsWith('_spec.rb')) {
-            await this.parseRSpecFile(uri);
-        } else if (uri.fsPath.endsWith('_test.rb')) {
-            await this.parseMinitestFile(uri);
+        await this.addTestFile(uri);
+
+        const fileItem = this.findFileItem(uri.fsPath);
+        if (fileItem) {
+            this.refreshFlakyDecorations(fileItem);
         }
     }
 
     private removeTestsForFile(uri: vscode.Uri) {
-        // Find and remove test items for this file
-        this.testController.items.forEach(item => {
-            if (item.uri?.toString() === uri.toString()) {
-                this.testController.items.delete(item.id);
+        const root = this.rootFor(uri.fsPath);
+        if (!root) {
+            return;
+        }
+
+        root.item.children.delete(uri.toString());
+        if (root.item.children.size === 0) {
+            this.testController.items.delete(root.item.id);
+        }
+    }
+
+    /**
+     * Collect shared example groups from support files so it_behaves_like can expand them
+     */
+    private async loadSharedExamples() {
+        this.sharedExamples.clear();
+
+        const supportFiles = await vscode.workspace.findFiles(
+            '**/spec/{support,shared,shared_examples}/**/*.rb',
+            '**/node_modules/**'
+        );
+        for (const file of supportFiles) {
+            try {
+                const content = await readFile(file.fsPath, 'utf8');
+                for (const [name, group] of parseRSpec(content, file.fsPath).sharedGroups) {
+                    this.sharedExamples.set(name, group);
+                }
+            } catch (error) {
+                this.outputChannel.appendLine(`Error parsing shared examples in ${file.fsPath}: ${error}`);
             }
-        });
+        }
     }
 
-    private async parseRSpecFile(uri: vscode.Uri) {
+    private async parseRSpecFile(uri: vscode.Uri, parent: vscode.TestItem) {
         try {
             const content = await readFile(uri.fsPath, 'utf8');
             const lines = content.split('\n');
@@ -155,73 +415,79 @@ export class RubyTestExplorer {
                 uri
             );
             fileItem.canResolveChildren = true;
-            this.testController.items.add(fileItem);
-
-            // Parse RSpec examples
-            const stack: vscode.TestItem[] = [fileItem];
-            let currentIndent = 0;
+            parent.children.add(fileItem);
+            this.testData.set(fileItem, { type: 'file', framework: 'rspec' });
 
-            for (let i = 0; i < lines.length; i++) {
-                const line = lines[i];
-                const trimmed = line.trim();
-
-                // Match describe/context blocks
-                const describeMatch = trimmed.match(/^(describe|context)\s+['"](.+?)['"]|^(describe|context)\s+(\S+)/);
-                if (describeMatch) {
-                    const name = describeMatch[2] || describeMatch[4];
-                    const indent = line.search(/\S/);
+            const spec = parseRSpec(content, uri.fsPath);
+            resolveSharedExamples(spec, this.sharedExamples);
+            this.addRSpecItems(fileItem, spec.groups, uri, lines, false);
 
-                    // Adjust stack based on indentation
-                    while (stack.length > 1 && indent <= currentIndent) {
-                        stack.pop();
-                        currentIndent -= 2;
-                    }
-
-                    const suiteId = `${uri.toString()}-${i}`;
-                    const suiteItem = this.testController.createTestItem(
-                        suiteId,
-                        name,
-                        uri
-                    );
-                    suiteItem.range = new vscode.Range(i, 0, i, line.length);
-                    suiteItem.canResolveChildren = true;
-
-                    stack[stack.length - 1].children.add(suiteItem);
-                    stack.push(suiteItem);
-                    currentIndent = indent;
-                }
-
-                // Match it/specify blocks
-                const itMatch = trimmed.match(/^(it|specify)\s+['"](.+?)['"]/);
-                if (itMatch) {
-                    const name = itMatch[2];
-                    const indent = line.search(/\S/);
+            this.outputChannel.appendLine(`Parsed RSpec file: ${uri.fsPath}`);
+        } catch (error) {
+            this.outputChannel.appendLine(`Error parsing RSpec file ${uri.fsPath}: ${error}`);
+        }
+    }
 
-                    // Adjust stack based on indentation
-                    while (stack.length > 1 && indent <= currentIndent) {
-                        stack.pop();
-                        currentIndent -= 2;
-                    }
+    /**
+     * Create test items for parsed RSpec nodes
+     *
+     * Examples pulled in from shared groups point at the shared definition,
+     * so they are run by RSpec id rather than by line.
+     */
+    private addRSpecItems(
+        parent: vscode.TestItem,
+        nodes: RSpecNode[],
+        uri: vscode.Uri,
+        lines: string[],
+        fromSharedGroup: boolean
+    ) {
+        const specFile = uri.fsPath;
 
-                    const testId = `${uri.toString()}-${i}`;
-                    const testItem = this.testController.createTestItem(
-                        testId,
-                        name,
-                        uri
-                    );
-                    testItem.range = new vscode.Range(i, 0, i, line.length);
+        for (const node of nodes) {
+            const sameFile = node.file === specFile;
+            const nodeUri = sameFile ? uri : vscode.Uri.file(node.file);
+            const id = fromSharedGroup ? `${parent.id}/${node.line}` : `${uri.toString()}-${node.line}`;
 
-                    stack[stack.length - 1].children.add(testItem);
-                }
+            const item = this.testController.createTestItem(id, node.label, nodeUri);
+            item.range = new vscode.Range(
+                node.line, 0,
+                node.endLine, sameFile ? (lines[node.endLine] || '').length : 0
+            );
+            if (node.skipped) {
+                item.description = 'skipped';
+                item.tags = [new vscode.TestTag('skipped')];
+            } else if (node.focused) {
+                item.description = 'focused';
+                item.tags = [new vscode.TestTag('focused')];
+            }
+            parent.children.add(item);
+
+            const rspecId = node.scopedId ? `${specFile}[${node.scopedId}]` : undefined;
+            let locations: string[];
+            if (fromSharedGroup) {
+                locations = rspecId ? [rspecId] : this.testData.get(parent)?.locations || [specFile];
+            } else if (node.type === 'include' && node.keyword.startsWith('include_')) {
+                // RSpec's line filter doesn't select inlined shared examples, but their ids do
+                const childIds = node.children.map(child => child.scopedId);
+                locations = childIds.length > 0 && childIds.every(childId => childId)
+                    ? childIds.map(childId => `${specFile}[${childId}]`)
+                    : [`${specFile}:${node.line + 1}`];
+            } else {
+                locations = [`${specFile}:${node.line + 1}`];
             }
 
-            this.outputChannel.appendLine(`Parsed RSpec file: ${uri.fsPath}`);
-        } catch (error) {
-            this.outputChannel.appendLine(`Error parsing RSpec file ${uri.fsPath}: ${error}`);
+            this.testData.set(item, {
+                type: node.type === 'example' ? 'test' : 'suite',
+                framework: 'rspec',
+                locations,
+                rspecId
+            });
+
+            this.addRSpecItems(item, node.children, uri, lines, fromSharedGroup || node.type === 'include');
         }
     }
 
-    private async parseMinitestFile(uri: vscode.Uri) {
+    private async parseMinitestFile(uri: vscode.Uri, parent: vscode.TestItem) {
         try {
             const content = await readFile(uri.fsPath, 'utf8');
             const lines = content.split('\n');
@@ -233,7 +499,8 @@ export class RubyTestExplorer {
                 uri
             );
             fileItem.canResolveChildren = true;
-            this.testController.items.add(fileItem);
+            parent.children.add(fileItem);
+            this.testData.set(fileItem, { type: 'file', framework: 'minitest' });
 
             // Parse test classes and methods
             let currentClass: vscode.TestItem | null = null;
@@ -256,6 +523,7 @@ export class RubyTestExplorer {
                     currentClass.range = new vscode.Range(i, 0, i, line.length);
                     currentClass.canResolveChildren = true;
                     fileItem.children.add(currentClass);
+                    this.testData.set(currentClass, { type: 'suite', framework: 'minitest', name: className });
                 }
 
                 // Match test methods
@@ -271,6 +539,7 @@ export class RubyTestExplorer {
                     );
                     testItem.range = new vscode.Range(i, 0, i, line.length);
                     currentClass.children.add(testItem);
+                    this.testData.set(testItem, { type: 'test', framework: 'minitest', name: testName });
                 }
             }
 
@@ -280,96 +549,1197 @@ export class RubyTestExplorer {
         }
     }
 
+    private async parseFeatureFile(uri: vscode.Uri, parent: vscode.TestItem) {
+        try {
+            const content = await readFile(uri.fsPath, 'utf8');
+            const lines = content.split('\n');
+
+            // Create file-level test item
+            const fileItem = this.testController.createTestItem(
+                uri.toString(),
+                path.basename(uri.fsPath),
+                uri
+            );
+            fileItem.canResolveChildren = true;
+            parent.children.add(fileItem);
+            this.testData.set(fileItem, { type: 'file', framework: 'cucumber', locations: [uri.fsPath] });
+
+            const feature = parseFeature(content);
+            if (feature) {
+                this.addGherkinItems(fileItem, [feature], uri, lines);
+            }
+
+            this.outputChannel.appendLine(`Parsed Cucumber feature: ${uri.fsPath}`);
+        } catch (error) {
+            this.outputChannel.appendLine(`Error parsing Cucumber feature ${uri.fsPath}: ${error}`);
+        }
+    }
+
+    /**
+     * Create test items for a parsed feature: rules, scenarios, outlines and their Examples rows
+     */
+    private addGherkinItems(parent: vscode.TestItem, nodes: GherkinNode[], uri: vscode.Uri, lines: string[]) {
+        for (const node of nodes) {
+            // Background steps aren't a test of their own
+            if (node.keyword === 'Background') {
+                continue;
+            }
+
+            const label = node.type === 'example'
+                ? node.name
+                : `${node.keyword}: ${node.name || `line ${node.line + 1}`}`;
+            const item = this.testController.createTestItem(`${uri.toString()}-${node.line}`, label, uri);
+            item.range = new vscode.Range(node.line, 0, node.endLine, (lines[node.endLine] || '').length);
+            if (node.tags.length > 0) {
+                item.description = node.tags.join(' ');
+                item.tags = node.tags.map(tag => new vscode.TestTag(tag.slice(1)));
+            }
+            parent.children.add(item);
+
+            // Cucumber runs a feature by file and a rule by its scenarios' lines
+            let locations: string[];
+            if (node.type === 'feature') {
+                locations = [uri.fsPath];
+            } else if (node.type === 'rule') {
+                const scenarioLines = node.children.map(child => child.line + 1);
+                locations = scenarioLines.length > 0 ? [`${uri.fsPath}:${scenarioLines.join(':')}`] : [uri.fsPath];
+            } else {
+                locations = [`${uri.fsPath}:${node.line + 1}`];
+            }
+
+            this.testData.set(item, {
+                type: node.type === 'scenario' || node.type === 'example' ? 'test' : 'suite',
+                framework: 'cucumber',
+                locations
+            });
+
+            this.addGherkinItems(item, node.children, uri, lines);
+        }
+    }
+
     private async runTests(
         request: vscode.TestRunRequest,
         debug: boolean,
-        token: vscode.CancellationToken
+        token: vscode.CancellationToken,
+        parallel: boolean = false,
+        coverage: boolean = false
     ) {
-        const run = this.testController.createTestRun(request);
+        // Debug runs only report that the debugger started, so they aren't recorded
+        const testRun = this.testController.createTestRun(request);
+        const run = debug ? testRun : this.recordHistory(testRun);
         const queue: vscode.TestItem[] = [];
 
-        // Collect all tests to run
+        // Collect all tests to run, with root items replaced by their files
+        const requested: vscode.TestItem[] = [];
         if (request.include) {
-            request.include.forEach(test => queue.push(test));
+            request.include.forEach(test => requested.push(test));
         } else {
-            this.testController.items.forEach(test => queue.push(test));
+            this.testController.items.forEach(test => requested.push(test));
         }
-
-        for (const test of queue) {
-            if (token.isCancellationRequested) {
-                run.skipped(test);
-                continue;
+        for (const test of requested) {
+            if (this.testData.has(test)) {
+                queue.push(test);
+            } else {
+                test.children.forEach(child => queue.push(child));
             }
+        }
 
-            // Mark as started
-            run.started(test);
+        if (debug) {
+            for (const test of queue) {
+                if (token.isCancellationRequested) {
+                    run.skipped(test);
+                    continue;
+                }
 
-            try {
-                if (debug) {
+                try {
+                    run.started(test);
                     await this.debugTest(test);
                     run.passed(test);
-                } else {
-                    await this.executeTest(test, run);
+                } catch (error) {
+                    run.failed(test, new vscode.TestMessage(`Test failed: ${error}`));
+                }
+            }
+
+            run.end();
+            return;
+        }
+
+        // Each root runs from its own directory with its own Bundler context
+        const excluded = new Set(request.exclude || []);
+        for (const [root, items] of this.groupByRoot(queue)) {
+            const execution: TestExecution = {
+                cwd: root.path,
+                token,
+                excluded,
+                env: this.bundlerEnv(root)
+            };
+
+            if (this.roots.size > 1) {
+                this.outputChannel.appendLine(`Running tests in ${root.item.label} (${root.path})`);
+            }
+
+            if (coverage) {
+                // Many projects only start SimpleCov when COVERAGE is set
+                execution.env = { ...execution.env, COVERAGE: 'true' };
+                if (!(await this.projectStartsSimpleCov(execution.cwd))) {
+                    execution.requireFile = COVERAGE_HELPER;
+                }
+            }
+
+            const startedAt = Date.now();
+            if (parallel) {
+                await this.runParallel(items, run, execution);
+            } else {
+                await this.runBatches(items, run, execution);
+            }
+
+            if (coverage && !token.isCancellationRequested) {
+                const resultsPath = path.join(execution.cwd, 'coverage', '.resultset.json');
+                try {
+                    // SimpleCov timestamps are in whole seconds
+                    const files = await this.reportCoverage(run, resultsPath, [root.path], Math.floor(startedAt / 1000));
+                    if (files === 0) {
+                        this.outputChannel.appendLine(`No coverage from this run in ${resultsPath}`);
+                    }
+                } catch (error) {
+                    this.outputChannel.appendLine(`Could not read SimpleCov results from ${resultsPath}: ${error}`);
                 }
-            } catch (error) {
-                run.failed(test, new vscode.TestMessage(`Test failed: ${error}`));
             }
         }
 
         run.end();
+        await this.saveHistory();
     }
 
-    private async executeTest(test: vscode.TestItem, run: vscode.TestRun): Promise<void> {
-        if (!test.uri) {
+    private groupByRoot(items: vscode.TestItem[]): Map<TestRoot, vscode.TestItem[]> {
+        const groups = new Map<TestRoot, vscode.TestItem[]>();
+        for (const item of items) {
+            const root = this.rootOf(item);
+            if (root) {
+                groups.set(root, [...(groups.get(root) || []), item]);
+            }
+        }
+        return groups;
+    }
+
+    /**
+     * Point Bundler at the root's own Gemfile rather than one inherited from the editor's environment
+     */
+    private bundlerEnv(root: TestRoot): { [key: string]: string } {
+        const gemfile = path.join(root.path, 'Gemfile');
+        return fs.existsSync(gemfile) ? { BUNDLE_GEMFILE: gemfile } : {};
+    }
+
+    /**
+     * Rerun the tests whose last recorded run failed, including runs from before a window reload
+     */
+    public async rerunFailedTests(): Promise<void> {
+        await this.discovery;
+
+        const failed = new Set(this.history?.failedTests() || []);
+        const items: vscode.TestItem[] = [];
+        this.forEachTestItem(item => {
+            if (failed.has(this.historyKey(item))) {
+                items.push(item);
+            }
+        });
+
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No failed tests in the test history');
             return;
         }
 
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        const cancellation = new vscode.CancellationTokenSource();
+        try {
+            await this.runTests(new vscode.TestRunRequest(items, undefined, this.runProfile), false, cancellation.token);
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * List the slowest tests by average duration across recorded runs, and open the selected one
+     */
+    public async showSlowestTests(): Promise<void> {
+        await this.discovery;
+
+        const slowest = this.history?.slowest(SLOWEST_TESTS_LIMIT) || [];
+        if (slowest.length === 0) {
+            vscode.window.showInformationMessage('No timed test runs in the test history yet');
             return;
         }
 
-        // Determine if RSpec or Minitest
-        const isRSpec = test.uri.fsPath.endsWith('_spec.rb');
-        const filePath = test.uri.fsPath;
+        const itemsByKey = new Map<string, vscode.TestItem>();
+        this.forEachTestItem(item => itemsByKey.set(this.historyKey(item), item));
+
+        const picks = slowest.map(({ id, entry, averageDuration, timedRuns }) => ({
+            label: entry.label,
+            description: averageDuration >= 1000
+                ? `${(averageDuration / 1000).toFixed(2)} s`
+                : `${Math.round(averageDuration)} ms`,
+            detail: [
+                entry.file ? vscode.workspace.asRelativePath(entry.file) : undefined,
+                `average of ${timedRuns} run(s)`,
+                this.history!.isFlaky(id) ? 'flaky' : undefined
+            ].filter(part => part).join(' · '),
+            item: itemsByKey.get(id),
+            entry
+        }));
+
+        const selected = await vscode.window.showQuickPick(picks, {
+            placeHolder: 'Slowest tests by average duration',
+            matchOnDetail: true
+        });
+        if (!selected) {
+            return;
+        }
 
-        let command: string;
-        if (isRSpec) {
-            // Run specific line if available
-            if (test.range) {
-                command = `bundle exec rspec ${filePath}:${test.range.start.line + 1}`;
-            } else {
-                command = `bundle exec rspec ${filePath}`;
+        const uri = selected.item?.uri || (selected.entry.file ? vscode.Uri.file(selected.entry.file) : undefined);
+        if (!uri) {
+            return;
+        }
+        const line = selected.item?.range?.start.line ?? Math.max((selected.entry.line || 1) - 1, 0);
+        await vscode.window.showTextDocument(uri, { selection: new vscode.Range(line, 0, line, 0) });
+    }
+
+    /**
+     * Wrap a test run so every reported result is also recorded in the test history
+     */
+    private recordHistory(run: vscode.TestRun): vscode.TestRun {
+        const history = this.history;
+        if (!history) {
+            return run;
+        }
+
+        const record = (test: vscode.TestItem, outcome: TestOutcomeKind, duration?: number) => {
+            history.record(this.historyKey(test), {
+                label: test.label,
+                file: test.uri?.fsPath,
+                line: test.range ? test.range.start.line + 1 : undefined
+            }, outcome, duration);
+        };
+
+        return new Proxy(run, {
+            get: (target, property) => {
+                switch (property) {
+                    case 'passed':
+                        return (test: vscode.TestItem, duration?: number) => {
+                            record(test, 'passed', duration);
+                            target.passed(test, duration);
+                        };
+                    case 'failed':
+                    case 'errored':
+                        return (test: vscode.TestItem, message: vscode.TestMessage | readonly vscode.TestMessage[], duration?: number) => {
+                            record(test, property, duration);
+                            target[property](test, message, duration);
+                        };
+                    case 'skipped':
+                        return (test: vscode.TestItem) => {
+                            record(test, 'skipped');
+                            target.skipped(test);
+                        };
+                    default: {
+                        const value = Reflect.get(target, property);
+                        return typeof value === 'function' ? value.bind(target) : value;
+                    }
+                }
             }
+        });
+    }
+
+    private async saveHistory(): Promise<void> {
+        if (!this.history) {
+            return;
+        }
+
+        this.refreshFlakyDecorations();
+        try {
+            await this.history.save();
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to save test history: ${error}`);
+        }
+    }
+
+    /**
+     * Tag tests that flip between passing and failing as flaky, shown next to them in the tree
+     */
+    private refreshFlakyDecorations(root?: vscode.TestItem): void {
+        const history = this.history;
+        if (!history) {
+            return;
+        }
+
+        const decorate = (item: vscode.TestItem) => {
+            const flaky = history.isFlaky(this.historyKey(item));
+            const hasTag = item.tags.some(tag => tag.id === FLAKY_TAG.id);
+            if (flaky !== hasTag) {
+                const tags = item.tags.filter(tag => tag.id !== FLAKY_TAG.id);
+                item.tags = flaky ? [...tags, FLAKY_TAG] : tags;
+                // Only the marker changes; skipped, focused and Cucumber tags stay in the description
+                const description = (item.description ?? '').split(', ').filter(part => part && part !== FLAKY_TAG.id);
+                item.description = [...description, ...(flaky ? [FLAKY_TAG.id] : [])].join(', ') || undefined;
+            }
+            item.children.forEach(decorate);
+        };
+
+        if (root) {
+            decorate(root);
         } else {
-            // Minitest
-            if (test.range && test.label !== path.basename(filePath)) {
-                const testName = test.label.replace(/ /g, '_');
-                command = `bundle exec ruby ${filePath} --name ${testName}`;
+            this.testController.items.forEach(decorate);
+        }
+    }
+
+    /**
+     * History key for a test: its file relative to the workspace and the labels
+     * leading to it, which (unlike item ids) survive lines moving
+     */
+    private historyKey(item: vscode.TestItem): string {
+        const labels: string[] = [];
+        let fileItem = item;
+        while (fileItem.parent && this.testData.get(fileItem)?.type !== 'file') {
+            labels.unshift(fileItem.label);
+            fileItem = fileItem.parent;
+        }
+
+        // Includes the folder name in multi-root workspaces
+        const file = fileItem.uri ? vscode.workspace.asRelativePath(fileItem.uri) : fileItem.id;
+        return labels.length > 0 ? `${file}#${labels.join(' > ')}` : file;
+    }
+
+    private forEachTestItem(callback: (item: vscode.TestItem) => void): void {
+        const visit = (item: vscode.TestItem) => {
+            callback(item);
+            item.children.forEach(visit);
+        };
+        this.testController.items.forEach(visit);
+    }
+
+    /**
+     * Show coverage from an existing SimpleCov resultset (e.g. a CI artifact) without running tests
+     */
+    public async loadCoverageFromFile(): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder || !this.coverageProfile) {
+            vscode.window.showErrorMessage('Open a workspace folder to load coverage');
+            return;
+        }
+
+        const selected = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, 'coverage'),
+            filters: { 'SimpleCov results': ['json'] },
+            openLabel: 'Load Coverage'
+        });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const resultsPath = selected[0].fsPath;
+        // CI paths are matched against the root the file was saved in first, then every other root
+        const owner = this.rootFor(resultsPath)?.path;
+        const roots = Array.from(this.roots.keys()).sort((a, b) => (b === owner ? 1 : 0) - (a === owner ? 1 : 0));
+        if (roots.length === 0) {
+            roots.push(workspaceFolder.uri.fsPath);
+        }
+
+        const run = this.testController.createTestRun(
+            new vscode.TestRunRequest(undefined, undefined, this.coverageProfile),
+            `SimpleCov: ${path.basename(resultsPath)}`,
+            false
+        );
+
+        try {
+            const files = await this.reportCoverage(run, resultsPath, roots);
+            if (files === 0) {
+                vscode.window.showWarningMessage(`No files from this workspace found in ${path.basename(resultsPath)}`);
             } else {
-                command = `bundle exec ruby ${filePath}`;
+                this.outputChannel.appendLine(`Loaded coverage for ${files} file(s) from ${resultsPath}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load coverage: ${error}`);
+        } finally {
+            run.end();
+        }
+    }
+
+    private async projectStartsSimpleCov(cwd: string): Promise<boolean> {
+        for (const file of COVERAGE_SETUP_FILES) {
+            try {
+                const content = await readFile(path.join(cwd, file), 'utf8');
+                if (/SimpleCov\.start/.test(content)) {
+                    return true;
+                }
+            } catch {
+                // Helper doesn't exist in this project
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Add SimpleCov results to a test run, returning how many workspace files had coverage
+     */
+    private async reportCoverage(run: vscode.TestRun, resultsPath: string, roots: string[], since?: number): Promise<number> {
+        const text = await readFile(resultsPath, 'utf8');
+        const exists = (candidate: string) => fs.existsSync(candidate);
+        let count = 0;
+
+        for (const file of parseSimpleCovResults(text, since)) {
+            const fsPath = roots
+                .map(root => remapCoveragePath(file.file, root, exists))
+                .find(candidate => candidate);
+            if (!fsPath) {
+                continue;
+            }
+
+            const branchesByLine = new Map<number, vscode.BranchCoverage[]>();
+            for (const branch of file.branches) {
+                const branches = branchesByLine.get(branch.line) || [];
+                branches.push(new vscode.BranchCoverage(
+                    branch.hits,
+                    new vscode.Position(branch.branchLine - 1, 0),
+                    branch.label
+                ));
+                branchesByLine.set(branch.line, branches);
+            }
+
+            const details: vscode.StatementCoverage[] = [];
+            file.lines.forEach((hits, index) => {
+                const branches = branchesByLine.get(index + 1);
+                if (hits === null && !branches) {
+                    return;
+                }
+                const executed = hits ?? branches!.reduce((sum, branch) => sum + Number(branch.executed), 0);
+                details.push(new vscode.StatementCoverage(executed, new vscode.Position(index, 0), branches));
+            });
+
+            const fileCoverage = vscode.FileCoverage.fromDetails(vscode.Uri.file(fsPath), details);
+            this.coverageDetails.set(fileCoverage, details);
+            run.addCoverage(fileCoverage);
+            count++;
+        }
+
+        return count;
+    }
+
+    /**
+     * Run items with one process per framework instead of one per test item
+     */
+    private async runBatches(queue: vscode.TestItem[], run: vscode.TestRun, execution: TestExecution): Promise<void> {
+        const batches: Array<[vscode.TestItem[], (items: vscode.TestItem[]) => Promise<void>]> = [
+            [
+                queue.filter(test => this.frameworkFor(test) === 'rspec'),
+                items => this.executeRSpec(items, run, execution)
+            ],
+            [
+                queue.filter(test => this.frameworkFor(test) === 'minitest'),
+                items => this.executeMinitest(items, run, execution)
+            ],
+            [
+                queue.filter(test => this.frameworkFor(test) === 'cucumber'),
+                items => this.executeCucumber(items, run, execution)
+            ]
+        ];
+
+        for (const [items, execute] of batches) {
+            if (items.length === 0) {
+                continue;
+            }
+
+            const leaves = items.flatMap(test => this.collectLeafItems(test, execution.excluded));
+            if (execution.token.isCancellationRequested) {
+                leaves.forEach(test => run.skipped(test));
+                continue;
+            }
+
+            try {
+                await execute(items);
+            } catch (error) {
+                const message = new vscode.TestMessage(`Test failed: ${error}`);
+                leaves.forEach(test => run.errored(test, message));
+            }
+        }
+    }
+
+    /**
+     * Shard items by file across worker processes, following parallel_tests
+     * conventions: TEST_ENV_NUMBER is '' for the first worker and '2', '3', ...
+     * for the rest, so per-worker databases from database.yml are used.
+     */
+    private async runParallel(queue: vscode.TestItem[], run: vscode.TestRun, execution: TestExecution): Promise<void> {
+        const config = vscode.workspace.getConfiguration('rubymate');
+        const configuredWorkers = config.get<number>('parallelTestWorkers', 0);
+        const workerCount = configuredWorkers > 0 ? configuredWorkers : os.cpus().length;
+
+        // Group requested items by file so a file never spans two workers
+        const files = new Map<string, vscode.TestItem[]>();
+        for (const test of queue) {
+            const key = test.uri?.fsPath || test.id;
+            files.set(key, [...(files.get(key) || []), test]);
+        }
+
+        // Greedy balance by number of tests: largest files first, onto the lightest shard
+        const weighted = Array.from(files.values())
+            .map(items => ({
+                items,
+                weight: items.reduce((sum, test) => sum + this.collectLeafItems(test, execution.excluded).length, 0)
+            }))
+            .sort((a, b) => b.weight - a.weight);
+
+        const shards = Array.from({ length: Math.min(workerCount, weighted.length) }, () => ({
+            items: [] as vscode.TestItem[],
+            weight: 0
+        }));
+        for (const file of weighted) {
+            const shard = shards.reduce((lightest, candidate) => candidate.weight < lightest.weight ? candidate : lightest);
+            shard.items.push(...file.items);
+            shard.weight += file.weight;
+        }
+
+        this.outputChannel.appendLine(`Running ${files.size} test file(s) across ${shards.length} worker(s)`);
+
+        await Promise.all(shards.map((shard, index) => {
+            const label = `worker ${index + 1}`;
+            this.outputChannel.appendLine(`[${label}] ${shard.items.length} item(s), ${shard.weight} test(s)`);
+
+            return this.runBatches(shard.items, run, {
+                ...execution,
+                label,
+                env: {
+                    ...execution.env,
+                    TEST_ENV_NUMBER: index === 0 ? '' : String(index + 1),
+                    PARALLEL_TEST_GROUPS: String(shards.length)
+                }
+            }).then(() => {
+                this.outputChannel.appendLine(`[${label}] finished`);
+            });
+        }));
+    }
+
+    /**
+     * Rerun affected tests whenever a Ruby file is saved, until the token is cancelled
+     *
+     * The returned promise settles when continuous mode is turned off.
+     */
+    private startContinuousRun(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const pendingFiles = new Set<string>();
+        let debounceTimer: NodeJS.Timeout | undefined;
+        let running: Promise<void> = Promise.resolve();
+
+        const flush = () => {
+            const items = this.itemsForFiles(Array.from(pendingFiles), request.include);
+            pendingFiles.clear();
+            if (items.length === 0 || token.isCancellationRequested) {
+                return;
+            }
+
+            // Queue behind the previous rerun so two runs never overlap
+            running = running.then(() => this.runTests(
+                new vscode.TestRunRequest(items, request.exclude, request.profile),
+                false,
+                token
+            ));
+        };
+
+        const saveListener = vscode.workspace.onDidSaveTextDocument(document => {
+            if (document.languageId !== 'ruby') {
+                return;
+            }
+
+            this.testFilesAffectedBy(document.uri.fsPath).forEach(file => pendingFiles.add(file));
+            if (pendingFiles.size === 0) {
+                return;
+            }
+
+            if (debounceTimer) {
+                clearTimeout(debounceTimer);
+            }
+            debounceTimer = setTimeout(flush, CONTINUOUS_RUN_DEBOUNCE_MS);
+        });
+
+        return new Promise(resolve => {
+            token.onCancellationRequested(() => {
+                saveListener.dispose();
+                if (debounceTimer) {
+                    clearTimeout(debounceTimer);
+                }
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Test files to rerun for a saved file: the file itself for specs/tests,
+     * otherwise its spec or test found the same way as "Toggle Spec"
+     */
+    private testFilesAffectedBy(filePath: string): string[] {
+        const candidates = isTestFile(filePath) ? [filePath] : testFilesForSource(filePath);
+        return candidates.filter(file => this.findFileItem(file));
+    }
+
+    /**
+     * Test items for the given files, limited to what the original request included
+     */
+    private itemsForFiles(files: string[], include: readonly vscode.TestItem[] | undefined): vscode.TestItem[] {
+        const items: vscode.TestItem[] = [];
+
+        for (const file of files) {
+            const fileItem = this.findFileItem(file);
+
+            if (include) {
+                const root = this.rootFor(file);
+                if (fileItem && root && include.includes(root.item)) {
+                    items.push(fileItem);
+                } else {
+                    items.push(...include.filter(item => item.uri?.fsPath === file));
+                }
+                continue;
+            }
+
+            if (fileItem) {
+                items.push(fileItem);
             }
         }
 
-        return new Promise((resolve, reject) => {
-            const exec = require('child_process').exec;
+        return items;
+    }
+
+    private findFileItem(filePath: string): vscode.TestItem | undefined {
+        return this.rootFor(filePath)?.item.children.get(vscode.Uri.file(filePath).toString());
+    }
+
+    private frameworkFor(test: vscode.TestItem): TestFramework {
+        const data = this.testData.get(test);
+        if (data) {
+            return data.framework;
+        }
+        return frameworkForFile(test.uri?.fsPath || '');
+    }
 
-            exec(command, { cwd: workspaceFolder.uri.fsPath }, (error: any, stdout: string, stderr: string) => {
-                const output = stdout + stderr;
+    /**
+     * Run RSpec once for all items with the JSON formatter and report each example separately
+     */
+    private async executeRSpec(
+        items: vscode.TestItem[],
+        run: vscode.TestRun,
+        execution: TestExecution
+    ): Promise<void> {
+        const { cwd, token, excluded } = execution;
+        const examples = items.flatMap(test => this.collectLeafItems(test, excluded));
+        examples.forEach(example => run.started(example));
+
+        const locations = items
+            .filter(test => test.uri)
+            .flatMap(test => this.testData.get(test)?.locations || [test.uri!.fsPath]);
+        const reportPath = this.tempReportPath('rspec', 'json');
+        const args = [
+            'exec', 'rspec', ...locations,
+            '--format', 'progress',
+            '--format', 'json', '--out', reportPath
+        ];
+        if (execution.requireFile) {
+            args.push('--require', execution.requireFile);
+        }
 
-                if (error) {
-                    // Parse output for failures
-                    run.failed(test, new vscode.TestMessage(output));
-                    reject(error);
+        this.logCommand(args, execution);
+
+        let output = '';
+        try {
+            const processResult = await runTestProcess('bundle', args, {
+                cwd,
+                token,
+                env: execution.env,
+                onOutput: this.createOutputHandler(run, execution, text => output += text)
+            });
+            if (!execution.label) {
+                this.outputChannel.appendLine(output);
+            }
+
+            let reportText = '';
+            try {
+                reportText = await readFile(reportPath, 'utf8');
+            } catch {
+                // No report written - RSpec failed before the formatter started
+            }
+
+            const report = parseRSpecJson(reportText);
+            if (!report) {
+                if (processResult.cancelled) {
+                    examples.forEach(example => run.skipped(example));
+                    return;
+                }
+                const message = new vscode.TestMessage(output || `rspec exited with code ${processResult.exitCode}`);
+                examples.forEach(example => run.errored(example, message));
+                return;
+            }
+
+            const outcomes: TestOutcome[] = report.examples.map(result => ({
+                file: path.resolve(cwd, result.file_path),
+                line: result.line_number,
+                id: this.resolveRSpecId(result.id, cwd),
+                failed: result.status === 'failed',
+                duration: result.run_time * 1000,
+                description: `RSpec example ${result.id} (${result.full_description})`,
+                report: item => this.reportRSpecExample(item, result, run, cwd)
+            }));
+            const reported = this.applyOutcomes(examples, outcomes, run);
+
+            // Anything RSpec didn't report was filtered out, cancelled or errored outside of an example
+            const outsideErrors = report.summary?.errors_outside_of_examples_count || 0;
+            for (const example of examples) {
+                if (reported.has(example)) {
+                    continue;
+                }
+                if (outsideErrors > 0 && !processResult.cancelled) {
+                    run.errored(example, new vscode.TestMessage((report.messages || []).join('\n') || output));
                 } else {
-                    run.passed(test);
-                    resolve();
+                    run.skipped(example);
                 }
+            }
+        } finally {
+            unlink(reportPath).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Run Minitest once for all items with the RubyMate reporter plugin and report each test separately
+     */
+    private async executeMinitest(
+        items: vscode.TestItem[],
+        run: vscode.TestRun,
+        execution: TestExecution
+    ): Promise<void> {
+        const { cwd, token, excluded } = execution;
+        const tests = items.flatMap(test => this.collectLeafItems(test, excluded));
+        tests.forEach(item => run.started(item));
+
+        const files = Array.from(new Set(items.filter(test => test.uri).map(test => test.uri!.fsPath)));
+        const args = ['exec', 'ruby', '-Itest', '-I', RUBY_SUPPORT_DIR];
+        if (execution.requireFile) {
+            args.push('-r', execution.requireFile);
+        }
+        args.push('-e', MINITEST_LOADER, ...files, '--');
+
+        const filters = this.minitestNameFilters(items);
+        if (filters) {
+            args.push('--name', `/^(${filters.join('|')})$/`);
+        }
 
-                // Append to output channel
+        const reportPath = this.tempReportPath('minitest', 'jsonl');
+        this.logCommand(args, execution);
+
+        let output = '';
+        try {
+            const processResult = await runTestProcess('bundle', args, {
+                cwd,
+                token,
+                env: { ...execution.env, RUBYMATE_MINITEST_REPORT: reportPath },
+                onOutput: this.createOutputHandler(run, execution, text => output += text)
+            });
+            if (!execution.label) {
                 this.outputChannel.appendLine(output);
+            }
+
+            let reportText = '';
+            try {
+                reportText = await readFile(reportPath, 'utf8');
+            } catch {
+                // No report written - a file failed to load
+            }
+
+            const results = parseMinitestReport(reportText);
+            if (results.length === 0) {
+                const message = new vscode.TestMessage(output || `ruby exited with code ${processResult.exitCode}`);
+                if (processResult.exitCode === 0 || processResult.cancelled) {
+                    tests.forEach(item => run.skipped(item));
+                } else {
+                    tests.forEach(item => run.errored(item, message));
+                }
+                return;
+            }
+
+            const outcomes: TestOutcome[] = results.map(result => ({
+                file: result.file ? path.resolve(cwd, result.file) : '',
+                line: result.line || undefined,
+                name: result.name,
+                failed: result.status === 'fail' || result.status === 'error',
+                duration: result.time * 1000,
+                description: `Minitest test ${result.class}#${result.name}`,
+                report: item => this.reportMinitestResult(item, result, run, cwd)
+            }));
+            const reported = this.applyOutcomes(tests, outcomes, run);
+
+            tests.filter(item => !reported.has(item)).forEach(item => run.skipped(item));
+        } finally {
+            unlink(reportPath).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Run Cucumber once for all items with the JSON formatter and report each scenario separately
+     *
+     * The coverage helper isn't required here: `--require` would stop Cucumber
+     * loading features/support, so coverage relies on the project's env.rb.
+     */
+    private async executeCucumber(
+        items: vscode.TestItem[],
+        run: vscode.TestRun,
+        execution: TestExecution
+    ): Promise<void> {
+        const { cwd, token, excluded } = execution;
+        const scenarios = items.flatMap(test => this.collectLeafItems(test, excluded));
+        scenarios.forEach(scenario => run.started(scenario));
+
+        const locations = items
+            .filter(test => test.uri)
+            .flatMap(test => this.testData.get(test)?.locations || [test.uri!.fsPath]);
+        const reportPath = this.tempReportPath('cucumber', 'json');
+        const args = [
+            'exec', 'cucumber', ...locations,
+            '--format', 'progress',
+            '--format', 'json', '--out', reportPath
+        ];
+
+        this.logCommand(args, execution);
+
+        let output = '';
+        try {
+            const processResult = await runTestProcess('bundle', args, {
+                cwd,
+                token,
+                env: execution.env,
+                onOutput: this.createOutputHandler(run, execution, text => output += text)
             });
+            if (!execution.label) {
+                this.outputChannel.appendLine(output);
+            }
+
+            let reportText = '';
+            try {
+                reportText = await readFile(reportPath, 'utf8');
+            } catch {
+                // No report written - Cucumber failed before the formatter started
+            }
+
+            const results = parseCucumberJson(reportText);
+            if (!results) {
+                if (processResult.cancelled) {
+                    scenarios.forEach(scenario => run.skipped(scenario));
+                    return;
+                }
+                const message = new vscode.TestMessage(output || `cucumber exited with code ${processResult.exitCode}`);
+                scenarios.forEach(scenario => run.errored(scenario, message));
+                return;
+            }
+
+            const outcomes: TestOutcome[] = results.map(result => ({
+                file: path.resolve(cwd, result.file),
+                line: result.line,
+                failed: result.status === 'failed' || result.status === 'undefined',
+                duration: result.duration,
+                description: `Cucumber scenario ${result.file}:${result.line} (${result.name})`,
+                report: item => this.reportCucumberScenario(item, result, run, cwd)
+            }));
+            const reported = this.applyOutcomes(scenarios, outcomes, run);
+
+            // Anything Cucumber didn't report was filtered out by tags or cancelled
+            scenarios.filter(scenario => !reported.has(scenario)).forEach(scenario => run.skipped(scenario));
+        } finally {
+            unlink(reportPath).catch(() => undefined);
+        }
+    }
+
+    /**
+     * `./spec/foo_spec.rb[1:2]` -> `/workspace/spec/foo_spec.rb[1:2]`
+     */
+    private resolveRSpecId(id: string | undefined, cwd: string): string | undefined {
+        const match = id?.match(/^(.*)\[([\d:]+)\]$/);
+        return match ? `${path.resolve(cwd, match[1])}[${match[2]}]` : undefined;
+    }
+
+    private tempReportPath(framework: string, extension: string): string {
+        // Parallel workers start in the same millisecond, so add a random suffix
+        const suffix = Math.random().toString(36).slice(2, 8);
+        return path.join(os.tmpdir(), `rubymate-${framework}-${process.pid}-${Date.now()}-${suffix}.${extension}`);
+    }
+
+    private logCommand(args: string[], execution: TestExecution): void {
+        const prefix = execution.label ? `[${execution.label}] ` : '';
+        const env = execution.env?.TEST_ENV_NUMBER !== undefined
+            ? `TEST_ENV_NUMBER=${execution.env.TEST_ENV_NUMBER} `
+            : '';
+        this.outputChannel.appendLine(`${prefix}Running: ${env}bundle ${args.join(' ')}`);
+    }
+
+    /**
+     * Stream process output to the test run, and to the output channel with a
+     * worker prefix on every line when running in parallel
+     */
+    private createOutputHandler(
+        run: vscode.TestRun,
+        execution: TestExecution,
+        collect: (text: string) => void
+    ): (text: string) => void {
+        let atLineStart = true;
+
+        return text => {
+            collect(text);
+            run.appendOutput(text.replace(/\r?\n/g, '\r\n'));
+
+            if (execution.label) {
+                const prefix = `[${execution.label}] `;
+                const prefixed = text.replace(/\n(?=.)/g, `\n${prefix}`);
+                this.outputChannel.append(atLineStart ? prefix + prefixed : prefixed);
+                atLineStart = text.endsWith('\n');
+            }
+        };
+    }
+
+    /**
+     * Build `Class#method` patterns for Minitest's --name option
+     *
+     * Returns undefined when a whole file without parsed classes is requested,
+     * since no pattern can select its tests.
+     */
+    private minitestNameFilters(items: vscode.TestItem[]): string[] | undefined {
+        const filters: string[] = [];
+
+        for (const item of items) {
+            const data = this.testData.get(item);
+            if (data?.type === 'test' && data.name) {
+                const className = item.parent ? this.testData.get(item.parent)?.name : undefined;
+                filters.push(className
+                    ? `${escapeRegExp(className)}#${escapeRegExp(data.name)}`
+                    : `.*#${escapeRegExp(data.name)}`);
+            } else if (data?.type === 'suite' && data.name) {
+                filters.push(`${escapeRegExp(data.name)}#.*`);
+            } else {
+                const classNames: string[] = [];
+                item.children.forEach(child => {
+                    const name = this.testData.get(child)?.name;
+                    if (name) {
+                        classNames.push(name);
+                    }
+                });
+                if (classNames.length === 0) {
+                    return undefined;
+                }
+                filters.push(...classNames.map(name => `${escapeRegExp(name)}#.*`));
+            }
+        }
+
+        return filters;
+    }
+
+    /**
+     * Match framework results to test items by RSpec id or file/line (falling
+     * back to the test name) and report them. File items without parsed children get the
+     * combined outcome of every result in that file.
+     */
+    private applyOutcomes(
+        items: vscode.TestItem[],
+        outcomes: TestOutcome[],
+        run: vscode.TestRun
+    ): Set<vscode.TestItem> {
+        const itemsByLocation = new Map<string, vscode.TestItem>();
+        const itemsById = new Map<string, vscode.TestItem>();
+        const itemsByName = new Map<string, vscode.TestItem>();
+        const fileItems = new Map<string, vscode.TestItem>();
+
+        for (const item of items) {
+            if (!item.uri) {
+                continue;
+            }
+            if (!item.range) {
+                fileItems.set(item.uri.fsPath, item);
+                continue;
+            }
+            itemsByLocation.set(`${item.uri.fsPath}:${item.range.start.line + 1}`, item);
+            const { name, rspecId } = this.testData.get(item) || {};
+            if (rspecId) {
+                itemsById.set(rspecId, item);
+            }
+            if (name) {
+                itemsByName.set(`${item.uri.fsPath}#${name}`, item);
+            }
+        }
+
+        const reported = new Set<vscode.TestItem>();
+        const fileOutcomes = new Map<vscode.TestItem, TestOutcome[]>();
+
+        for (const outcome of outcomes) {
+            // A predicted id only counts when the line agrees too, in case the prediction was off
+            const byId = outcome.id ? itemsById.get(outcome.id) : undefined;
+            const item = (byId && byId.range!.start.line + 1 === outcome.line ? byId : undefined)
+                || itemsByLocation.get(`${outcome.file}:${outcome.line}`)
+                || itemsByName.get(`${outcome.file}#${outcome.name}`);
+            if (item) {
+                reported.add(item);
+                outcome.report(item);
+                continue;
+            }
+
+            const fileItem = fileItems.get(outcome.file);
+            if (fileItem) {
+                fileOutcomes.set(fileItem, [...(fileOutcomes.get(fileItem) || []), outcome]);
+                continue;
+            }
+
+            this.outputChannel.appendLine(`No test item for ${outcome.description}`);
+        }
+
+        for (const [fileItem, results] of fileOutcomes) {
+            const failed = results.find(outcome => outcome.failed);
+            if (failed) {
+                failed.report(fileItem);
+            } else {
+                run.passed(fileItem, results.reduce((sum, outcome) => sum + outcome.duration, 0));
+            }
+            reported.add(fileItem);
+        }
+
+        return reported;
+    }
+
+    private reportMinitestResult(
+        item: vscode.TestItem,
+        result: MinitestTestResult,
+        run: vscode.TestRun,
+        cwd: string
+    ): void {
+        const duration = result.time * 1000;
+
+        if (result.status === 'pass') {
+            run.passed(item, duration);
+            return;
+        }
+
+        if (result.status === 'skip') {
+            run.skipped(item);
+            return;
+        }
+
+        const messages = result.failures.map(failure => {
+            const diff = result.status === 'fail' ? extractMinitestExpectedActual(failure.message) : undefined;
+            const message = diff
+                ? vscode.TestMessage.diff(failure.message, diff.expected, diff.actual)
+                : new vscode.TestMessage(`${failure.type}: ${failure.message}`);
+
+            const location = findFailureLocation(failure.backtrace, cwd, item.uri?.fsPath);
+            if (location) {
+                message.location = new vscode.Location(
+                    vscode.Uri.file(location.file),
+                    new vscode.Position(location.line - 1, 0)
+                );
+            } else if (item.uri && item.range) {
+                message.location = new vscode.Location(item.uri, item.range);
+            }
+
+            return message;
         });
+
+        if (result.status === 'error') {
+            run.errored(item, messages, duration);
+        } else {
+            run.failed(item, messages, duration);
+        }
+    }
+
+    private reportRSpecExample(
+        item: vscode.TestItem,
+        result: RSpecExampleResult,
+        run: vscode.TestRun,
+        cwd: string
+    ): void {
+        const duration = result.run_time * 1000;
+
+        if (result.status === 'passed') {
+            run.passed(item, duration);
+            return;
+        }
+
+        if (result.status === 'pending') {
+            run.skipped(item);
+            return;
+        }
+
+        const exception = result.exception;
+        const text = exception
+            ? `${exception.class}: ${exception.message}`
+            : `${result.full_description} failed`;
+
+        const diff = exception ? extractExpectedActual(exception.message) : undefined;
+        const message = diff
+            ? vscode.TestMessage.diff(text, diff.expected, diff.actual)
+            : new vscode.TestMessage(text);
+
+        const failure = findFailureLocation(exception?.backtrace, cwd, item.uri?.fsPath);
+        if (failure) {
+            message.location = new vscode.Location(
+                vscode.Uri.file(failure.file),
+                new vscode.Position(failure.line - 1, 0)
+            );
+        } else if (item.uri && item.range) {
+            message.location = new vscode.Location(item.uri, item.range);
+        }
+
+        run.failed(item, message, duration);
+    }
+
+    private reportCucumberScenario(
+        item: vscode.TestItem,
+        result: CucumberScenarioResult,
+        run: vscode.TestRun,
+        cwd: string
+    ): void {
+        if (result.status === 'passed') {
+            run.passed(item, result.duration);
+            return;
+        }
+
+        if (result.status === 'skipped' || result.status === 'pending') {
+            run.skipped(item);
+            return;
+        }
+
+        const step = result.failedStep;
+        const stepText = step ? `${step.keyword} ${step.name}` : result.name;
+        const message = new vscode.TestMessage(result.status === 'undefined'
+            ? `Undefined step: ${stepText}`
+            : `${stepText}\n\n${result.errorMessage || 'Step failed'}`);
+
+        // Point at the step in the feature, which is where the scenario failed from the reader's side
+        if (step && item.uri) {
+            message.location = new vscode.Location(
+                vscode.Uri.file(path.resolve(cwd, result.file)),
+                new vscode.Position(step.line - 1, 0)
+            );
+        } else if (item.uri && item.range) {
+            message.location = new vscode.Location(item.uri, item.range);
+        }
+
+        if (result.status === 'undefined') {
+            run.errored(item, message, result.duration);
+        } else {
+            run.failed(item, message, result.duration);
+        }
+    }
+
+    /**
+     * Collect the runnable leaves under a test item (or the item itself)
+     */
+    private collectLeafItems(test: vscode.TestItem, excluded?: Set<vscode.TestItem>): vscode.TestItem[] {
+        if (excluded?.has(test)) {
+            return [];
+        }
+
+        if (test.children.size === 0) {
+            return [test];
+        }
+
+        const leaves: vscode.TestItem[] = [];
+        test.children.forEach(child => leaves.push(...this.collectLeafItems(child, excluded)));
+        return leaves;
     }
 
     private async debugTest(test: vscode.TestItem): Promise<void> {
@@ -377,20 +1747,32 @@ export class RubyTestExplorer {
             return;
         }
 
-        const isRSpec = test.uri.fsPath.endsWith('_spec.rb');
+        const framework = this.frameworkFor(test);
         const filePath = test.uri.fsPath;
+        const root = this.rootOf(test);
+        const cwd = root?.path || '${workspaceFolder}';
 
         let debugConfig: vscode.DebugConfiguration;
-        if (isRSpec) {
+        if (framework === 'cucumber') {
+            debugConfig = {
+                type: 'ruby',
+                request: 'launch',
+                name: 'Debug Scenario',
+                // Cucumber doesn't install a binstub; the gem executable runs in command mode through the bundle
+                program: 'cucumber',
+                args: this.testData.get(test)?.locations || [filePath],
+                cwd,
+                useBundler: true
+            };
+        } else if (framework === 'rspec') {
             debugConfig = {
                 type: 'ruby',
                 request: 'launch',
                 name: 'Debug Test',
-                program: '${workspaceFolder}/bin/rspec',
-                args: test.range
-                    ? [`${filePath}:${test.range.start.line + 1}`]
-                    : [filePath],
-                cwd: '${workspaceFolder}',
+                program: `${cwd}/bin/rspec`,
+                // Examples from shared groups live in another file, so they're selected by id
+                args: this.testData.get(test)?.locations || [filePath],
+                cwd,
                 useBundler: true
             };
         } else {
@@ -402,12 +1784,12 @@ export class RubyTestExplorer {
                 args: test.label !== path.basename(filePath)
                     ? ['--name', test.label.replace(/ /g, '_')]
                     : [],
-                cwd: '${workspaceFolder}',
+                cwd,
                 useBundler: true
             };
         }
 
-        await vscode.debug.startDebugging(undefined, debugConfig);
+        await vscode.debug.startDebugging(root?.folder, debugConfig);
     }
 
     public dispose() {
@@ -0,0 +1,46 @@
+import * as path from 'path';
+
+export interface SourcePosition {
+    file: string;
+    line: number;
+}
+
+/**
+ * Find the most relevant source position in a Ruby backtrace
+ *
+ * Prefers a frame inside `preferredFile` (usually the spec file), then the
+ * first frame inside the project that isn't a vendored gem.
+ */
+export function findFailureLocation(
+    backtrace: string[] | null | undefined,
+    cwd: string,
+    preferredFile?: string
+): SourcePosition | undefined {
+    if (!backtrace || backtrace.length === 0) {
+        return undefined;
+    }
+
+    const frames: SourcePosition[] = [];
+    for (const entry of backtrace) {
+        const match = entry.match(/^(.+?):(\d+)(?::in\s|$)/);
+        if (match) {
+            frames.push({
+                file: path.resolve(cwd, match[1]),
+                line: parseInt(match[2], 10)
+            });
+        }
+    }
+
+    if (preferredFile) {
+        const preferred = frames.find(frame => frame.file === path.resolve(preferredFile));
+        if (preferred) {
+            return preferred;
+        }
+    }
+
+    return frames.find(frame =>
+        frame.file.startsWith(cwd) &&
+        !frame.file.includes(`${path.sep}vendor${path.sep}`) &&
+        !frame.file.includes(`${path.sep}gems${path.sep}`)
+    );
+}
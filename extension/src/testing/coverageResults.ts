@@ -0,0 +1,167 @@
+import * as path from 'path';
+
+/**
+ * SimpleCov results, from `coverage/.resultset.json` or the JSON formatter
+ * (`coverage/coverage.json`), normalised to per-line hit counts
+ */
+
+export interface BranchCoverageData {
+    // 1-based line of the condition the branch belongs to
+    line: number;
+    // 1-based line where the branch itself starts
+    branchLine: number;
+    hits: number;
+    label: string;
+}
+
+export interface FileCoverageData {
+    file: string;
+    // Hits per line (index 0 is line 1); null for lines that aren't code
+    lines: Array<number | null>;
+    branches: BranchCoverageData[];
+}
+
+/**
+ * Parse SimpleCov output, merging the results of every command name
+ * (RSpec, Minitest, parallel workers) the way SimpleCov does
+ *
+ * `since` (seconds since the epoch) drops resultset entries older than a
+ * given run. The JSON formatter output has no timestamp and is always used.
+ */
+export function parseSimpleCovResults(text: string, since?: number): FileCoverageData[] {
+    const data = JSON.parse(text);
+    const merged = new Map<string, FileCoverageData>();
+
+    const coverageSets: any[] = [];
+    if (data && data.coverage && typeof data.coverage === 'object' && !data.coverage.coverage) {
+        // JSON formatter: { meta, coverage: { file: { lines, branches } } }
+        coverageSets.push(data.coverage);
+    } else if (data && typeof data === 'object') {
+        // Resultset: { "RSpec": { coverage: { file: ... }, timestamp } }
+        for (const result of Object.values<any>(data)) {
+            if (!result || typeof result.coverage !== 'object') {
+                continue;
+            }
+            if (since !== undefined && typeof result.timestamp === 'number' && result.timestamp < since) {
+                continue;
+            }
+            coverageSets.push(result.coverage);
+        }
+    }
+
+    for (const coverage of coverageSets) {
+        for (const [file, entry] of Object.entries<any>(coverage)) {
+            // Old SimpleCov versions store the line array directly
+            const lines: unknown[] = Array.isArray(entry) ? entry : (entry?.lines || []);
+            const branches = Array.isArray(entry) ? [] : parseBranches(entry?.branches);
+
+            const existing = merged.get(file);
+            if (!existing) {
+                merged.set(file, {
+                    file,
+                    lines: lines.map(hits => typeof hits === 'number' ? hits : null),
+                    branches
+                });
+                continue;
+            }
+
+            lines.forEach((hits, index) => {
+                if (typeof hits === 'number') {
+                    existing.lines[index] = (existing.lines[index] ?? 0) + hits;
+                }
+            });
+            for (const branch of branches) {
+                const match = existing.branches.find(candidate =>
+                    candidate.line === branch.line &&
+                    candidate.branchLine === branch.branchLine &&
+                    candidate.label === branch.label
+                );
+                if (match) {
+                    match.hits += branch.hits;
+                } else {
+                    existing.branches.push(branch);
+                }
+            }
+        }
+    }
+
+    return Array.from(merged.values());
+}
+
+/**
+ * Branch coverage comes keyed by inspected arrays in the resultset
+ * (`"[:if, 0, 3, 4, 7, 7]": { "[:then, 1, 4, 6, 4, 15]": 2 }`) and as a flat
+ * list in the JSON formatter output
+ */
+function parseBranches(branches: unknown): BranchCoverageData[] {
+    const result: BranchCoverageData[] = [];
+
+    if (Array.isArray(branches)) {
+        for (const branch of branches) {
+            if (typeof branch?.start_line !== 'number') {
+                continue;
+            }
+            result.push({
+                line: typeof branch.report_line === 'number' ? branch.report_line : branch.start_line,
+                branchLine: branch.start_line,
+                hits: typeof branch.coverage === 'number' ? branch.coverage : 0,
+                label: String(branch.type)
+            });
+        }
+        return result;
+    }
+
+    if (!branches || typeof branches !== 'object') {
+        return result;
+    }
+
+    for (const [conditionKey, targets] of Object.entries<any>(branches)) {
+        const condition = parseBranchKey(conditionKey);
+        if (!condition || !targets || typeof targets !== 'object') {
+            continue;
+        }
+        for (const [targetKey, hits] of Object.entries<any>(targets)) {
+            const target = parseBranchKey(targetKey);
+            if (!target) {
+                continue;
+            }
+            result.push({
+                line: condition.line,
+                branchLine: target.line,
+                hits: typeof hits === 'number' ? hits : 0,
+                label: target.type
+            });
+        }
+    }
+
+    return result;
+}
+
+function parseBranchKey(key: string): { type: string; line: number } | undefined {
+    const match = key.match(/^\[:?"?(\w+)"?,\s*\d+,\s*(\d+),/);
+    return match ? { type: match[1], line: parseInt(match[2], 10) } : undefined;
+}
+
+/**
+ * Map a path recorded on another machine (a CI artifact) into this workspace
+ * by finding the longest trailing part of it that exists under `root`
+ */
+export function remapCoveragePath(
+    file: string,
+    root: string,
+    exists: (candidate: string) => boolean
+): string | undefined {
+    if (exists(file)) {
+        return file;
+    }
+
+    const parts = file.split(/[\\/]/).filter(part => part.length > 0);
+    for (let i = 1; i < parts.length; i++) {
+        const candidate = path.join(root, ...parts.slice(i));
+        if (exists(candidate)) {
+            return candidate;
+        }
+    }
+
+    return undefined;
+}
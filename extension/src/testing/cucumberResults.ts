@@ -0,0 +1,135 @@
+/**
+ * Cucumber results from the JSON formatter (`--format json`)
+ */
+
+export type CucumberStatus = 'passed' | 'failed' | 'skipped' | 'pending' | 'undefined';
+
+export interface CucumberScenarioResult {
+    // Feature file as Cucumber printed it (usually relative to the project)
+    file: string;
+    // 1-based line of the scenario, or of the Examples row for outlines
+    line: number;
+    name: string;
+    status: CucumberStatus;
+    // Milliseconds
+    duration: number;
+    errorMessage?: string;
+    // First step that failed, was undefined or pending
+    failedStep?: { keyword: string; name: string; line: number };
+}
+
+interface CucumberJsonResult {
+    status?: string;
+    duration?: number;
+    error_message?: string;
+}
+
+interface CucumberJsonStep {
+    keyword?: string;
+    name?: string;
+    line?: number;
+    result?: CucumberJsonResult;
+}
+
+interface CucumberJsonElement {
+    type?: string;
+    name?: string;
+    line?: number;
+    steps?: CucumberJsonStep[];
+    before?: CucumberJsonStep[];
+    after?: CucumberJsonStep[];
+}
+
+interface CucumberJsonFeature {
+    uri?: string;
+    elements?: CucumberJsonElement[];
+}
+
+// Worst status wins when combining steps
+const STATUS_ORDER: CucumberStatus[] = ['passed', 'skipped', 'pending', 'undefined', 'failed'];
+
+/**
+ * Parse the JSON report into one result per scenario (or Examples row)
+ *
+ * Background steps are reported as separate elements before each scenario,
+ * so they are folded into the scenario that follows them.
+ */
+export function parseCucumberJson(text: string): CucumberScenarioResult[] | undefined {
+    let features: CucumberJsonFeature[];
+    try {
+        features = JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+    if (!Array.isArray(features)) {
+        return undefined;
+    }
+
+    const results: CucumberScenarioResult[] = [];
+
+    for (const feature of features) {
+        let backgroundSteps: CucumberJsonStep[] = [];
+
+        for (const element of feature.elements || []) {
+            if (element.type === 'background') {
+                backgroundSteps = element.steps || [];
+                continue;
+            }
+
+            const steps = [
+                ...(element.before || []),
+                ...backgroundSteps,
+                ...(element.steps || []),
+                ...(element.after || [])
+            ];
+            backgroundSteps = [];
+
+            let status: CucumberStatus = 'passed';
+            let duration = 0;
+            let errorMessage: string | undefined;
+            let failedStep: CucumberScenarioResult['failedStep'];
+
+            for (const step of steps) {
+                const stepStatus = normaliseStatus(step.result?.status);
+                // Durations are in nanoseconds
+                duration += (step.result?.duration || 0) / 1e6;
+
+                if (STATUS_ORDER.indexOf(stepStatus) > STATUS_ORDER.indexOf(status)) {
+                    status = stepStatus;
+                }
+                if (stepStatus !== 'passed' && stepStatus !== 'skipped' && !failedStep && step.line) {
+                    failedStep = { keyword: (step.keyword || '').trim(), name: step.name || '', line: step.line };
+                }
+                if (step.result?.error_message && !errorMessage) {
+                    errorMessage = step.result.error_message;
+                }
+            }
+
+            results.push({
+                file: feature.uri || '',
+                line: element.line || 0,
+                name: element.name || '',
+                status,
+                duration,
+                errorMessage,
+                failedStep
+            });
+        }
+    }
+
+    return results;
+}
+
+function normaliseStatus(status: string | undefined): CucumberStatus {
+    switch (status) {
+        case 'passed':
+        case 'failed':
+        case 'pending':
+        case 'undefined':
+            return status;
+        case 'ambiguous':
+            return 'failed';
+        default:
+            return 'skipped';
+    }
+}
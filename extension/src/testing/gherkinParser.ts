@@ -0,0 +1,179 @@
+/**
+ * Gherkin (.feature) structure parser for the test explorer
+ *
+ * Produces Feature -> Rule -> Scenario / Scenario Outline -> Examples row
+ * nodes with the lines Cucumber accepts in `file:line` filters. Only English
+ * keywords are recognised.
+ */
+
+export interface GherkinStep {
+    keyword: string;
+    text: string;
+    // 0-based
+    line: number;
+}
+
+export interface GherkinNode {
+    type: 'feature' | 'rule' | 'scenario' | 'outline' | 'example';
+    keyword: string;
+    name: string;
+    // 0-based lines
+    line: number;
+    endLine: number;
+    tags: string[];
+    steps: GherkinStep[];
+    children: GherkinNode[];
+    // Examples rows: column name -> value, for filling in <placeholders>
+    values?: { [column: string]: string };
+}
+
+const STEP_PATTERN = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+const SECTION_PATTERN = /^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/;
+
+/**
+ * Parse a feature file, returning undefined when it has no Feature
+ */
+export function parseFeature(content: string): GherkinNode | undefined {
+    const lines = content.split('\n');
+
+    let feature: GherkinNode | undefined;
+    let rule: GherkinNode | undefined;
+    // Scenario, outline or background currently receiving steps
+    let current: GherkinNode | undefined;
+    let pendingTags: string[] = [];
+    let docString: string | undefined;
+    let inExamples = false;
+    let exampleHeader: string[] | undefined;
+    let exampleTags: string[] = [];
+
+    const extend = (line: number) => {
+        for (const node of [feature, rule, current]) {
+            if (node) {
+                node.endLine = line;
+            }
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const trimmed = lines[i].trim();
+
+        if (docString) {
+            if (trimmed.startsWith(docString)) {
+                docString = undefined;
+            }
+            extend(i);
+            continue;
+        }
+
+        if (trimmed === '' || trimmed.startsWith('#')) {
+            continue;
+        }
+
+        if (trimmed.startsWith('"""') || trimmed.startsWith('```')) {
+            docString = trimmed.slice(0, 3);
+            extend(i);
+            continue;
+        }
+
+        if (trimmed.startsWith('@')) {
+            pendingTags.push(...trimmed.split(/\s+/).filter(tag => tag.startsWith('@')));
+            continue;
+        }
+
+        const section = trimmed.match(SECTION_PATTERN);
+        if (section) {
+            const keyword = section[1];
+            const name = section[2].trim();
+            const tags = pendingTags;
+            pendingTags = [];
+
+            if (keyword === 'Feature') {
+                feature = createNode('feature', keyword, name, i, tags);
+                rule = undefined;
+                current = undefined;
+            } else if (!feature) {
+                continue;
+            } else if (keyword === 'Rule') {
+                rule = createNode('rule', keyword, name, i, [...feature.tags, ...tags]);
+                feature.children.push(rule);
+                current = undefined;
+            } else if (keyword === 'Background') {
+                // Background steps belong to every scenario, not to a test of their own
+                current = createNode('scenario', keyword, name, i, []);
+            } else if (keyword === 'Examples' || keyword === 'Scenarios') {
+                if (current?.type === 'outline') {
+                    inExamples = true;
+                    exampleHeader = undefined;
+                    exampleTags = tags;
+                }
+                extend(i);
+                continue;
+            } else {
+                const type = keyword.startsWith('Scenario ') ? 'outline' : 'scenario';
+                const inherited = rule ? rule.tags : feature.tags;
+                current = createNode(type, keyword, name, i, [...inherited, ...tags]);
+                (rule || feature).children.push(current);
+            }
+
+            inExamples = false;
+            extend(i);
+            continue;
+        }
+
+        if (!current) {
+            continue;
+        }
+
+        if (trimmed.startsWith('|')) {
+            if (inExamples && current.type === 'outline') {
+                const cells = parseTableRow(trimmed);
+                if (!exampleHeader) {
+                    exampleHeader = cells;
+                } else {
+                    const example = createNode('example', 'Examples', cells.join(' | '), i, [...current.tags, ...exampleTags]);
+                    example.values = Object.fromEntries(exampleHeader.map((column, index) => [column, cells[index] ?? '']));
+                    current.children.push(example);
+                }
+            }
+            // Otherwise a step's data table
+            extend(i);
+            continue;
+        }
+
+        const step = trimmed.match(STEP_PATTERN);
+        if (step) {
+            current.steps.push({ keyword: step[1], text: step[2], line: i });
+            extend(i);
+        }
+    }
+
+    return feature;
+}
+
+/**
+ * Find the scenario or outline containing a line
+ */
+export function findScenarioAt(feature: GherkinNode, line: number): GherkinNode | undefined {
+    for (const child of feature.children) {
+        if (line < child.line || line > child.endLine) {
+            continue;
+        }
+        if (child.type === 'rule') {
+            return findScenarioAt(child, line);
+        }
+        return child;
+    }
+    return undefined;
+}
+
+function createNode(type: GherkinNode['type'], keyword: string, name: string, line: number, tags: string[]): GherkinNode {
+    return { type, keyword, name, line, endLine: line, tags, steps: [], children: [] };
+}
+
+function parseTableRow(row: string): string[] {
+    return row
+        .replace(/^\|/, '')
+        .replace(/\|\s*$/, '')
+        .split(/(?<!\\)\|/)
+        .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
@@ -0,0 +1,90 @@
+/**
+ * Minitest results written by the RubyMate reporter plugin
+ * (ruby/minitest/rubymate_plugin.rb), one JSON object per line
+ */
+
+export interface MinitestFailure {
+    type: string;
+    message: string;
+    location?: string;
+    backtrace: string[];
+}
+
+export interface MinitestTestResult {
+    class: string;
+    name: string;
+    file?: string | null;
+    line?: number | null;
+    status: 'pass' | 'fail' | 'error' | 'skip';
+    time: number;
+    failures: MinitestFailure[];
+}
+
+/**
+ * Parse the JSON lines report, skipping anything that isn't a test result
+ */
+export function parseMinitestReport(text: string): MinitestTestResult[] {
+    const results: MinitestTestResult[] = [];
+
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('{')) {
+            continue;
+        }
+
+        try {
+            const result = JSON.parse(trimmed);
+            if (result && typeof result.name === 'string' && typeof result.status === 'string') {
+                results.push(result as MinitestTestResult);
+            }
+        } catch {
+            // Partial line from an interrupted run
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Extract expected/actual values from a Minitest assertion message
+ *
+ * Handles both the short `Expected: X / Actual: Y` form and the unified diff
+ * Minitest prints for multi-line values.
+ */
+export function extractMinitestExpectedActual(message: string): { expected: string; actual: string } | undefined {
+    const simple = message.match(/Expected:\s*([\s\S]*?)\n\s*Actual:\s*([\s\S]*)$/);
+    if (simple) {
+        return {
+            expected: simple[1].trim(),
+            actual: simple[2].trim()
+        };
+    }
+
+    const diffStart = message.indexOf('--- expected\n+++ actual\n');
+    if (diffStart === -1) {
+        return undefined;
+    }
+
+    const expected: string[] = [];
+    const actual: string[] = [];
+    const diffLines = message.slice(diffStart).split('\n').slice(2);
+
+    for (const line of diffLines) {
+        if (line.startsWith('@@')) {
+            continue;
+        }
+        if (line.startsWith('-')) {
+            expected.push(line.slice(1));
+        } else if (line.startsWith('+')) {
+            actual.push(line.slice(1));
+        } else if (line.startsWith(' ')) {
+            expected.push(line.slice(1));
+            actual.push(line.slice(1));
+        }
+    }
+
+    return {
+        expected: expected.join('\n'),
+        actual: actual.join('\n')
+    };
+}
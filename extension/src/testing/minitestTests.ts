@@ -0,0 +1,79 @@
+/**
+ * The Minitest test around a line, by the method name Minitest runs it as
+ *
+ * `def test_*` methods keep their name; ActiveSupport's `test "does a thing"`
+ * blocks become `test_does_a_thing`, as ActiveSupport::Testing::Declarative
+ * defines them.
+ */
+
+export interface MinitestTest {
+    name: string;
+    className?: string;
+    // 0-based line of the definition
+    line: number;
+}
+
+const TEST_METHOD_PATTERN = /^\s*def\s+(test_\w+[?!]?)/;
+const TEST_BLOCK_PATTERN = /^\s*test\s*\(?\s*(["'])(.*?)\1/;
+const CLASS_PATTERN = /^\s*class\s+([\w:]+)/;
+
+/**
+ * Test whose `test "..."` block or `def test_...` method encloses a 0-based line
+ */
+export function minitestTestAt(content: string, line: number): MinitestTest | undefined {
+    const lines = content.split(/\r?\n/);
+
+    for (let i = Math.min(line, lines.length - 1); i >= 0; i--) {
+        const name = minitestTestName(lines[i]);
+        if (name) {
+            return line <= definitionEnd(lines, i)
+                ? { name, className: enclosingClass(lines, i), line: i }
+                : undefined;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Method name of a test defined on a line, if any
+ */
+export function minitestTestName(line: string): string | undefined {
+    const method = line.match(TEST_METHOD_PATTERN);
+    if (method) {
+        return method[1];
+    }
+
+    const block = line.match(TEST_BLOCK_PATTERN);
+    return block ? `test_${block[2].replace(/\s+/g, '_')}` : undefined;
+}
+
+// Line of the `end` closing a definition: the first line after it that is not
+// indented deeper, or the last line when the file ends first
+function definitionEnd(lines: string[], line: number): number {
+    if (/\bend\s*$/.test(lines[line]) || /\{.*\}\s*$/.test(lines[line])) {
+        return line;
+    }
+
+    const indent = indentation(lines[line]);
+    for (let i = line + 1; i < lines.length; i++) {
+        if (lines[i].trim() && indentation(lines[i]) <= indent) {
+            return i;
+        }
+    }
+    return lines.length - 1;
+}
+
+function indentation(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+function enclosingClass(lines: string[], line: number): string | undefined {
+    for (let i = line; i >= 0; i--) {
+        const match = lines[i].match(CLASS_PATTERN);
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,573 @@
+/**
+ * Block-aware RSpec structure parser
+ *
+ * Tracks Ruby blocks (do/end, braces, keyword blocks) instead of relying on
+ * indentation, so nesting and ranges match what RSpec actually builds.
+ * Strings, comments and heredocs are blanked out before looking for blocks.
+ */
+
+export interface RSpecNode {
+    type: 'group' | 'example' | 'include';
+    keyword: string;
+    label: string;
+    // 0-based lines in `file`
+    line: number;
+    endLine: number;
+    file: string;
+    skipped: boolean;
+    focused: boolean;
+    children: RSpecNode[];
+    // Include nodes: name of the shared example group they pull in
+    sharedName?: string;
+    // Defined inside a loop or another non-RSpec block, so RSpec's ids can't be predicted
+    dynamic?: boolean;
+    // RSpec scoped id (the `1:2:1` in `spec/foo_spec.rb[1:2:1]`), when predictable
+    scopedId?: string;
+}
+
+export interface RSpecFile {
+    groups: RSpecNode[];
+    sharedGroups: Map<string, RSpecNode>;
+}
+
+const GROUP_KEYWORDS = new Set([
+    'describe', 'context', 'feature', 'example_group',
+    'xdescribe', 'xcontext', 'xfeature',
+    'fdescribe', 'fcontext', 'ffeature'
+]);
+
+const EXAMPLE_KEYWORDS = new Set([
+    'it', 'specify', 'example', 'scenario', 'its',
+    'xit', 'xspecify', 'xexample', 'xscenario',
+    'fit', 'fspecify', 'fexample', 'fscenario',
+    'skip', 'pending', 'focus'
+]);
+
+const SHARED_KEYWORDS = new Set(['shared_examples', 'shared_examples_for', 'shared_context']);
+
+// it_behaves_like nests the shared examples in a new group; include_examples inlines them
+const NESTED_INCLUDE_KEYWORDS = new Set(['it_behaves_like', 'it_should_behave_like']);
+const INLINE_INCLUDE_KEYWORDS = new Set(['include_examples', 'include_context']);
+
+const DSL_PATTERN = /^\s*(?:RSpec\s*\.\s*)?([a-z_]+)\b/;
+
+interface BlockEntry {
+    kind: 'do' | 'brace' | 'keyword';
+    node?: RSpecNode;
+    shared?: boolean;
+}
+
+interface Token {
+    kind: 'open-do' | 'open-brace' | 'open-keyword' | 'close-end' | 'close-brace';
+    index: number;
+}
+
+/**
+ * Parse a spec file into its example group tree
+ */
+export function parseRSpec(content: string, file: string = ''): RSpecFile {
+    const rawLines = content.split('\n');
+    const codeLines = blankStringsAndComments(rawLines);
+
+    const groups: RSpecNode[] = [];
+    const sharedGroups = new Map<string, RSpecNode>();
+    const stack: BlockEntry[] = [];
+
+    for (let i = 0; i < rawLines.length; i++) {
+        const raw = rawLines[i];
+        const code = codeLines[i];
+        const tokens = tokenize(code);
+
+        const dsl = code.match(DSL_PATTERN);
+        const keyword = dsl ? dsl[1] : '';
+        const parentEntry = findParentEntry(stack);
+        const parent = parentEntry?.node;
+        const insideExample = parent?.type === 'example';
+        // Iterator blocks (`.each do`) between this line and its parent may define examples repeatedly
+        const dynamic = stack
+            .slice(parentEntry ? stack.indexOf(parentEntry) + 1 : 0)
+            .some(entry => entry.kind !== 'keyword');
+
+        let created: RSpecNode | undefined;
+        let createdShared = false;
+        let blockTokenIndex = -1;
+
+        if (keyword && !insideExample) {
+            blockTokenIndex = findDslBlockToken(code, keyword, tokens);
+            const hasBlock = blockTokenIndex !== -1;
+            const args = raw.slice(raw.indexOf(keyword) + keyword.length);
+
+            if (GROUP_KEYWORDS.has(keyword) || SHARED_KEYWORDS.has(keyword)) {
+                if (hasBlock) {
+                    created = createNode('group', keyword, describeLabel(args) || keyword, i, file, parent);
+                    createdShared = SHARED_KEYWORDS.has(keyword);
+                    if (createdShared) {
+                        sharedGroups.set(created.label, created);
+                    }
+                }
+            } else if (EXAMPLE_KEYWORDS.has(keyword) && (parent || stack.length === 0)) {
+                // `skip`/`pending`/`focus` only define examples when given a block
+                if (hasBlock || !['skip', 'pending', 'focus'].includes(keyword)) {
+                    const label = exampleLabel(keyword, args, raw, i);
+                    created = createNode('example', keyword, label, i, file, parent);
+                    // An example without a block is pending
+                    if (!hasBlock) {
+                        created.skipped = true;
+                    }
+                }
+            } else if (NESTED_INCLUDE_KEYWORDS.has(keyword) || INLINE_INCLUDE_KEYWORDS.has(keyword)) {
+                const sharedName = describeLabel(args);
+                if (sharedName) {
+                    const prefix = NESTED_INCLUDE_KEYWORDS.has(keyword)
+                        ? (keyword === 'it_behaves_like' ? 'behaves like' : 'should behave like')
+                        : 'includes';
+                    created = createNode('include', keyword, `${prefix} ${sharedName}`, i, file, parent);
+                    created.sharedName = sharedName;
+                }
+            }
+
+            if (created) {
+                created.dynamic = dynamic;
+                if (!createdShared) {
+                    if (parent) {
+                        parent.children.push(created);
+                    } else {
+                        groups.push(created);
+                    }
+                }
+            }
+        } else if (keyword && insideExample && (keyword === 'skip' || keyword === 'pending')) {
+            // `skip "reason"` inside an example marks it pending
+            parent!.skipped = true;
+        }
+
+        // Apply this line's blocks in order, attaching the DSL node to its block
+        for (let t = 0; t < tokens.length; t++) {
+            const token = tokens[t];
+            if (token.kind === 'close-end' || token.kind === 'close-brace') {
+                const entry = stack.pop();
+                if (entry?.node) {
+                    entry.node.endLine = i;
+                }
+                continue;
+            }
+
+            const kind = token.kind === 'open-do' ? 'do' : token.kind === 'open-brace' ? 'brace' : 'keyword';
+            if (created && t === blockTokenIndex) {
+                stack.push({ kind, node: created, shared: createdShared });
+            } else {
+                stack.push({ kind });
+            }
+        }
+    }
+
+    return { groups, sharedGroups };
+}
+
+/**
+ * Expand include nodes with copies of their shared groups and assign RSpec scoped ids
+ *
+ * `external` supplies shared groups defined in other files (spec/support).
+ */
+export function resolveSharedExamples(file: RSpecFile, external?: Map<string, RSpecNode>): void {
+    const lookup = (name: string) => file.sharedGroups.get(name) || external?.get(name);
+
+    const expand = (nodes: RSpecNode[], depth: number) => {
+        for (const node of nodes) {
+            if (node.type === 'include' && node.sharedName && node.children.length === 0 && depth < 10) {
+                const shared = lookup(node.sharedName);
+                if (shared) {
+                    node.children = shared.children.map(child => cloneNode(child, node.skipped, node.focused));
+                }
+            }
+            expand(node.children, depth + 1);
+        }
+    };
+
+    expand(file.groups, 0);
+    assignScopedIds(file.groups, undefined);
+}
+
+/**
+ * Mirror RSpec's id scheme: examples and child groups share one counter per
+ * group (in definition order), include_examples adds to the enclosing
+ * group's counter, and it_behaves_like counts as a child group.
+ */
+function assignScopedIds(nodes: RSpecNode[], parentId: string | undefined, topLevel: boolean = true): void {
+    let index = 0;
+    let predictable = topLevel || parentId !== undefined;
+
+    const assign = (node: RSpecNode): string | undefined => {
+        index++;
+        if (node.dynamic) {
+            predictable = false;
+        }
+        return predictable ? (parentId ? `${parentId}:${index}` : `${index}`) : undefined;
+    };
+
+    for (const node of nodes) {
+        if (node.type === 'include' && INLINE_INCLUDE_KEYWORDS.has(node.keyword)) {
+            if (node.dynamic) {
+                predictable = false;
+            }
+            for (const child of node.children) {
+                child.scopedId = assign(child);
+                assignScopedIds(child.children, child.scopedId, false);
+            }
+            continue;
+        }
+
+        node.scopedId = assign(node);
+        assignScopedIds(node.children, node.scopedId, false);
+    }
+}
+
+function cloneNode(node: RSpecNode, skipped: boolean, focused: boolean): RSpecNode {
+    return {
+        ...node,
+        skipped: node.skipped || skipped,
+        focused: node.focused || focused,
+        scopedId: undefined,
+        children: node.children.map(child => cloneNode(child, skipped, focused))
+    };
+}
+
+function createNode(
+    type: RSpecNode['type'],
+    keyword: string,
+    label: string,
+    line: number,
+    file: string,
+    parent: RSpecNode | undefined
+): RSpecNode {
+    const metadata = keywordMetadata(keyword);
+    return {
+        type,
+        keyword,
+        label,
+        line,
+        endLine: line,
+        file,
+        skipped: metadata.skipped || (parent?.skipped ?? false),
+        focused: metadata.focused || (parent?.focused ?? false),
+        children: []
+    };
+}
+
+function keywordMetadata(keyword: string): { skipped: boolean; focused: boolean } {
+    return {
+        skipped: /^x/.test(keyword) || keyword === 'skip' || keyword === 'pending',
+        focused: (/^f/.test(keyword) && keyword !== 'feature') || keyword === 'focus'
+    };
+}
+
+/**
+ * The innermost block that belongs to an RSpec node
+ */
+function findParentEntry(stack: BlockEntry[]): BlockEntry | undefined {
+    for (let i = stack.length - 1; i >= 0; i--) {
+        if (stack[i].node) {
+            return stack[i];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Index (into `tokens`) of the block opened by the DSL call on this line, or -1
+ *
+ * A trailing `do` always belongs to the call; a brace only does when it
+ * directly follows the keyword or its parenthesised arguments, since
+ * `it 'x', meta: { a: 1 }` braces are hashes.
+ */
+function findDslBlockToken(code: string, keyword: string, tokens: Token[]): number {
+    const keywordEnd = code.indexOf(keyword) + keyword.length;
+
+    let depth = 0;
+    let doIndex = -1;
+    for (let t = 0; t < tokens.length; t++) {
+        const token = tokens[t];
+        if (token.index < keywordEnd) {
+            continue;
+        }
+        if (token.kind === 'open-do' && depth === 0) {
+            doIndex = t;
+            break;
+        }
+        if (token.kind === 'open-brace' || token.kind === 'open-keyword') {
+            depth++;
+        } else {
+            depth--;
+        }
+    }
+    if (doIndex !== -1) {
+        return doIndex;
+    }
+
+    const braceBlock = code.slice(keywordEnd).match(/^\s*(\((?:[^()]|\([^()]*\))*\))?\s*\{/);
+    if (braceBlock) {
+        const braceIndex = keywordEnd + braceBlock[0].length - 1;
+        return tokens.findIndex(token => token.index === braceIndex);
+    }
+
+    return -1;
+}
+
+/**
+ * Description for a group: `describe User, '#name', type: :model` -> "User #name"
+ */
+function describeLabel(args: string): string {
+    const parts: string[] = [];
+    let rest = args.replace(/^\s*\(?\s*/, '');
+
+    while (rest.length > 0) {
+        const literal = readLiteral(rest);
+        if (!literal) {
+            break;
+        }
+        parts.push(literal.value);
+        rest = rest.slice(literal.length).replace(/^\s*,\s*/, '');
+        // Stop at metadata (`type: :model`) or the block
+        if (/^[a-z_]+:\s/.test(rest) || /^(do\b|\{)/.test(rest)) {
+            break;
+        }
+    }
+
+    return parts.join(' ');
+}
+
+function exampleLabel(keyword: string, args: string, raw: string, line: number): string {
+    if (keyword === 'its') {
+        const attribute = readLiteral(args.replace(/^\s*\(?\s*/, ''));
+        return attribute ? `its(${attribute.value})` : 'its';
+    }
+
+    const description = describeLabel(args);
+    if (description) {
+        return description;
+    }
+
+    // One-liner syntax: `it { is_expected.to be_valid }` is described as "is expected to be valid"
+    const oneLiner = raw.match(/\{\s*(is_expected|should(?:_not)?)(?:\.(to|not_to|to_not))?\s+(.+?)\s*\}\s*$/);
+    if (oneLiner) {
+        const subject = oneLiner[1] === 'is_expected'
+            ? `is expected ${(oneLiner[2] || 'to').replace(/_/g, ' ')}`
+            : oneLiner[1].replace(/_/g, ' ');
+        const matcher = oneLiner[3]
+            .replace(/\(.*\)$/, '')
+            .replace(/_/g, ' ')
+            .trim();
+        return `${subject} ${matcher}`;
+    }
+
+    return `example at line ${line + 1}`;
+}
+
+/**
+ * Read a leading string, symbol or constant literal
+ */
+function readLiteral(text: string): { value: string; length: number } | undefined {
+    const quote = text[0];
+    if (quote === '"' || quote === "'") {
+        let i = 1;
+        let interpolation = 0;
+        while (i < text.length) {
+            const ch = text[i];
+            if (ch === '\\') {
+                i += 2;
+                continue;
+            }
+            if (quote === '"' && ch === '#' && text[i + 1] === '{') {
+                interpolation++;
+                i += 2;
+                continue;
+            }
+            if (interpolation > 0 && ch === '}') {
+                interpolation--;
+            } else if (interpolation === 0 && ch === quote) {
+                return { value: text.slice(1, i), length: i + 1 };
+            }
+            i++;
+        }
+        return undefined;
+    }
+
+    const symbol = text.match(/^:([A-Za-z_]\w*[?!]?)/);
+    if (symbol) {
+        return { value: symbol[1], length: symbol[0].length };
+    }
+
+    const constant = text.match(/^[A-Z][\w]*(?:::[A-Z]\w*)*/);
+    if (constant) {
+        return { value: constant[0], length: constant[0].length };
+    }
+
+    return undefined;
+}
+
+/**
+ * Find block openers and closers in a line of code (strings already blanked)
+ */
+function tokenize(code: string): Token[] {
+    const tokens: Token[] = [];
+
+    // Keyword blocks only open at the start of a statement (not `x if y`)
+    const statementStart = /(^|[;=(]|\|\||&&|\breturn\b)\s*(if|unless|while|until|case|begin|def|class|module|for)\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = statementStart.exec(code)) !== null) {
+        const keywordIndex = match.index + match[0].length - match[2].length;
+        const rest = code.slice(keywordIndex);
+        // Endless method definitions (`def name = value`) have no end
+        if (match[2] === 'def' && /^def\s+[\w.]+[?!]?(\([^)]*\))?\s*=(?![=~])/.test(rest)) {
+            continue;
+        }
+        tokens.push({ kind: 'open-keyword', index: keywordIndex });
+    }
+
+    const loopOnLine = /^\s*(while|until|for)\b/.test(code);
+    const words = /\b(do|end)\b|[{}]/g;
+    while ((match = words.exec(code)) !== null) {
+        const before = code[match.index - 1];
+        const after = code[match.index + match[0].length];
+
+        if (match[0] === '{') {
+            tokens.push({ kind: 'open-brace', index: match.index });
+        } else if (match[0] === '}') {
+            tokens.push({ kind: 'close-brace', index: match.index });
+        } else if (before === '.' || before === ':' || after === ':' || after === '?' || after === '!') {
+            // Method calls (`range.end`), symbols and hash keys
+            continue;
+        } else if (match[1] === 'do') {
+            // `while x do` shares the loop's end
+            if (!loopOnLine) {
+                tokens.push({ kind: 'open-do', index: match.index });
+            }
+        } else {
+            tokens.push({ kind: 'close-end', index: match.index });
+        }
+    }
+
+    return tokens.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Replace string contents, comments and heredoc bodies with spaces so block
+ * keywords inside them are ignored. Positions are preserved.
+ */
+function blankStringsAndComments(lines: string[]): string[] {
+    const result: string[] = [];
+    let openQuote: string | undefined;
+    let percentClose: string | undefined;
+    let percentOpen: string | undefined;
+    let percentDepth = 0;
+    let heredocs: Array<{ id: string; squiggly: boolean }> = [];
+    let inBlockComment = false;
+
+    for (const line of lines) {
+        if (inBlockComment) {
+            if (/^=end\b/.test(line)) {
+                inBlockComment = false;
+            }
+            result.push(' '.repeat(line.length));
+            continue;
+        }
+        if (/^=begin\b/.test(line)) {
+            inBlockComment = true;
+            result.push(' '.repeat(line.length));
+            continue;
+        }
+
+        if (heredocs.length > 0) {
+            const current = heredocs[0];
+            const terminator = current.squiggly ? line.trim() : line.replace(/\s+$/, '');
+            if (terminator === current.id) {
+                heredocs.shift();
+            }
+            result.push(' '.repeat(line.length));
+            continue;
+        }
+
+        let out = '';
+        let i = 0;
+        while (i < line.length) {
+            const ch = line[i];
+
+            if (openQuote) {
+                if (ch === '\\') {
+                    out += '  ';
+                    i += 2;
+                    continue;
+                }
+                if (ch === openQuote) {
+                    openQuote = undefined;
+                    out += ch;
+                } else {
+                    out += ' ';
+                }
+                i++;
+                continue;
+            }
+
+            if (percentClose) {
+                if (ch === '\\') {
+                    out += '  ';
+                    i += 2;
+                    continue;
+                }
+                if (ch === percentOpen && percentOpen !== percentClose) {
+                    percentDepth++;
+                } else if (ch === percentClose) {
+                    if (percentDepth === 0) {
+                        percentClose = undefined;
+                        out += ch;
+                        i++;
+                        continue;
+                    }
+                    percentDepth--;
+                }
+                out += ' ';
+                i++;
+                continue;
+            }
+
+            if (ch === '#') {
+                out += ' '.repeat(line.length - i);
+                break;
+            }
+
+            // A slash where an operand is expected starts a regexp, not a division
+            const isRegexp = ch === '/' && /(^|[(,=~!|&{[;?:]|\b(when|if|unless|elsif|and|or|not|return))\s*$/.test(out);
+            if (ch === '"' || ch === "'" || ch === '`' || isRegexp) {
+                openQuote = ch;
+                out += ch;
+                i++;
+                continue;
+            }
+
+            const percent = line.slice(i).match(/^%[qQwWiIrsx]?([([{<|!\/])/);
+            if (percent && (i === 0 || /[\s(,=\[]/.test(line[i - 1]))) {
+                percentOpen = percent[1];
+                percentClose = { '(': ')', '[': ']', '{': '}', '<': '>' }[percentOpen] || percentOpen;
+                percentDepth = 0;
+                out += ' '.repeat(percent[0].length - 1) + percentOpen;
+                i += percent[0].length;
+                continue;
+            }
+
+            const heredoc = line.slice(i).match(/^<<([~-]?)(["'`]?)([A-Z_][A-Z0-9_]*)\2/);
+            if (heredoc) {
+                heredocs.push({ id: heredoc[3], squiggly: heredoc[1] !== '' });
+                out += ' '.repeat(heredoc[0].length);
+                i += heredoc[0].length;
+                continue;
+            }
+
+            out += ch;
+            i++;
+        }
+
+        result.push(out);
+    }
+
+    return result;
+}
@@ -0,0 +1,79 @@
+/**
+ * RSpec JSON formatter output (`rspec --format json`)
+ */
+
+export interface RSpecException {
+    class: string;
+    message: string;
+    backtrace: string[] | null;
+}
+
+export interface RSpecExampleResult {
+    id: string;
+    description: string;
+    full_description: string;
+    status: 'passed' | 'failed' | 'pending';
+    file_path: string;
+    line_number: number;
+    run_time: number;
+    pending_message?: string | null;
+    exception?: RSpecException;
+}
+
+export interface RSpecSummary {
+    duration: number;
+    example_count: number;
+    failure_count: number;
+    pending_count: number;
+    errors_outside_of_examples_count: number;
+}
+
+export interface RSpecJsonReport {
+    version?: string;
+    messages?: string[];
+    examples: RSpecExampleResult[];
+    summary?: RSpecSummary;
+}
+
+/**
+ * Parse the JSON report written by RSpec's JSON formatter
+ */
+export function parseRSpecJson(text: string): RSpecJsonReport | undefined {
+    // The formatter writes a single JSON document, but when it shares stdout
+    // with other output the document is the last line that starts with '{'
+    const candidates = [text.trim(), ...text.split('\n').filter(line => line.startsWith('{')).reverse()];
+
+    for (const candidate of candidates) {
+        if (!candidate) {
+            continue;
+        }
+
+        try {
+            const report = JSON.parse(candidate);
+            if (report && Array.isArray(report.examples)) {
+                return report as RSpecJsonReport;
+            }
+        } catch {
+            // Not JSON, try the next candidate
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Extract expected/actual values from an RSpec failure message
+ *
+ * Handles the `expected: X / got: Y` form produced by `eq`, `eql` and `equal`
+ */
+export function extractExpectedActual(message: string): { expected: string; actual: string } | undefined {
+    const match = message.match(/expected:\s*([\s\S]*?)\n\s*got:\s*([\s\S]*?)(?:\n\s*\n|\n\s*\(compared using|$)/);
+    if (!match) {
+        return undefined;
+    }
+
+    return {
+        expected: match[1].trim(),
+        actual: match[2].trim()
+    };
+}
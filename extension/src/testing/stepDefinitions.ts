@@ -0,0 +1,154 @@
+/**
+ * Cucumber step definitions in Ruby and matching Gherkin steps against them
+ *
+ * Handles both forms Cucumber accepts:
+ *   Given(/^I have (\d+) cukes$/) do |count|
+ *   When('I add {int} {string}') do |count, name|
+ */
+
+export interface StepDefinition {
+    keyword: string;
+    // Expression as written in the source
+    source: string;
+    pattern: RegExp;
+    // 0-based
+    line: number;
+}
+
+const DEFINITION_PATTERN = /^\s*(Given|When|Then|And|But|Step)\s*\(?\s*(\/(?:\\.|[^\/\\])*\/[a-z]*|%r\{(?:\\.|[^}\\])*\}[a-z]*|'(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*")/;
+
+// Built-in parameter types; custom ones match anything
+const PARAMETER_TYPES: { [name: string]: string } = {
+    int: '(-?\\d+)',
+    float: '(-?\\d*\\.?\\d+)',
+    word: '([^\\s]+)',
+    string: '("[^"]*"|\'[^\']*\')',
+    '': '(.*)',
+    bigdecimal: '(-?\\d*\\.?\\d+)',
+    double: '(-?\\d*\\.?\\d+)',
+    biginteger: '(-?\\d+)',
+    byte: '(-?\\d+)',
+    short: '(-?\\d+)',
+    long: '(-?\\d+)'
+};
+
+/**
+ * Parse the step definitions in a Ruby file, skipping expressions that don't convert
+ */
+export function parseStepDefinitions(content: string): StepDefinition[] {
+    const definitions: StepDefinition[] = [];
+    const lines = content.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(DEFINITION_PATTERN);
+        if (!match) {
+            continue;
+        }
+
+        const source = match[2];
+        const pattern = source.startsWith('/') || source.startsWith('%r')
+            ? rubyRegExpToRegExp(source)
+            : cucumberExpressionToRegExp(unquote(source));
+        if (pattern) {
+            definitions.push({ keyword: match[1], source, pattern, line: i });
+        }
+    }
+
+    return definitions;
+}
+
+/**
+ * Step definitions whose expression matches the step text
+ */
+export function findMatchingSteps(text: string, definitions: StepDefinition[]): StepDefinition[] {
+    return definitions.filter(definition => definition.pattern.test(text));
+}
+
+/**
+ * Convert a Cucumber expression, e.g. `I have {int} cucumber(s) in my belly/stomach`
+ */
+export function cucumberExpressionToRegExp(expression: string): RegExp | undefined {
+    // Alternatives apply to whole words, so convert word by word
+    const converted = expression.split(/(\s+)/).map(part => {
+        if (/^\s+$/.test(part)) {
+            return escapeRegExp(part);
+        }
+        if (/(?<!\\)\//.test(part) && !/[{(]/.test(part)) {
+            const alternatives = part.split(/(?<!\\)\//).map(alternative => escapeRegExp(alternative.replace(/\\\//g, '/')));
+            return `(?:${alternatives.join('|')})`;
+        }
+        return convertExpressionWord(part);
+    });
+
+    if (converted.some(part => part === undefined)) {
+        return undefined;
+    }
+    return new RegExp(`^${converted.join('')}$`);
+}
+
+function convertExpressionWord(word: string): string | undefined {
+    let result = '';
+
+    for (let i = 0; i < word.length; i++) {
+        const char = word[i];
+
+        if (char === '\\' && i + 1 < word.length) {
+            result += escapeRegExp(word[++i]);
+        } else if (char === '{') {
+            const end = word.indexOf('}', i);
+            if (end < 0) {
+                return undefined;
+            }
+            result += PARAMETER_TYPES[word.slice(i + 1, end)] ?? '(.*)';
+            i = end;
+        } else if (char === '(') {
+            const end = word.indexOf(')', i);
+            if (end < 0) {
+                return undefined;
+            }
+            result += `(?:${escapeRegExp(word.slice(i + 1, end))})?`;
+            i = end;
+        } else {
+            result += escapeRegExp(char);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Convert a Ruby regexp literal (`/.../i` or `%r{...}`) to a JavaScript RegExp
+ */
+function rubyRegExpToRegExp(literal: string): RegExp | undefined {
+    const match = literal.match(/^(?:\/([\s\S]*)\/|%r\{([\s\S]*)\})([a-z]*)$/);
+    if (!match) {
+        return undefined;
+    }
+
+    let body = match[1] ?? match[2];
+    const rubyFlags = match[3];
+    if (rubyFlags.includes('x')) {
+        body = body.replace(/\\#/g, '\u0000').replace(/#.*$/gm, '').replace(/\s+/g, '').replace(/\u0000/g, '\\#');
+    }
+    body = body
+        .replace(/\\A/g, '^')
+        .replace(/\\[zZ]/g, '$')
+        .replace(/\\h/g, '[0-9a-fA-F]');
+
+    // Ruby's m flag lets . match newlines, like JavaScript's s
+    const flags = (rubyFlags.includes('i') ? 'i' : '') + (rubyFlags.includes('m') ? 's' : '');
+    try {
+        return new RegExp(body, flags);
+    } catch {
+        return undefined;
+    }
+}
+
+function unquote(literal: string): string {
+    const quote = literal[0];
+    return literal.slice(1, -1).replace(new RegExp(`\\\\([\\\\${quote}])`, 'g'), '$1');
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+}
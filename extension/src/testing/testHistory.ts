@@ -0,0 +1,157 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+/**
+ * Outcomes and durations of past test runs, persisted per workspace so
+ * flaky-test detection and "rerun failed" survive a window reload
+ */
+
+export type TestOutcomeKind = 'passed' | 'failed' | 'errored' | 'skipped';
+
+export interface TestRunRecord {
+    outcome: TestOutcomeKind;
+    // Milliseconds, when the framework reported it
+    duration?: number;
+    time: number;
+}
+
+export interface TestHistoryEntry {
+    label: string;
+    file?: string;
+    // 1-based line the test was at when last run
+    line?: number;
+    runs: TestRunRecord[];
+}
+
+export interface TestInfo {
+    label: string;
+    file?: string;
+    line?: number;
+}
+
+// Older runs are dropped so the file stays small
+const MAX_RUNS_PER_TEST = 20;
+
+// A test is flaky when its outcome flipped at least FLAKY_FLIPS times in its last FLAKY_WINDOW runs
+const FLAKY_WINDOW = 10;
+const FLAKY_FLIPS = 2;
+
+const HISTORY_VERSION = 1;
+
+export class TestHistory {
+    private filePath: string;
+    private entries = new Map<string, TestHistoryEntry>();
+    private dirty = false;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async load(): Promise<void> {
+        try {
+            const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+            if (data?.version !== HISTORY_VERSION || typeof data.tests !== 'object') {
+                return;
+            }
+            for (const [id, entry] of Object.entries<TestHistoryEntry>(data.tests)) {
+                if (Array.isArray(entry?.runs)) {
+                    this.entries.set(id, entry);
+                }
+            }
+        } catch {
+            // No history yet
+        }
+    }
+
+    async save(): Promise<void> {
+        if (!this.dirty) {
+            return;
+        }
+
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const data = { version: HISTORY_VERSION, tests: Object.fromEntries(this.entries) };
+        await fs.writeFile(this.filePath, JSON.stringify(data), 'utf-8');
+        this.dirty = false;
+    }
+
+    record(id: string, info: TestInfo, outcome: TestOutcomeKind, duration?: number, time: number = Date.now()): void {
+        const entry = this.entries.get(id) || { label: info.label, runs: [] };
+        entry.label = info.label;
+        entry.file = info.file;
+        entry.line = info.line;
+        entry.runs.push({ outcome, duration, time });
+        if (entry.runs.length > MAX_RUNS_PER_TEST) {
+            entry.runs.splice(0, entry.runs.length - MAX_RUNS_PER_TEST);
+        }
+
+        this.entries.set(id, entry);
+        this.dirty = true;
+    }
+
+    get(id: string): TestHistoryEntry | undefined {
+        return this.entries.get(id);
+    }
+
+    /**
+     * Whether the test flipped between passing and failing in its recent runs
+     */
+    isFlaky(id: string): boolean {
+        const results = this.completedRuns(id).slice(-FLAKY_WINDOW);
+
+        let flips = 0;
+        for (let i = 1; i < results.length; i++) {
+            if (results[i] !== results[i - 1]) {
+                flips++;
+            }
+        }
+        return flips >= FLAKY_FLIPS;
+    }
+
+    /**
+     * Tests whose most recent completed run failed or errored
+     */
+    failedTests(): string[] {
+        return Array.from(this.entries.keys()).filter(id => {
+            const results = this.completedRuns(id);
+            return results.length > 0 && !results[results.length - 1];
+        });
+    }
+
+    /**
+     * Tests with the highest average duration over their timed runs
+     */
+    slowest(limit: number): Array<{ id: string; entry: TestHistoryEntry; averageDuration: number; timedRuns: number }> {
+        const timed = [];
+        for (const [id, entry] of this.entries) {
+            const durations = entry.runs
+                .filter(run => run.outcome !== 'skipped' && typeof run.duration === 'number')
+                .map(run => run.duration!);
+            if (durations.length === 0) {
+                continue;
+            }
+            timed.push({
+                id,
+                entry,
+                averageDuration: durations.reduce((sum, duration) => sum + duration, 0) / durations.length,
+                timedRuns: durations.length
+            });
+        }
+
+        return timed
+            .sort((a, b) => b.averageDuration - a.averageDuration)
+            .slice(0, limit);
+    }
+
+    /**
+     * Pass (true) / fail (false) for each run that wasn't skipped, oldest first
+     */
+    private completedRuns(id: string): boolean[] {
+        const entry = this.entries.get(id);
+        if (!entry) {
+            return [];
+        }
+        return entry.runs
+            .filter(run => run.outcome !== 'skipped')
+            .map(run => run.outcome === 'passed');
+    }
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+
+export interface TestProcessOptions {
+    cwd: string;
+    env?: { [key: string]: string | undefined };
+    token?: vscode.CancellationToken;
+    onOutput?: (text: string) => void;
+}
+
+export interface TestProcessResult {
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    cancelled: boolean;
+}
+
+/**
+ * Run a test command without a shell and collect its output
+ *
+ * The process is killed when the cancellation token fires.
+ */
+export function runTestProcess(
+    command: string,
+    args: string[],
+    options: TestProcessOptions
+): Promise<TestProcessResult> {
+    return new Promise((resolve, reject) => {
+        const child = child_process.spawn(command, args, {
+            cwd: options.cwd,
+            env: { ...process.env, ...(options.env || {}) },
+            shell: false
+        });
+
+        let stdout = '';
+        let stderr = '';
+        let cancelled = false;
+
+        const cancellation = options.token?.onCancellationRequested(() => {
+            cancelled = true;
+            child.kill('SIGTERM');
+        });
+
+        child.stdout.on('data', (data) => {
+            const text = data.toString();
+            stdout += text;
+            options.onOutput?.(text);
+        });
+
+        child.stderr.on('data', (data) => {
+            const text = data.toString();
+            stderr += text;
+            options.onOutput?.(text);
+        });
+
+        child.on('error', (error) => {
+            cancellation?.dispose();
+            reject(error);
+        });
+
+        child.on('close', (code) => {
+            cancellation?.dispose();
+            resolve({ exitCode: code, stdout, stderr, cancelled });
+        });
+    });
+}
@@ -0,0 +1,63 @@
+import * as path from 'path';
+
+/**
+ * Test roots: each workspace folder and each nested Gemfile directory
+ * (engines, gems in a monorepo) runs its tests from its own directory
+ */
+
+export type TestFramework = 'rspec' | 'minitest' | 'cucumber';
+
+export interface ProjectMarkers {
+    gemfile?: string;
+    gemfileLock?: string;
+    hasSpecDir: boolean;
+    hasTestDir: boolean;
+    hasRSpecConfig: boolean;
+    hasFeaturesDir?: boolean;
+}
+
+/**
+ * Frameworks a root uses, from its Gemfile and directory layout
+ *
+ * Minitest can't be detected from the lockfile since Rails always depends on
+ * it, so it is only assumed when a test/ directory exists. Cucumber needs the
+ * gem and a features/ directory. When nothing points either way, RSpec and
+ * Minitest are both discovered.
+ */
+export function detectTestFrameworks(markers: ProjectMarkers): TestFramework[] {
+    const frameworks: TestFramework[] = [];
+
+    const usesRSpec = markers.hasRSpecConfig ||
+        markers.hasSpecDir ||
+        /^\s{4}rspec-core\b/m.test(markers.gemfileLock || '') ||
+        /^\s*gem\s+['"]rspec(-rails)?['"]/m.test(markers.gemfile || '');
+    if (usesRSpec) {
+        frameworks.push('rspec');
+    }
+
+    if (markers.hasTestDir) {
+        frameworks.push('minitest');
+    }
+
+    const usesCucumber = /^\s{4}cucumber\b/m.test(markers.gemfileLock || '') ||
+        /^\s*gem\s+['"]cucumber(-rails)?['"]/m.test(markers.gemfile || '');
+    if (usesCucumber && markers.hasFeaturesDir !== false) {
+        frameworks.push('cucumber');
+    }
+
+    return frameworks.length > 0 ? frameworks : ['rspec', 'minitest'];
+}
+
+/**
+ * The deepest root directory containing a file
+ */
+export function owningRoot(filePath: string, roots: string[]): string | undefined {
+    let owner: string | undefined;
+    for (const root of roots) {
+        const contains = filePath === root || filePath.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+        if (contains && (!owner || root.length > owner.length)) {
+            owner = root;
+        }
+    }
+    return owner;
+}
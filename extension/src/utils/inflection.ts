@@ -0,0 +1,89 @@
+/**
+ * English inflection for Rails names (resources, tables, controllers)
+ *
+ * Covers ActiveSupport's common rules and irregular and uncountable words,
+ * not its full inflection table.
+ */
+
+const IRREGULAR_PLURALS: { [singular: string]: string } = {
+    person: 'people',
+    man: 'men',
+    woman: 'women',
+    child: 'children',
+    tooth: 'teeth',
+    foot: 'feet',
+    mouse: 'mice',
+    goose: 'geese',
+    ox: 'oxen',
+    movie: 'movies'
+};
+
+const IRREGULAR_SINGULARS: { [plural: string]: string } = Object.fromEntries(
+    Object.entries(IRREGULAR_PLURALS).map(([singular, plural]) => [plural, singular])
+);
+
+const UNCOUNTABLE = new Set([
+    'equipment', 'information', 'rice', 'money', 'species', 'series', 'fish', 'sheep', 'jeans', 'police', 'news', 'feedback'
+]);
+
+export function singularize(word: string): string {
+    const { prefix, last } = splitLastWord(word);
+    const lower = last.toLowerCase();
+    if (UNCOUNTABLE.has(lower)) {
+        return word;
+    }
+    if (IRREGULAR_SINGULARS[lower]) {
+        return prefix + IRREGULAR_SINGULARS[lower];
+    }
+    if (/(?:alias|status|bus|virus|campus|analysis|basis|axis)$/i.test(last)) {
+        return word;
+    }
+
+    if (/[^aeiou]ies$/i.test(last)) {
+        return prefix + last.slice(0, -3) + 'y';
+    }
+    if (/[^f]ives$/i.test(last)) {
+        return prefix + last.slice(0, -3) + 'fe';
+    }
+    if (/(?:[lr]|ea)ves$/i.test(last)) {
+        return prefix + last.slice(0, -3) + 'f';
+    }
+    if (/(?:ss|x|ch|sh|zz|[^aeiou]o)es$/i.test(last) || /(?:ss|us)es$/i.test(last)) {
+        return prefix + last.slice(0, -2);
+    }
+    if (/[^s]s$/i.test(last) || /(?:ie|oe|ue)s$/i.test(last)) {
+        return prefix + last.slice(0, -1);
+    }
+    return word;
+}
+
+export function pluralize(word: string): string {
+    const { prefix, last } = splitLastWord(word);
+    const lower = last.toLowerCase();
+    if (UNCOUNTABLE.has(lower)) {
+        return word;
+    }
+    if (IRREGULAR_PLURALS[lower]) {
+        return prefix + IRREGULAR_PLURALS[lower];
+    }
+
+    if (/[^aeiou]y$/i.test(last)) {
+        return prefix + last.slice(0, -1) + 'ies';
+    }
+    if (/[^f]fe$/i.test(last)) {
+        return prefix + last.slice(0, -2) + 'ves';
+    }
+    if (/(?:[lr]|ea)f$/i.test(last)) {
+        return prefix + last.slice(0, -1) + 'ves';
+    }
+    if (/(?:s|x|z|ch|sh)$/i.test(last)) {
+        return prefix + last + 'es';
+    }
+    return prefix + last + 's';
+}
+
+// Only the last word of `line_item` or `admin/user` is inflected
+function splitLastWord(word: string): { prefix: string; last: string } {
+    const match = word.match(/^(.*[_/])?([^_/]*)$/);
+    return { prefix: match?.[1] || '', last: match?.[2] ?? word };
+}
@@ -0,0 +1,52 @@
+/**
+ * Mapping between implementation files and their specs/tests
+ * (app/models/user.rb <-> spec/models/user_spec.rb or test/models/user_test.rb)
+ */
+
+/**
+ * Check whether a file is an RSpec or Minitest file
+ */
+export function isTestFile(filePath: string): boolean {
+    return filePath.endsWith('_spec.rb') || filePath.endsWith('_test.rb');
+}
+
+/**
+ * Candidate spec/test files for an implementation file, in preference order
+ *
+ * Files under app/ map to spec/ first and test/ second; files under lib/ map to spec/.
+ */
+export function testFilesForSource(filePath: string): string[] {
+    if (filePath.includes('/app/')) {
+        return [
+            filePath.replace('/app/', '/spec/').replace(/\.rb$/, '_spec.rb'),
+            filePath.replace('/app/', '/test/').replace(/\.rb$/, '_test.rb')
+        ];
+    }
+
+    if (filePath.includes('/lib/')) {
+        return [filePath.replace('/lib/', '/spec/').replace(/\.rb$/, '_spec.rb')];
+    }
+
+    return [];
+}
+
+/**
+ * Implementation file for a spec/test file
+ */
+export function sourceFileForTest(filePath: string): string | undefined {
+    if (filePath.includes('_spec.rb')) {
+        return filePath
+            .replace('/spec/', '/app/')
+            .replace('/lib/', '/app/')
+            .replace('_spec.rb', '.rb');
+    }
+
+    if (filePath.includes('_test.rb')) {
+        return filePath
+            .replace('/test/', '/app/')
+            .replace('/lib/', '/app/')
+            .replace('_test.rb', '.rb');
+    }
+
+    return undefined;
+}
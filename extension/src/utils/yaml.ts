@@ -0,0 +1,282 @@
+/**
+ * Reader for the block-style YAML subset found in project config files
+ * (docker-compose.yml, config/database.yml)
+ *
+ * Supports nested mappings and sequences, quoted and flow (`[a, b]`) scalars,
+ * block scalars (`|`, `>`), comments, and anchors with aliases and `<<` merges.
+ * Every scalar is kept as a string.
+ */
+
+export type YamlValue = string | null | YamlValue[] | YamlMap;
+
+export interface YamlMap {
+    [key: string]: YamlValue;
+}
+
+interface Line {
+    indent: number;
+    text: string;
+}
+
+export function parseYaml(text: string): YamlValue {
+    return new YamlReader(text).read();
+}
+
+class YamlReader {
+    private lines: Line[] = [];
+    private rawLines: string[];
+    private anchors = new Map<string, YamlValue>();
+    // Raw line index of each significant line, for block scalars
+    private rawIndex: number[] = [];
+    private position = 0;
+
+    constructor(text: string) {
+        this.rawLines = text.split(/\r?\n/);
+        this.rawLines.forEach((raw, index) => {
+            const content = stripComment(raw).trimEnd();
+            if (content.trim() === '' || content === '---' || content === '...') {
+                return;
+            }
+            this.lines.push({ indent: content.length - content.trimStart().length, text: content.trim() });
+            this.rawIndex.push(index);
+        });
+    }
+
+    read(): YamlValue {
+        if (this.lines.length === 0) {
+            return null;
+        }
+        return this.readBlock(this.lines[0].indent);
+    }
+
+    private readBlock(indent: number): YamlValue {
+        const line = this.lines[this.position];
+        if (!line || line.indent < indent) {
+            return null;
+        }
+        return isSequenceItem(line.text) ? this.readSequence(line.indent) : this.readMap(line.indent);
+    }
+
+    private readSequence(indent: number): YamlValue[] {
+        const items: YamlValue[] = [];
+
+        while (this.position < this.lines.length) {
+            const line = this.lines[this.position];
+            if (line.indent !== indent || !isSequenceItem(line.text)) {
+                break;
+            }
+
+            const rest = line.text.replace(/^-\s*/, '');
+            if (rest === '') {
+                this.position++;
+                items.push(this.readNested(indent, true));
+            } else if (mapEntry(rest)) {
+                // `- key: value` starts a mapping indented to where its first key sits
+                const offset = line.text.length - rest.length;
+                this.lines[this.position] = { indent: indent + offset, text: rest };
+                items.push(this.readMap(indent + offset));
+            } else {
+                this.position++;
+                items.push(this.readInline(rest, indent));
+            }
+        }
+
+        return items;
+    }
+
+    private readMap(indent: number): YamlMap {
+        const map: YamlMap = {};
+        const merges: YamlValue[] = [];
+
+        while (this.position < this.lines.length) {
+            const line = this.lines[this.position];
+            if (line.indent !== indent) {
+                break;
+            }
+            const entry = mapEntry(line.text);
+            if (!entry) {
+                break;
+            }
+
+            this.position++;
+            let [key, rest] = entry;
+            let anchor: string | undefined;
+            const anchorMatch = rest.match(/^&(\S+)\s*(.*)$/);
+            if (anchorMatch) {
+                anchor = anchorMatch[1];
+                rest = anchorMatch[2];
+            }
+
+            const value = rest === '' ? this.readNested(indent, false) : this.readInline(rest, indent);
+            if (anchor) {
+                this.anchors.set(anchor, value);
+            }
+
+            if (key === '<<') {
+                merges.push(value);
+            } else {
+                map[key] = value;
+            }
+        }
+
+        // Keys written in the mapping win over merged ones
+        for (const merge of merges) {
+            for (const source of Array.isArray(merge) ? merge : [merge]) {
+                if (source && typeof source === 'object' && !Array.isArray(source)) {
+                    for (const [key, value] of Object.entries(source)) {
+                        if (!(key in map)) {
+                            map[key] = value;
+                        }
+                    }
+                }
+            }
+        }
+
+        return map;
+    }
+
+    /**
+     * Value of a key or sequence item written on the following lines
+     */
+    private readNested(indent: number, inSequence: boolean): YamlValue {
+        const next = this.lines[this.position];
+        if (!next) {
+            return null;
+        }
+        // Compose files often put a key's sequence at the key's own indentation
+        if (next.indent > indent || (!inSequence && next.indent === indent && isSequenceItem(next.text))) {
+            return this.readBlock(next.indent);
+        }
+        return null;
+    }
+
+    private readInline(text: string, indent: number): YamlValue {
+        if (text.startsWith('*')) {
+            return this.anchors.get(text.slice(1)) ?? null;
+        }
+        if (/^[|>][+-]?\d*$/.test(text)) {
+            return this.readBlockScalar(indent, text.startsWith('>'));
+        }
+        return parseScalar(text);
+    }
+
+    private readBlockScalar(indent: number, folded: boolean): string {
+        const body: string[] = [];
+        const startRaw = this.rawIndex[this.position - 1] + 1;
+
+        while (this.position < this.lines.length && this.lines[this.position].indent > indent) {
+            this.position++;
+        }
+        const endRaw = this.position < this.lines.length ? this.rawIndex[this.position] : this.rawLines.length;
+
+        const rawBody = this.rawLines.slice(startRaw, endRaw);
+        const bodyIndent = Math.min(...rawBody.filter(raw => raw.trim() !== '').map(raw => raw.length - raw.trimStart().length));
+        for (const raw of rawBody) {
+            body.push(raw.slice(bodyIndent).trimEnd());
+        }
+        while (body.length > 0 && body[body.length - 1] === '') {
+            body.pop();
+        }
+
+        return folded ? body.join(' ').replace(/\s+/g, ' ').trim() : body.join('\n');
+    }
+}
+
+function isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * `key: rest` -> [key, rest], for plain and quoted keys
+ */
+function mapEntry(text: string): [string, string] | undefined {
+    const quoted = text.match(/^(["'])(.*?)\1\s*:(?:\s+(.*))?$/);
+    if (quoted) {
+        return [quoted[2], (quoted[3] || '').trim()];
+    }
+    const plain = text.match(/^([^\s"'[{#][^:]*?|<<)\s*:(?:\s+(.*))?$/);
+    if (plain && !text.startsWith('- ')) {
+        return [plain[1], (plain[2] || '').trim()];
+    }
+    return undefined;
+}
+
+function parseScalar(text: string): YamlValue {
+    if (text.startsWith('[') && text.endsWith(']')) {
+        const inner = text.slice(1, -1).trim();
+        return inner === '' ? [] : splitFlow(inner).map(item => parseScalar(item.trim()));
+    }
+    if (text.startsWith('{') && text.endsWith('}')) {
+        const map: YamlMap = {};
+        for (const item of splitFlow(text.slice(1, -1))) {
+            const entry = mapEntry(item.trim());
+            if (entry) {
+                map[entry[0]] = entry[1] === '' ? null : parseScalar(entry[1]);
+            }
+        }
+        return map;
+    }
+    if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+        return text.slice(1, -1).replace(/\\(["\\nt])/g, (_, escaped: string) =>
+            escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped
+        );
+    }
+    if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+        return text.slice(1, -1).replace(/''/g, "'");
+    }
+    if (text === '~' || text === 'null') {
+        return null;
+    }
+    return text;
+}
+
+/**
+ * Split flow collection items on commas outside quotes and brackets
+ */
+function splitFlow(text: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let current = '';
+
+    for (const char of text) {
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '[' || char === '{') {
+            depth++;
+        } else if (char === ']' || char === '}') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            items.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    if (current.trim() !== '') {
+        items.push(current);
+    }
+
+    return items;
+}
+
+function stripComment(line: string): string {
+    let quote: string | undefined;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+            return line.slice(0, i);
+        }
+    }
+    return line;
+}